@@ -0,0 +1,333 @@
+// src/application/services/BalanceService.ts
+import { ethers } from 'ethers';
+import { IBlockchainDataProvider } from '../../core/interfaces';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { BalancePoint } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { getPeriodLabel } from '../../utils/dates';
+import { getOrganizationAddresses } from '../../utils/organizations';
+import {
+  getInternalTransactionKey,
+  getTokenTransferKey,
+  getTransactionKey,
+  uniqueAcrossTrackedAddresses
+} from '../../utils/recordKeys';
+
+const logger = createLogger('BalanceService');
+
+// Asset name of the chain's native currency in balance points
+export const NATIVE_ASSET = 'native';
+
+export type BalanceInterval = 'day' | 'block';
+
+export const BALANCE_INTERVALS: BalanceInterval[] = ['day', 'block'];
+
+// Amounts are exact decimal strings in whole units
+export interface AssetBalance {
+  address: string;
+  asset: string;
+  symbol: string;
+  decimals: number;
+  balance: string;
+  // The replayed balance dipped below zero, so transfers before the
+  // collected range or of an uncollected kind are missing
+  negative: boolean;
+}
+
+export interface BalanceReconciliation {
+  address: string;
+  asset: string;
+  symbol: string;
+  computed: string;
+  live: string;
+  // Live minus computed
+  difference: string;
+  matches: boolean;
+}
+
+export interface BalanceReport {
+  organization: string;
+  interval: BalanceInterval;
+  points: number;
+  // Last block of the replayed records, which live balances may be past
+  lastBlock: number;
+  balances: AssetBalance[];
+  // Sum over the organization's addresses, per asset
+  totals: Array<Omit<AssetBalance, 'address'>>;
+  // Transactions the organization sent whose record has no gas used, so
+  // their fee could not be deducted
+  missingFees: number;
+  // Absent when no provider was given
+  reconciliation?: BalanceReconciliation[];
+}
+
+interface Movement {
+  address: string;
+  asset: string;
+  blockNumber: number;
+  timeStamp: number;
+  amount: bigint;
+}
+
+interface AssetInfo {
+  symbol: string;
+  decimals: number;
+}
+
+function getAssetInfo(asset: string, assets: Map<string, AssetInfo>, nativeSymbol: string): AssetInfo {
+  if (asset === NATIVE_ASSET) {
+    return { symbol: nativeSymbol, decimals: 18 };
+  }
+  return assets.get(asset) ?? { symbol: '', decimals: 0 };
+}
+
+export class BalanceService {
+  // Live balances are only queried with a provider
+  constructor(
+    private readonly storage: IDataStorage,
+    private readonly provider?: IBlockchainDataProvider
+  ) {}
+
+  // Every change of balance the stored records show at the organization's
+  // addresses: values in and out, the fees of transactions they sent,
+  // failed or not, and token transfers
+  private async collectMovements(name: string, own: Set<string>): Promise<{
+    movements: Movement[];
+    assets: Map<string, AssetInfo>;
+    missingFees: number;
+  }> {
+    const transactions = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey);
+    const internalTransactions = uniqueAcrossTrackedAddresses(await this.storage.getInternalTransactions(name), getInternalTransactionKey);
+    const tokenTransfers = uniqueAcrossTrackedAddresses(await this.storage.getTokenTransfers(name), getTokenTransferKey);
+
+    const movements: Movement[] = [];
+    const assets = new Map<string, AssetInfo>();
+    let missingFees = 0;
+
+    const move = (
+      record: { blockNumber: number; timeStamp: number },
+      address: string,
+      asset: string,
+      amount: bigint
+    ): void => {
+      const key = address.toLowerCase();
+      if (!own.has(key) || amount === 0n) return;
+      movements.push({ address: key, asset, blockNumber: Number(record.blockNumber), timeStamp: Number(record.timeStamp), amount });
+    };
+
+    for (const tx of transactions) {
+      const succeeded = tx.isError !== '1';
+      const value = BigInt(tx.value || '0');
+      if (own.has(tx.from.toLowerCase())) {
+        if (tx.gasUsed) {
+          move(tx, tx.from, NATIVE_ASSET, -BigInt(tx.gasUsed) * BigInt(tx.gasPrice || '0'));
+        } else {
+          missingFees++;
+        }
+      }
+      if (succeeded) {
+        move(tx, tx.from, NATIVE_ASSET, -value);
+        // Contract creations have no to but the deployed contract
+        move(tx, tx.to || tx.contractAddress || '', NATIVE_ASSET, value);
+      }
+    }
+
+    for (const tx of internalTransactions) {
+      if (tx.isError === '1') continue;
+      const value = BigInt(tx.value || '0');
+      move(tx, tx.from, NATIVE_ASSET, -value);
+      move(tx, tx.to || tx.contractAddress || '', NATIVE_ASSET, value);
+    }
+
+    for (const transfer of tokenTransfers) {
+      const asset = transfer.contractAddress.toLowerCase();
+      if (!assets.has(asset)) {
+        assets.set(asset, {
+          symbol: transfer.tokenSymbol,
+          // Tokens without decimals are counted in base units
+          decimals: parseInt(transfer.tokenDecimal, 10) || 0
+        });
+      }
+      const value = BigInt(transfer.value || '0');
+      move(transfer, transfer.from, asset, -value);
+      move(transfer, transfer.to, asset, value);
+    }
+
+    return { movements, assets, missingFees };
+  }
+
+  // Folds the movements into one point per address, asset and block or day
+  private buildHistory(
+    movements: Movement[],
+    assets: Map<string, AssetInfo>,
+    nativeSymbol: string,
+    interval: BalanceInterval
+  ): { points: BalancePoint[]; balances: AssetBalance[] } {
+    const series = new Map<string, Movement[]>();
+    for (const movement of movements) {
+      const key = `${movement.address}:${movement.asset}`;
+      const entries = series.get(key) ?? [];
+      entries.push(movement);
+      series.set(key, entries);
+    }
+
+    const points: BalancePoint[] = [];
+    const balances: AssetBalance[] = [];
+    for (const entries of series.values()) {
+      const { address, asset } = entries[0];
+      const info = getAssetInfo(asset, assets, nativeSymbol);
+
+      const first = points.length;
+      let balance = 0n;
+      let current: BalancePoint | undefined;
+      let currentLabel: string | undefined;
+      for (const movement of entries.sort((a, b) => a.blockNumber - b.blockNumber)) {
+        const label = interval === 'block' ?
+          movement.blockNumber.toString() :
+          getPeriodLabel(movement.timeStamp, 'day');
+
+        balance += movement.amount;
+        if (current && currentLabel === label) {
+          current.change = (BigInt(current.change) + movement.amount).toString();
+          current.balance = balance.toString();
+          current.blockNumber = movement.blockNumber;
+          current.timeStamp = Math.max(current.timeStamp, movement.timeStamp);
+          continue;
+        }
+
+        current = {
+          address,
+          asset,
+          symbol: info.symbol,
+          decimals: info.decimals,
+          blockNumber: movement.blockNumber,
+          timeStamp: movement.timeStamp,
+          change: movement.amount.toString(),
+          balance: balance.toString()
+        };
+        currentLabel = label;
+        points.push(current);
+      }
+
+      balances.push({
+        address,
+        asset,
+        symbol: info.symbol,
+        decimals: info.decimals,
+        balance: ethers.formatUnits(balance, info.decimals),
+        // Judged at the end of each point, as transfers within a block are
+        // not ordered
+        negative: points.slice(first).some(point => BigInt(point.balance) < 0n)
+      });
+    }
+
+    return { points, balances };
+  }
+
+  private async reconcile(
+    provider: IBlockchainDataProvider,
+    addresses: string[],
+    balances: AssetBalance[],
+    assets: Map<string, AssetInfo>,
+    nativeSymbol: string
+  ): Promise<BalanceReconciliation[]> {
+    const results: BalanceReconciliation[] = [];
+    for (const address of addresses) {
+      // Native balance of every address, tokens of those seen at it
+      const held = [
+        NATIVE_ASSET,
+        ...balances.filter(entry => entry.address === address && entry.asset !== NATIVE_ASSET).map(entry => entry.asset)
+      ];
+
+      for (const asset of held) {
+        const info = getAssetInfo(asset, assets, nativeSymbol);
+        const computed = ethers.parseUnits(
+          balances.find(entry => entry.address === address && entry.asset === asset)?.balance ?? '0',
+          info.decimals
+        );
+
+        let live: bigint;
+        try {
+          live = BigInt(asset === NATIVE_ASSET ?
+            await provider.getBalance(address) :
+            await provider.getTokenBalance(address, asset));
+        } catch (error) {
+          logger.warn(`Could not fetch the ${info.symbol} balance of ${address}, not reconciled`, error);
+          continue;
+        }
+
+        results.push({
+          address,
+          asset,
+          symbol: info.symbol,
+          computed: ethers.formatUnits(computed, info.decimals),
+          live: ethers.formatUnits(live, info.decimals),
+          difference: ethers.formatUnits(live - computed, info.decimals),
+          matches: live === computed
+        });
+      }
+    }
+    return results;
+  }
+
+  // Replays the stored transfers of the organization into a balance history
+  // per address and asset, replacing the previous one, and compares the
+  // final balances with live ones when a provider was given
+  async analyzeOrganization(
+    name: string,
+    options: { interval: BalanceInterval; nativeSymbol: string }
+  ): Promise<BalanceReport> {
+    try {
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const addresses = getOrganizationAddresses(organization).map(entry => entry.address.toLowerCase());
+      const { movements, assets, missingFees } = await this.collectMovements(name, new Set(addresses));
+      const { points, balances } = this.buildHistory(movements, assets, options.nativeSymbol, options.interval);
+
+      await this.storage.saveBalanceHistory(name, points);
+
+      const totals = new Map<string, Omit<AssetBalance, 'address'>>();
+      for (const entry of balances) {
+        const total = totals.get(entry.asset);
+        if (!total) {
+          totals.set(entry.asset, {
+            asset: entry.asset,
+            symbol: entry.symbol,
+            decimals: entry.decimals,
+            balance: entry.balance,
+            negative: entry.negative
+          });
+          continue;
+        }
+        total.balance = ethers.formatUnits(
+          ethers.parseUnits(total.balance, total.decimals) + ethers.parseUnits(entry.balance, entry.decimals),
+          total.decimals
+        );
+        total.negative = total.negative || entry.negative;
+      }
+
+      const report: BalanceReport = {
+        organization: name,
+        interval: options.interval,
+        points: points.length,
+        lastBlock: movements.reduce((last, movement) => Math.max(last, movement.blockNumber), 0),
+        balances,
+        totals: [...totals.values()],
+        missingFees,
+        ...(this.provider ? {
+          reconciliation: await this.reconcile(this.provider, addresses, balances, assets, options.nativeSymbol)
+        } : {})
+      };
+
+      logger.info(`Replayed ${movements.length} balance changes of ${name} into ${points.length} points`);
+      return report;
+    } catch (error) {
+      logger.error(`Failed to reconstruct the balances of ${name}`, error);
+      throw error;
+    }
+  }
+}
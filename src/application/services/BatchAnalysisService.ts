@@ -0,0 +1,87 @@
+// src/application/services/BatchAnalysisService.ts
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { ChainConfig } from '../../config/chains';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import { AnalysisResult, BlockchainService, DataCollectionOptions } from './BlockchainService';
+
+const logger = createLogger('BatchAnalysisService');
+
+export interface BatchEntry {
+  name: string;
+  // Registered with the organization before it is analyzed, the first one
+  // as primary address of a new organization
+  addresses?: string[];
+  chain: ChainConfig;
+  provider: string;
+  rpcUrl?: string;
+  options: Omit<DataCollectionOptions, 'address'>;
+}
+
+export interface BatchResult {
+  name: string;
+  chain: string;
+  succeeded: boolean;
+  records: AnalysisResult;
+  durationMs: number;
+  error?: string;
+}
+
+// What analyzing one entry needs; built by the caller so providers and
+// storages can be shared between the entries
+export interface BatchContext {
+  service: BlockchainService;
+  storage: IDataStorage;
+}
+
+export class BatchAnalysisService {
+  constructor(
+    private readonly createContext: (entry: BatchEntry) => Promise<BatchContext>
+  ) {}
+
+  private async analyzeEntry(entry: BatchEntry): Promise<BatchResult> {
+    const startedAt = Date.now();
+    const result: BatchResult = {
+      name: entry.name,
+      chain: entry.chain.name,
+      succeeded: false,
+      records: { normal: 0, internal: 0, tokenTransfers: 0, nftTransfers: 0, logs: 0 },
+      durationMs: 0
+    };
+
+    try {
+      const { service, storage } = await this.createContext(entry);
+
+      if (entry.addresses && entry.addresses.length > 0) {
+        await storage.saveOrganization({
+          address: entry.addresses[0],
+          addresses: entry.addresses.map(address => ({ address })),
+          name: entry.name,
+          chainId: entry.chain.chainId,
+          dateAdded: new Date().toISOString()
+        });
+      }
+
+      result.records = await service.analyzeOrganization(entry.name, entry.options);
+      result.succeeded = true;
+    } catch (error) {
+      // One organization failing must not stop the others
+      result.error = error instanceof Error ? error.message : String(error);
+      logger.error(`Batch analysis of ${entry.name} on ${entry.chain.name} failed`, error);
+    }
+
+    result.durationMs = Date.now() - startedAt;
+    return result;
+  }
+
+  async run(entries: BatchEntry[], concurrency: number): Promise<BatchResult[]> {
+    logger.info(`Analyzing ${entries.length} organizations, ${concurrency} at a time`);
+
+    return mapWithConcurrency(entries, concurrency, async (entry, index) => {
+      logger.info(`[${index + 1}/${entries.length}] Starting ${entry.name} on ${entry.chain.name}`);
+      const result = await this.analyzeEntry(entry);
+      logger.info(`[${index + 1}/${entries.length}] ${entry.name} ${result.succeeded ? 'completed' : 'failed'}`);
+      return result;
+    });
+  }
+}
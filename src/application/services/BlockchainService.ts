@@ -1,35 +1,87 @@
 // src/application/services/BlockchainService.ts
-import { IBlockchainDataProvider } from '../../core/interfaces/IBlockchainDataProvider';
-import { IDataStorage } from '../../core/interfaces/IDataStorage';
-import { Organization, Transaction, TokenTransfer } from '../../core/entities';
+import { BlockClosest, IBlockchainDataProvider, QueryOptions } from '../../core/interfaces/IBlockchainDataProvider';
+import { BlockRange, DataType, IDataStorage, StorageState } from '../../core/interfaces/IDataStorage';
+import { InternalTransaction, LogEntry, NftTransfer, Organization, OrganizationAddress, Transaction, TokenTransfer } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
 import { createLogger } from '../../infrastructure/logging/logger';
 import { EtherscanError } from '../../infrastructure/api/etherscan/EtherscanClient';
-import { StorageState } from '../../infrastructure/persistence/FileSystemStorage';
+import { CacheMissError } from '../../infrastructure/api/cache/CachingDataProvider';
+import { ChainConfig, getChain } from '../../config/chains';
+import { excludeBlocks } from '../../utils/blockRanges';
+import { DateBoundary, parseDateInput } from '../../utils/dates';
+import { getCoverageKey } from '../../utils/eventTopics';
+import { getOrganizationAddresses } from '../../utils/organizations';
 import { ethers } from 'ethers';
 
 const logger = createLogger('BlockchainService');
 
 export interface DataCollectionOptions {
+  // Collect only this address, registering it with the organization if new;
+  // every registered address is collected otherwise
+  address?: string;
   startBlock?: number;
   endBlock?: number;
+  // ISO dates or times relative to now, in place of startBlock / endBlock
+  from?: string;
+  to?: string;
   includeTokenTransfers?: boolean;
   includeInternalTransactions?: boolean;
+  includeNftTransfers?: boolean;
+  includeLogs?: boolean;
+  // topic0 hashes of the events to collect; every event when empty
+  logTopics?: string[];
   resume?: boolean;
+  // Register and collect the contracts the organization's addresses
+  // deployed, and those these contracts deployed, up to this many
+  // deployments deep
+  discoverContracts?: number;
 }
 
+export const DEFAULT_DISCOVERY_DEPTH = 3;
+
+// Records newly stored per data type
+export type AnalysisResult = Record<DataType, number>;
+
+// Block ranges of one data type to collect again for one address
+export interface MissingRanges {
+  address: string;
+  type: DataType;
+  ranges: BlockRange[];
+  // topic0 hashes the missing event logs were filtered on
+  logTopics?: string[];
+}
+
+interface CollectionStats {
+  saved: number;
+  splits: number;
+  fetched: number;
+  // Blocks whose records could not all be retrieved
+  truncatedBlocks: number[];
+}
+
+const DATA_TYPE_DESCRIPTIONS: Record<DataType, string> = {
+  normal: 'normal transactions',
+  internal: 'internal transactions',
+  tokenTransfers: 'token transfers',
+  nftTransfers: 'NFT transfers',
+  logs: 'event logs'
+};
+
 export class BlockchainService {
-  private readonly MAX_RECORDS_PER_CALL = 100;
+  private readonly MAX_RECORDS_PER_CALL = 1000;
   private readonly BLOCK_RANGE = 50000;
-  private readonly DELAY_BETWEEN_CALLS = 250;
+  private readonly MIN_BLOCK_RANGE = 1000;
+  private readonly MAX_BLOCK_RANGE = 1000000;
   private readonly MAX_RETRIES = 3;
   private readonly RETRY_DELAY = 10000;
 
   constructor(
     private readonly dataProvider: IBlockchainDataProvider,
-    private readonly storage: IDataStorage
+    private readonly storage: IDataStorage,
+    private readonly chain: ChainConfig = getChain('mainnet')
   ) {}
 
-  private async delay(ms: number = this.DELAY_BETWEEN_CALLS): Promise<void> {
+  private async delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
@@ -42,7 +94,7 @@ export class BlockchainService {
         return await operation();
       } catch (error) {
         const isLastAttempt = attempt === this.MAX_RETRIES;
-        const shouldRetry = !isLastAttempt && (
+        const shouldRetry = !isLastAttempt && !(error instanceof CacheMissError) && (
           !(error instanceof EtherscanError) ||
           error.message.includes('timeout') ||
           error.message.includes('rate limit')
@@ -60,181 +112,482 @@ export class BlockchainService {
     throw new Error(`Failed after ${this.MAX_RETRIES} attempts: ${description}`);
   }
 
-  private async processBatchWithType<T extends Transaction | TokenTransfer>(
+  // Fetches every page of a block window. A window is saturated when the
+  // provider's result window was exhausted, so more records may exist
+  private async fetchWindow<T>(
     fetchFn: (start: number, end: number, page: number) => Promise<T[]>,
-    saveFn: (items: T[]) => Promise<void>,
-    startBlock: number,
-    endBlock: number,
-    name: string,
-    description: string,
-    state: StorageState | null
-  ): Promise<void> {
-    let totalProcessed = 0;
-    let currentStart = startBlock;
-
-    while (currentStart <= endBlock) {
-      const currentEnd = Math.min(currentStart + this.BLOCK_RANGE - 1, endBlock);
-      let page = 1;
-      let hasMoreData = true;
+    start: number,
+    end: number,
+    description: string
+  ): Promise<{ items: T[]; saturated: boolean }> {
+    const resultWindow = this.dataProvider.maxResultWindow ?? Infinity;
+    const items: T[] = [];
+    let page = 1;
 
-      logger.info(`Processing ${description} for blocks ${currentStart} to ${currentEnd}`);
+    while (true) {
+      if (page * this.MAX_RECORDS_PER_CALL > resultWindow) {
+        return { items, saturated: true };
+      }
 
+      let pageItems: T[];
       try {
-        while (hasMoreData) {
-          const items = await this.retryOperation(
-            () => fetchFn(currentStart, currentEnd, page),
-            `Fetching ${description} page ${page} for blocks ${currentStart}-${currentEnd}`
-          );
-
-          if (!items || items.length === 0) {
-            hasMoreData = false;
-            continue;
-          }
-
-          await saveFn(items);
-          totalProcessed += items.length;
-          logger.info(`Saved ${items.length} ${description} (Total: ${totalProcessed}, Blocks: ${currentStart}-${currentEnd}, Page: ${page})`);
-
-          if (items.length < this.MAX_RECORDS_PER_CALL) {
-            hasMoreData = false;
-          } else {
-            page++;
-            await this.delay();
-          }
-        }
+        pageItems = await this.retryOperation(
+          () => fetchFn(start, end, page),
+          `Fetching ${description} page ${page} for blocks ${start}-${end}`
+        );
       } catch (error) {
         if (error instanceof EtherscanError) {
           if (error.message.includes('No transactions found')) {
-            logger.info(`No ${description} found in blocks ${currentStart}-${currentEnd}`);
+            logger.info(`No ${description} found in blocks ${start}-${end}`);
+            return { items, saturated: false };
           } else if (error.message.includes('Max rate limit reached')) {
             logger.warn('Rate limit reached, waiting before retry...');
             await this.delay(5000);
             continue;
-          } else {
-            throw error;
           }
-        } else {
-          throw error;
         }
+        throw error;
+      }
+
+      items.push(...(pageItems || []));
+      if (!pageItems || pageItems.length < this.MAX_RECORDS_PER_CALL) {
+        return { items, saturated: false };
+      }
+
+      page++;
+    }
+  }
+
+  // Collects a block range, bisecting it until no sub-range is saturated
+  private async collectRange<T>(
+    fetchFn: (start: number, end: number, page: number) => Promise<T[]>,
+    saveFn: (items: T[]) => Promise<number>,
+    start: number,
+    end: number,
+    description: string,
+    stats: CollectionStats
+  ): Promise<void> {
+    const { items, saturated } = await this.fetchWindow(fetchFn, start, end, description);
+
+    if (saturated) {
+      if (end > start) {
+        const middle = Math.floor((start + end) / 2);
+        stats.splits++;
+        logger.info(`Blocks ${start}-${end} exceed the provider result window for ${description}, splitting at ${middle}`);
+        await this.collectRange(fetchFn, saveFn, start, middle, description, stats);
+        await this.collectRange(fetchFn, saveFn, middle + 1, end, description, stats);
+        return;
+      }
+      logger.warn(`Block ${start} alone holds more ${description} than the provider result window; only the first ${items.length} were retrieved`);
+      stats.truncatedBlocks.push(start);
+    }
+
+    if (items.length > 0) {
+      const saved = await saveFn(items);
+      stats.saved += saved;
+      logger.info(`Saved ${saved} of ${items.length} ${description} (Total: ${stats.saved}, Blocks: ${start}-${end})`);
+    }
+    stats.fetched += items.length;
+  }
+
+  private async processBatchWithType<T extends Transaction | InternalTransaction | TokenTransfer | NftTransfer | LogEntry>(
+    fetchFn: (start: number, end: number, page: number) => Promise<T[]>,
+    saveFn: (items: T[]) => Promise<number>,
+    startBlock: number,
+    endBlock: number,
+    name: string,
+    type: DataType,
+    address: string,
+    coverageKey: string
+  ): Promise<number> {
+    const description = `${DATA_TYPE_DESCRIPTIONS[type]} of ${address}`;
+    const stats: CollectionStats = { saved: 0, splits: 0, fetched: 0, truncatedBlocks: [] };
+    let blockRange = this.BLOCK_RANGE;
+    let currentStart = startBlock;
+
+    while (currentStart <= endBlock) {
+      const currentEnd = Math.min(currentStart + blockRange - 1, endBlock);
+      const splitsBefore = stats.splits;
+      const fetchedBefore = stats.fetched;
+
+      logger.info(`Processing ${description} for blocks ${currentStart} to ${currentEnd}`);
+      await this.collectRange(fetchFn, saveFn, currentStart, currentEnd, description, stats);
+
+      // Only a fully collected window counts as covered
+      const covered = excludeBlocks({ fromBlock: currentStart, toBlock: currentEnd }, stats.truncatedBlocks);
+      for (const range of covered) {
+        await this.storage.markRangeCovered(name, type, coverageKey, range);
+      }
+
+      // Shrink the window after busy stretches and widen it over quiet ones
+      if (stats.splits > splitsBefore) {
+        blockRange = Math.max(this.MIN_BLOCK_RANGE, Math.floor(blockRange / 2));
+      } else if (stats.fetched - fetchedBefore < this.MAX_RECORDS_PER_CALL) {
+        blockRange = Math.min(this.MAX_BLOCK_RANGE, blockRange * 2);
       }
 
       currentStart = currentEnd + 1;
     }
 
-    logger.info(`Completed processing ${description}. Total items: ${totalProcessed}`);
+    logger.info(`Completed processing ${description}. Total items: ${stats.saved}, window splits: ${stats.splits}`);
+    return stats.saved;
   }
 
-  async analyzeOrganization(
+  private async collectType(
     address: string,
+    name: string,
+    type: DataType,
+    startBlock: number,
+    endBlock: number,
+    logTopics: string[] = []
+  ): Promise<number> {
+    const query = (start: number, end: number, page: number): QueryOptions => ({
+      startBlock: start,
+      endBlock: end,
+      page,
+      offset: this.MAX_RECORDS_PER_CALL,
+      sort: 'asc'
+    });
+    const coverageKey = getCoverageKey(address, type === 'logs' ? logTopics : []);
+    const attribute = <T extends Transaction | InternalTransaction | TokenTransfer | NftTransfer | LogEntry>(items: T[]): T[] =>
+      items.map(item => ({ ...item, trackedAddress: address.toLowerCase() }));
+
+    switch (type) {
+      case 'normal':
+        return this.processBatchWithType<Transaction>(
+          (start, end, page) => this.dataProvider.getTransactions(address, query(start, end, page)),
+          (items) => this.storage.saveTransactions(name, attribute(items)),
+          startBlock,
+          endBlock,
+          name,
+          type,
+          address,
+          coverageKey
+        );
+      case 'internal':
+        return this.processBatchWithType<InternalTransaction>(
+          (start, end, page) => this.dataProvider.getInternalTransactions(address, query(start, end, page)),
+          (items) => this.storage.saveInternalTransactions(name, attribute(items)),
+          startBlock,
+          endBlock,
+          name,
+          type,
+          address,
+          coverageKey
+        );
+      case 'tokenTransfers':
+        return this.processBatchWithType<TokenTransfer>(
+          (start, end, page) => this.dataProvider.getTokenTransfers(address, query(start, end, page)),
+          (items) => this.storage.saveTokenTransfers(name, attribute(items)),
+          startBlock,
+          endBlock,
+          name,
+          type,
+          address,
+          coverageKey
+        );
+      case 'nftTransfers':
+        // Both standards are paged together: a page is only short once
+        // neither list has more, and saturation bisects the window for both
+        return this.processBatchWithType<NftTransfer>(
+          async (start, end, page) => {
+            const [erc721, erc1155] = await Promise.all([
+              this.dataProvider.getNftTransfers(address, 'erc721', query(start, end, page)),
+              this.dataProvider.getNftTransfers(address, 'erc1155', query(start, end, page))
+            ]);
+            return [...erc721, ...erc1155];
+          },
+          (items) => this.storage.saveNftTransfers(name, attribute(items)),
+          startBlock,
+          endBlock,
+          name,
+          type,
+          address,
+          coverageKey
+        );
+      case 'logs':
+        // One query per event, paged together as NFT transfers are
+        return this.processBatchWithType<LogEntry>(
+          async (start, end, page) => {
+            const topics = logTopics.length > 0 ? logTopics : [undefined];
+            const results = await Promise.all(topics.map(topic0 =>
+              this.dataProvider.getLogs(address, { ...query(start, end, page), topic0 })
+            ));
+            return results.flat();
+          },
+          (items) => this.storage.saveLogs(name, attribute(items)),
+          startBlock,
+          endBlock,
+          name,
+          type,
+          address,
+          coverageKey
+        );
+    }
+  }
+
+  async analyzeOrganization(
     name: string,
     options: DataCollectionOptions = {}
-  ): Promise<void> {
+  ): Promise<AnalysisResult> {
     try {
-      logger.info(`Starting analysis for organization: ${name} (${address})`);
-
-      let state: StorageState | null = null;
-      if (options.resume) {
-        state = await this.storage.getLastProcessedState(name);
-        if (state) {
-          logger.info('Resuming from previous state:', {
-            lastBlock: state.lastProcessedBlock,
-            totalTransactions: state.totalTransactions,
-            lastProcessed: state.lastProcessedTimestamp
-          });
-        }
+      const registered = await this.storage.getOrganizationByName(name);
+      const primaryAddress = registered?.address ?? options.address;
+      if (!primaryAddress) {
+        throw new ValidationError(`Organization ${name} is not registered, add it first or pass its address`);
       }
 
+      // Registers the organization on this chain, and the address if it is new
       const organization: Organization = {
-        address,
+        address: options.address ?? primaryAddress,
         name,
-        chainId: 1,
+        chainId: this.chain.chainId,
         dateAdded: new Date().toISOString(),
       };
-
       await this.storage.saveOrganization(organization);
 
-      const endBlock = options.endBlock || await this.getCurrentBlock();
-
-      // Process normal transactions
-      const normalStartBlock = options.resume && state?.transactionTypes.normal.lastBlock ?
-        state.transactionTypes.normal.lastBlock + 1 :
-        (options.startBlock || 0);
-
-      await this.processBatchWithType<Transaction>(
-        (start, end, page) => this.dataProvider.getTransactions(address, {
-          startBlock: start,
-          endBlock: end,
-          page,
-          offset: this.MAX_RECORDS_PER_CALL,
-          sort: 'asc'
-        }),
-        (items) => this.storage.saveTransactions(name, items, 'normal'),
-        normalStartBlock,
-        endBlock,
-        name,
-        'normal transactions',
-        state
-      );
-
-      if (options.includeInternalTransactions) {
-        const internalStartBlock = options.resume && state?.transactionTypes.internal.lastBlock ?
-          state.transactionTypes.internal.lastBlock + 1 :
-          (options.startBlock || 0);
-
-        await this.processBatchWithType<Transaction>(
-          (start, end, page) => this.dataProvider.getInternalTransactions(address, {
-            startBlock: start,
-            endBlock: end,
-            page,
-            offset: this.MAX_RECORDS_PER_CALL,
-            sort: 'asc'
-          }),
-          (items) => this.storage.saveTransactions(name, items, 'internal'),
-          internalStartBlock,
-          endBlock,
-          name,
-          'internal transactions',
-          state
-        );
+      const addresses = options.address || !registered ?
+        [organization.address] :
+        getOrganizationAddresses(registered).map(entry => entry.address);
+      logger.info(`Starting analysis for organization: ${name} (${addresses.join(', ')}) on ${this.chain.name}`);
+
+      const state = await this.storage.getLastProcessedState(name);
+      if (options.resume && state) {
+        logger.info('Resuming from previous state:', {
+          lastBlock: state.lastProcessedBlock,
+          totalTransactions: state.totalTransactions,
+          lastProcessed: state.lastProcessedTimestamp
+        });
       }
 
-      if (options.includeTokenTransfers) {
-        const tokenStartBlock = options.resume && state?.transactionTypes.tokenTransfers.lastBlock ?
-          state.transactionTypes.tokenTransfers.lastBlock + 1 :
-          (options.startBlock || 0);
-
-        await this.processBatchWithType<TokenTransfer>(
-          (start, end, page) => this.dataProvider.getTokenTransfers(address, {
-            startBlock: start,
-            endBlock: end,
-            page,
-            offset: this.MAX_RECORDS_PER_CALL,
-            sort: 'asc'
-          }),
-          (items) => this.storage.saveTokenTransfers(name, items),
-          tokenStartBlock,
-          endBlock,
-          name,
-          'token transfers',
-          state
-        );
+      const { fromBlock, toBlock: endBlock } = await this.resolveBlockRange(name, options, state);
+
+      const types: DataType[] = ['normal'];
+      if (options.includeInternalTransactions) types.push('internal');
+      if (options.includeTokenTransfers) types.push('tokenTransfers');
+      if (options.includeNftTransfers) types.push('nftTransfers');
+      if (options.includeLogs) types.push('logs');
+
+      const result: AnalysisResult = { normal: 0, internal: 0, tokenTransfers: 0, nftTransfers: 0, logs: 0 };
+      const collectAddress = async (address: string, startBlock: number): Promise<void> => {
+        for (const type of types) {
+          const resumeBlock = options.resume && state ?
+            this.getResumeBlock(state, type, address, address.toLowerCase() === primaryAddress.toLowerCase(), options.logTopics) :
+            undefined;
+          const collectFrom = resumeBlock ?? startBlock;
+          if (collectFrom > endBlock) continue;
+
+          result[type] += await this.collectType(address, name, type, collectFrom, endBlock, options.logTopics);
+        }
+      };
+
+      for (const address of addresses) {
+        await collectAddress(address, fromBlock);
+      }
+
+      // Each round collects the contracts found in the records of the
+      // previous one, so a factory's contracts are found once it is collected
+      if (options.discoverContracts) {
+        if (!options.includeInternalTransactions) {
+          logger.warn('Without internal transactions, contracts deployed by other contracts are not discovered');
+        }
+        let discovered = await this.discoverContracts(name, options.discoverContracts);
+        while (discovered.length > 0) {
+          for (const entry of discovered) {
+            // Nothing happens at a contract before it is deployed
+            await collectAddress(entry.address, Math.max(fromBlock, entry.provenance?.blockNumber ?? 0));
+          }
+          discovered = await this.discoverContracts(name, options.discoverContracts);
+        }
       }
 
-      logger.info(`Completed analysis for organization: ${name}`);
+      logger.info(`Completed analysis for organization: ${name}`, result);
+      return result;
     } catch (error) {
       logger.error(`Failed to analyze organization: ${name}`, error);
       throw error;
     }
   }
 
+  // Registers the contracts the organization's addresses deployed, found in
+  // their stored creation transactions and create calls, that are not
+  // registered yet and are at most maxDepth deployments away from a
+  // registered address
+  private async discoverContracts(name: string, maxDepth: number): Promise<OrganizationAddress[]> {
+    const organization = await this.storage.getOrganizationByName(name);
+    if (!organization) {
+      throw new ValidationError(`Organization ${name} is not registered`);
+    }
+
+    const depths = new Map(getOrganizationAddresses(organization)
+      .map(entry => [entry.address.toLowerCase(), entry.provenance?.depth ?? 0]));
+    const discoveredAt = new Date().toISOString();
+    const discovered = new Map<string, OrganizationAddress>();
+    const consider = (
+      record: Transaction | InternalTransaction,
+      method: 'transaction' | 'create'
+    ): void => {
+      const deployer = record.from.toLowerCase();
+      const contract = record.contractAddress?.toLowerCase();
+      const depth = depths.get(deployer);
+      if (depth === undefined || depth >= maxDepth || record.isError === '1' ||
+        !contract || depths.has(contract) || discovered.has(contract)) {
+        return;
+      }
+      discovered.set(contract, {
+        address: ethers.getAddress(contract),
+        provenance: {
+          deployer,
+          method,
+          transactionHash: record.hash,
+          blockNumber: Number(record.blockNumber),
+          chainId: this.chain.chainId,
+          depth: depth + 1,
+          discoveredAt
+        }
+      });
+    };
+
+    for (const tx of await this.storage.getTransactions(name)) {
+      if (!tx.to) consider(tx, 'transaction');
+    }
+    for (const tx of await this.storage.getInternalTransactions(name)) {
+      if (tx.type.toLowerCase().startsWith('create')) consider(tx, 'create');
+    }
+
+    const contracts = [...discovered.values()];
+    if (contracts.length > 0) {
+      await this.storage.saveOrganization({
+        address: organization.address,
+        addresses: contracts,
+        name,
+        chainId: this.chain.chainId,
+        dateAdded: organization.dateAdded
+      });
+      for (const contract of contracts) {
+        logger.info(`Discovered contract ${contract.address} of ${name}, deployed by ${contract.provenance?.deployer} ` +
+          `in ${contract.provenance?.transactionHash}`);
+      }
+    }
+    return contracts;
+  }
+
+  // Resuming continues after the last block covered for the address, for
+  // logs under the same event filter or none. Data collected before
+  // coverage was tracked has none; there, resuming starts at the last
+  // stored block rather than after it, since that block may only have been
+  // partially written and storage skips records it holds
+  private getResumeBlock(
+    state: StorageState,
+    type: DataType,
+    address: string,
+    isPrimary: boolean,
+    logTopics: string[] = []
+  ): number | undefined {
+    const typeState = state.transactionTypes[type];
+    const coverage = typeState.coveredRanges ?? {};
+    const covered = [
+      ...(coverage[getCoverageKey(address)] ?? []),
+      ...(type === 'logs' && logTopics.length > 0 ? (coverage[getCoverageKey(address, logTopics)] ?? []) : [])
+    ];
+    if (covered.length > 0) {
+      return covered.reduce((max, range) => Math.max(max, range.toBlock), 0) + 1;
+    }
+    return isPrimary && typeState.lastBlock ? typeState.lastBlock : undefined;
+  }
+
+  // Collects only the given block ranges, e.g. gaps found by verification
+  async repairGaps(name: string, gaps: MissingRanges[]): Promise<number> {
+    let repaired = 0;
+
+    for (const { address, type, ranges, logTopics } of gaps) {
+      for (const range of ranges) {
+        logger.info(`Repairing ${DATA_TYPE_DESCRIPTIONS[type]} of ${name} (${address}) for blocks ${range.fromBlock}-${range.toBlock}`);
+        repaired += await this.collectType(address, name, type, range.fromBlock, range.toBlock, logTopics);
+      }
+    }
+
+    logger.info(`Completed repair for organization: ${name}, ${repaired} records added`);
+    return repaired;
+  }
+
+  private async resolveBlockRange(
+    name: string,
+    options: DataCollectionOptions,
+    state: StorageState | null
+  ): Promise<BlockRange> {
+    if (options.from && options.startBlock !== undefined) {
+      throw new ValidationError('Give either a start block or a from date, not both');
+    }
+    if (options.to && options.endBlock !== undefined) {
+      throw new ValidationError('Give either an end block or a to date, not both');
+    }
+
+    const fromBlock = options.from ?
+      await this.resolveDate(name, options.from, 'start', state) :
+      options.startBlock || 0;
+    const toBlock = options.to ?
+      await this.resolveDate(name, options.to, 'end', state) :
+      options.endBlock || await this.getCurrentBlock();
+
+    if (fromBlock > toBlock) {
+      throw new ValidationError(`No blocks between ${options.from ?? fromBlock} and ${options.to ?? toBlock}`);
+    }
+    return { fromBlock, toBlock };
+  }
+
+  // Dates resolve to the first block at or after the start of a range and the
+  // last block at or before its end. Past dates are recorded in the state and
+  // reused, so a rerun with the same dates covers exactly the same blocks
+  private async resolveDate(
+    name: string,
+    input: string,
+    boundary: DateBoundary,
+    state: StorageState | null
+  ): Promise<number> {
+    const timestamp = parseDateInput(input, boundary);
+    const closest: BlockClosest = boundary === 'start' ? 'after' : 'before';
+    const isoDate = new Date(timestamp * 1000).toISOString();
+
+    const recorded = state?.resolvedDates?.find(date =>
+      date.timestamp === timestamp && date.closest === closest
+    );
+    if (recorded) {
+      logger.info(`Using block ${recorded.blockNumber} recorded for ${input} (${isoDate})`);
+      return recorded.blockNumber;
+    }
+
+    if (timestamp >= Math.floor(Date.now() / 1000)) {
+      if (boundary === 'start') {
+        throw new ValidationError(`Date ${input} (${isoDate}) is in the future`);
+      }
+      return this.getCurrentBlock();
+    }
+
+    const blockNumber = await this.dataProvider.getBlockNumberByTime(timestamp, closest);
+    await this.storage.saveResolvedDate(name, {
+      input,
+      timestamp,
+      closest,
+      blockNumber,
+      resolvedAt: new Date().toISOString()
+    });
+
+    logger.info(`Resolved ${input} (${isoDate}) to block ${blockNumber}`);
+    return blockNumber;
+  }
+
   private async getCurrentBlock(): Promise<number> {
     try {
-      const provider = new ethers.JsonRpcProvider('https://eth-mainnet.g.alchemy.com/v2/demo');
-      const blockNumber = await provider.getBlockNumber();
-      return blockNumber;
+      return await this.dataProvider.getCurrentBlock();
     } catch (error) {
-      logger.error('Failed to get current block number, using default', error);
-      return 18000000;
+      // Offline runs are served from the cache alone
+      if (error instanceof CacheMissError) {
+        throw error;
+      }
+      logger.warn(`Failed to get current block number from the data provider, asking ${this.chain.rpcUrl}`, error);
+      const provider = new ethers.JsonRpcProvider(this.chain.rpcUrl, this.chain.chainId, { staticNetwork: true });
+      return await provider.getBlockNumber();
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,147 @@
+// src/application/services/DataIntegrityService.ts
+import { BlockRange, DataType, IDataStorage } from '../../core/interfaces/IDataStorage';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { findGaps, mergeRanges } from '../../utils/blockRanges';
+import { getCoverageKey, parseCoverageKey } from '../../utils/eventTopics';
+import { getOrganizationAddresses } from '../../utils/organizations';
+
+const logger = createLogger('DataIntegrityService');
+
+export interface VerificationOptions {
+  startBlock?: number;
+  endBlock?: number;
+}
+
+export interface AddressCoverage {
+  address: string;
+  // topic0 hashes of event logs collected with a filter, apart from the
+  // address's unfiltered coverage
+  logTopics?: string[];
+  coveredRanges: BlockRange[];
+  gaps: BlockRange[];
+}
+
+export interface TypeVerification {
+  type: DataType;
+  // False when no coverage was ever recorded for this type
+  collected: boolean;
+  addresses: AddressCoverage[];
+  storedCount: number;
+  stateCount: number;
+  outOfOrderRows: number;
+}
+
+export interface VerificationReport {
+  organization: string;
+  types: TypeVerification[];
+  healthy: boolean;
+}
+
+const DATA_TYPES: DataType[] = ['normal', 'internal', 'tokenTransfers', 'nftTransfers', 'logs'];
+
+export class DataIntegrityService {
+  constructor(private readonly storage: IDataStorage) {}
+
+  private async getRecords(name: string, type: DataType): Promise<Array<{ blockNumber: number; trackedAddress?: string }>> {
+    switch (type) {
+      case 'normal':
+        return await this.storage.getTransactions(name);
+      case 'internal':
+        return await this.storage.getInternalTransactions(name);
+      case 'tokenTransfers':
+        return await this.storage.getTokenTransfers(name);
+      case 'nftTransfers':
+        return await this.storage.getNftTransfers(name);
+      case 'logs':
+        return await this.storage.getLogs(name);
+    }
+  }
+
+  // Rows are appended per address, so order only matters within an address
+  private countOutOfOrderRows(records: Array<{ blockNumber: number; trackedAddress?: string }>): number {
+    const lastBlocks = new Map<string, number>();
+    let outOfOrderRows = 0;
+
+    for (const record of records) {
+      const address = record.trackedAddress?.toLowerCase() ?? '';
+      const blockNumber = Number(record.blockNumber);
+      const lastBlock = lastBlocks.get(address);
+      if (lastBlock !== undefined && blockNumber < lastBlock) {
+        outOfOrderRows++;
+      }
+      lastBlocks.set(address, Math.max(lastBlock ?? blockNumber, blockNumber));
+    }
+
+    return outOfOrderRows;
+  }
+
+  async verify(name: string, options: VerificationOptions = {}): Promise<VerificationReport> {
+    const state = await this.storage.getLastProcessedState(name);
+    if (!state) {
+      throw new Error(`No collected data found for organization ${name}`);
+    }
+
+    const organization = await this.storage.getOrganizationByName(name);
+    const registeredAddresses = organization ?
+      getOrganizationAddresses(organization).map(entry => entry.address.toLowerCase()) :
+      [];
+    // Discovered contracts are collected from the block they were deployed in
+    const deploymentBlocks = new Map((organization ? getOrganizationAddresses(organization) : [])
+      .filter(entry => entry.provenance)
+      .map(entry => [entry.address.toLowerCase(), entry.provenance?.blockNumber ?? 0]));
+
+    const types: TypeVerification[] = [];
+
+    for (const type of DATA_TYPES) {
+      const typeState = state.transactionTypes[type];
+      const coverage = typeState.coveredRanges ?? {};
+      const records = await this.getRecords(name, type);
+      const collected = Object.values(coverage).some(ranges => ranges.length > 0);
+
+      // Every address is expected to cover the same span: the explicit range,
+      // or else the one from the first to the last block covered for any address
+      const allRanges = mergeRanges(Object.values(coverage).flat());
+      const fromBlock = options.startBlock ?? allRanges[0]?.fromBlock;
+      const toBlock = options.endBlock ?? allRanges[allRanges.length - 1]?.toBlock;
+      const checkGaps = (collected || options.startBlock !== undefined) && fromBlock !== undefined && toBlock !== undefined;
+
+      // Unfiltered coverage also holds the events of any filter
+      const addresses = [...new Set([...registeredAddresses, ...Object.keys(coverage)])].map(key => {
+        const { address, topics } = parseCoverageKey(key);
+        const coveredRanges = mergeRanges([
+          ...(coverage[key] ?? []),
+          ...(topics.length > 0 ? (coverage[getCoverageKey(address)] ?? []) : [])
+        ]);
+        return {
+          address,
+          ...(topics.length > 0 ? { logTopics: topics } : {}),
+          coveredRanges,
+          gaps: checkGaps ? findGaps(coveredRanges, Math.max(fromBlock, deploymentBlocks.get(address) ?? 0), toBlock) : []
+        };
+      });
+
+      if (!collected && records.length > 0) {
+        logger.warn(`${type} records of ${name} were collected before block coverage was tracked`);
+      }
+
+      types.push({
+        type,
+        collected,
+        addresses,
+        storedCount: records.length,
+        stateCount: typeState.count,
+        outOfOrderRows: this.countOutOfOrderRows(records)
+      });
+    }
+
+    return {
+      organization: name,
+      types,
+      healthy: types.every(t =>
+        t.addresses.every(address => address.gaps.length === 0) &&
+        t.storedCount === t.stateCount &&
+        t.outOfOrderRows === 0
+      )
+    };
+  }
+}
@@ -0,0 +1,148 @@
+// src/application/services/DecodingService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { DecodedCall, DecodedEvent, LogEntry, Transaction } from '../../core/entities';
+import { AbiRegistry, ContractAbi } from '../../infrastructure/abi/AbiRegistry';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { getLogKey, getTransactionKey, uniqueAcrossTrackedAddresses } from '../../utils/recordKeys';
+
+const logger = createLogger('DecodingService');
+
+export interface DecodingResult {
+  calls: number;
+  undecodedCalls: number;
+  events: number;
+  undecodedEvents: number;
+}
+
+// Decoded values as JSON: integers become decimal strings, tuples objects
+// keyed like the parameters, and indexed dynamic event arguments their hash
+function formatValue(param: ethers.ParamType, value: unknown): unknown {
+  if (value instanceof ethers.Indexed) {
+    return value.hash;
+  }
+  if (param.isTuple()) {
+    return formatParams(param.components, value as ethers.Result);
+  }
+  if (param.isArray()) {
+    return Array.from(value as ethers.Result, item => formatValue(param.arrayChildren, item));
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function formatParams(params: readonly ethers.ParamType[], values: ethers.Result): Record<string, unknown> {
+  const formatted: Record<string, unknown> = {};
+  params.forEach((param, index) => {
+    formatted[param.name || index.toString()] = formatValue(param, values[index]);
+  });
+  return formatted;
+}
+
+export class DecodingService {
+  constructor(
+    private readonly abis: AbiRegistry,
+    private readonly storage: IDataStorage
+  ) {}
+
+  // The contract's own ABI first; proxies and partial ABIs may still leave
+  // a selector to the signature table
+  private async getCandidates(address: string, key: string): Promise<ContractAbi[]> {
+    const contractAbi = await this.abis.getContractAbi(address);
+    const signatures = await this.abis.findSignatures(key);
+    return [
+      ...(contractAbi ? [contractAbi] : []),
+      ...signatures.map(iface => ({ iface, source: 'signature' as const }))
+    ];
+  }
+
+  private async decodeCall(tx: Transaction): Promise<DecodedCall | null> {
+    const selector = tx.input.slice(0, 10).toLowerCase();
+    for (const { iface, source } of await this.getCandidates(tx.to, selector)) {
+      try {
+        const parsed = iface.parseTransaction({ data: tx.input });
+        if (!parsed) continue;
+
+        return {
+          hash: tx.hash,
+          blockNumber: Number(tx.blockNumber),
+          contractAddress: tx.to,
+          selector,
+          functionName: parsed.name,
+          signature: parsed.signature,
+          args: formatParams(parsed.fragment.inputs, parsed.args),
+          abiSource: source,
+          ...(tx.trackedAddress ? { trackedAddress: tx.trackedAddress } : {})
+        };
+      } catch {
+        // Input that does not fit this fragment; try the next one
+      }
+    }
+    return null;
+  }
+
+  private async decodeEvent(log: LogEntry): Promise<DecodedEvent | null> {
+    const topic0 = log.topics[0].toLowerCase();
+    for (const { iface, source } of await this.getCandidates(log.address, topic0)) {
+      try {
+        const parsed = iface.parseLog({ topics: log.topics, data: log.data });
+        if (!parsed) continue;
+
+        return {
+          hash: log.hash,
+          logIndex: Number(log.logIndex),
+          blockNumber: Number(log.blockNumber),
+          address: log.address,
+          topic0,
+          eventName: parsed.name,
+          signature: parsed.signature,
+          args: formatParams(parsed.fragment.inputs, parsed.args),
+          abiSource: source,
+          ...(log.trackedAddress ? { trackedAddress: log.trackedAddress } : {})
+        };
+      } catch {
+        // e.g. an ERC-20 Transfer fragment tried on an ERC-721 log
+      }
+    }
+    return null;
+  }
+
+  // Decodes every stored transaction input and event log, replacing the
+  // previous output, so ABIs added since are picked up
+  async decodeOrganization(name: string): Promise<DecodingResult> {
+    try {
+      // Plain transfers and contract creations carry no call
+      const transactions = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey)
+        .filter(tx => tx.to && tx.input && tx.input.length >= 10);
+      const logs = uniqueAcrossTrackedAddresses(await this.storage.getLogs(name), getLogKey)
+        .filter(log => log.topics.length > 0);
+      logger.info(`Decoding ${transactions.length} transaction inputs and ${logs.length} event logs of ${name}`);
+
+      const calls: DecodedCall[] = [];
+      for (const tx of transactions) {
+        const call = await this.decodeCall(tx);
+        if (call) calls.push(call);
+      }
+
+      const events: DecodedEvent[] = [];
+      for (const log of logs) {
+        const event = await this.decodeEvent(log);
+        if (event) events.push(event);
+      }
+
+      await this.storage.saveDecodedCalls(name, calls);
+      await this.storage.saveDecodedEvents(name, events);
+
+      const result: DecodingResult = {
+        calls: calls.length,
+        undecodedCalls: transactions.length - calls.length,
+        events: events.length,
+        undecodedEvents: logs.length - events.length
+      };
+      logger.info(`Decoded ${name}`, result);
+      return result;
+    } catch (error) {
+      logger.error(`Failed to decode ${name}`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,250 @@
+// src/application/services/FeeService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { AddressLabel, Transaction } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { getPeriodLabel, ReportPeriod } from '../../utils/dates';
+import { indexLabels } from '../../utils/labels';
+import { getOrganizationAddresses } from '../../utils/organizations';
+import { getTransactionKey, uniqueAcrossTrackedAddresses } from '../../utils/recordKeys';
+import { formatUsd, getUsdValue, indexValuations } from '../../utils/valuations';
+
+const logger = createLogger('FeeService');
+
+export interface FeeOptions {
+  period: ReportPeriod;
+  // Functions and contracts listed, by fees paid
+  top: number;
+}
+
+// Fees are exact decimal strings in the native currency
+export interface FeeBreakdown {
+  key: string;
+  // Address label of senders and contracts, when one is stored
+  label?: string;
+  fees: string;
+  // At the price of the day of each transaction, once the organization
+  // was valued; fees without a price are left out
+  feesUsd?: string;
+  transactions: number;
+}
+
+// Grouped by selector, with the function's name as key
+export interface FunctionFees extends FeeBreakdown {
+  // Selector of the function, "0x" for plain value transfers and empty for
+  // contract creations
+  methodId: string;
+}
+
+export interface FailedTransactionFee {
+  hash: string;
+  blockNumber: number;
+  timeStamp: number;
+  from: string;
+  to: string;
+  function: string;
+  fee: string;
+  feeUsd?: string;
+}
+
+export interface FeeReport {
+  organization: string;
+  period: ReportPeriod;
+  totalFees: string;
+  // Set once the organization was valued, with the number of fees that
+  // have no price and are left out
+  totalFeesUsd?: string;
+  unpricedFees?: number;
+  transactions: number;
+  // Average price paid per unit of gas, in gwei
+  averageGasPrice: string;
+  // Paid above the base fee, over the transactions whose block's base fee
+  // is known
+  priorityFees: string;
+  // Sent before gas used was stored, so their fee is unknown
+  withoutGasUsed: number;
+  byPeriod: FeeBreakdown[];
+  bySender: FeeBreakdown[];
+  byFunction: FunctionFees[];
+  byContract: FeeBreakdown[];
+  // Reverted transactions, whose gas was spent all the same
+  failed: {
+    transactions: number;
+    fees: string;
+    feesUsd?: string;
+    list: FailedTransactionFee[];
+  };
+}
+
+interface Tally {
+  fees: bigint;
+  transactions: number;
+  usd: number;
+}
+
+function getFee(tx: Transaction): bigint {
+  return BigInt(tx.gasUsed || '0') * BigInt(tx.gasPrice || '0');
+}
+
+function addFee<K>(tallies: Map<K, Tally>, key: K, fee: bigint, usd: number): void {
+  const tally = tallies.get(key) ?? { fees: 0n, transactions: 0, usd: 0 };
+  tally.fees += fee;
+  tally.transactions++;
+  tally.usd += usd;
+  tallies.set(key, tally);
+}
+
+function byFees(a: Tally, b: Tally): number {
+  return b.fees > a.fees ? 1 : b.fees < a.fees ? -1 : b.transactions - a.transactions;
+}
+
+function toBreakdown([key, tally]: [string, Tally], valued: boolean): FeeBreakdown {
+  return {
+    key,
+    fees: ethers.formatEther(tally.fees),
+    ...(valued ? { feesUsd: formatUsd(tally.usd) } : {}),
+    transactions: tally.transactions
+  };
+}
+
+function withLabel(breakdown: FeeBreakdown, labels: Map<string, AddressLabel>): FeeBreakdown {
+  const label = labels.get(breakdown.key);
+  return label ? { ...breakdown, label: label.name } : breakdown;
+}
+
+export class FeeService {
+  constructor(private readonly storage: IDataStorage) {}
+
+  // Signatures `decode` found, by transaction hash
+  private async getDecodedSignatures(name: string): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const call of await this.storage.getDecodedCalls(name)) {
+      names.set(call.hash.toLowerCase(), call.signature);
+    }
+    return names;
+  }
+
+  // Fees paid by the transactions the organization's addresses sent, from
+  // the stored records, without fetching
+  async analyzeOrganization(name: string, options: FeeOptions): Promise<FeeReport> {
+    try {
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const own = new Set(getOrganizationAddresses(organization).map(entry => entry.address.toLowerCase()));
+      const sent = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey)
+        .filter(tx => own.has(tx.from.toLowerCase()));
+      const decodedSignatures = await this.getDecodedSignatures(name);
+      const valuations = indexValuations(await this.storage.getValuations(name));
+      const valued = valuations.size > 0;
+
+      let totalFees = 0n;
+      let totalGas = 0n;
+      let priorityFees = 0n;
+      let withoutGasUsed = 0;
+      let totalUsd = 0;
+      let unpricedFees = 0;
+      const periods = new Map<string, Tally>();
+      const senders = new Map<string, Tally>();
+      const functions = new Map<string, Tally & { name: string }>();
+      const contracts = new Map<string, Tally>();
+      const failed: FailedTransactionFee[] = [];
+      let failedFees = 0n;
+      let failedUsd = 0;
+
+      for (const tx of sent) {
+        if (!tx.gasUsed) {
+          withoutGasUsed++;
+          continue;
+        }
+
+        const fee = getFee(tx);
+        const feeUsd = getUsdValue(valuations, 'fee', getTransactionKey({ ...tx, trackedAddress: undefined }));
+        const usd = feeUsd ?? 0;
+        if (feeUsd === undefined) unpricedFees++;
+        totalFees += fee;
+        totalUsd += usd;
+        totalGas += BigInt(tx.gasUsed);
+        if (tx.baseFeePerGas) {
+          priorityFees += BigInt(tx.gasUsed) * (BigInt(tx.gasPrice || '0') - BigInt(tx.baseFeePerGas));
+        }
+
+        // A creation's input is the contract's init code, not a call
+        const methodId = !tx.to ? '' :
+          tx.input && tx.input.length >= 10 ? tx.input.slice(0, 10).toLowerCase() : '0x';
+        // The explorer's function name, else the signature `decode` found,
+        // else the selector
+        const functionName = !tx.to ? 'contract creation' :
+          methodId === '0x' ? 'transfer (no calldata)' :
+          tx.functionName || decodedSignatures.get(tx.hash.toLowerCase()) || methodId;
+        const target = tx.to ? tx.to.toLowerCase() : 'contract creation';
+
+        addFee(periods, getPeriodLabel(Number(tx.timeStamp), options.period), fee, usd);
+        addFee(senders, tx.from.toLowerCase(), fee, usd);
+        addFee(contracts, target, fee, usd);
+        const entry = functions.get(methodId) ?? { fees: 0n, transactions: 0, usd: 0, name: functionName };
+        entry.fees += fee;
+        entry.transactions++;
+        entry.usd += usd;
+        functions.set(methodId, entry);
+
+        if (tx.isError === '1') {
+          failedFees += fee;
+          failedUsd += usd;
+          failed.push({
+            hash: tx.hash,
+            blockNumber: Number(tx.blockNumber),
+            timeStamp: Number(tx.timeStamp),
+            from: tx.from,
+            to: tx.to || tx.contractAddress || '',
+            function: functionName,
+            fee: ethers.formatEther(fee),
+            ...(feeUsd !== undefined ? { feeUsd: formatUsd(feeUsd) } : {})
+          });
+        }
+      }
+
+      const counted = sent.length - withoutGasUsed;
+      const labels = indexLabels(await this.storage.getAddressLabels());
+      const report: FeeReport = {
+        organization: name,
+        period: options.period,
+        totalFees: ethers.formatEther(totalFees),
+        ...(valued ? { totalFeesUsd: formatUsd(totalUsd), unpricedFees } : {}),
+        transactions: counted,
+        averageGasPrice: totalGas > 0n ? ethers.formatUnits(totalFees / totalGas, 'gwei') : '0.0',
+        priorityFees: ethers.formatEther(priorityFees),
+        withoutGasUsed,
+        byPeriod: [...periods.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(entry => toBreakdown(entry, valued)),
+        bySender: [...senders.entries()]
+          .sort(([, a], [, b]) => byFees(a, b))
+          .map(entry => withLabel(toBreakdown(entry, valued), labels)),
+        byFunction: [...functions.entries()]
+          .sort(([, a], [, b]) => byFees(a, b))
+          .slice(0, options.top)
+          .map(([methodId, tally]) => ({ ...toBreakdown([tally.name, tally], valued), methodId })),
+        byContract: [...contracts.entries()]
+          .sort(([, a], [, b]) => byFees(a, b))
+          .slice(0, options.top)
+          .map(entry => withLabel(toBreakdown(entry, valued), labels)),
+        failed: {
+          transactions: failed.length,
+          fees: ethers.formatEther(failedFees),
+          ...(valued ? { feesUsd: formatUsd(failedUsd) } : {}),
+          list: failed
+        }
+      };
+
+      logger.debug(`Analyzed fees of ${name}`, { transactions: counted, totalFees: report.totalFees });
+      return report;
+    } catch (error) {
+      logger.error(`Failed to analyze the fees of ${name}`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,292 @@
+// src/application/services/GovernanceService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { IBlockchainDataProvider } from '../../core/interfaces';
+import { GovernanceProposal, GovernanceVote, LogEntry, ProposalStatus, VoteSupport } from '../../core/entities';
+import { GOVERNOR_EVENTS } from '../../infrastructure/abi/knownSignatures';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { giniCoefficient, nakamotoCoefficient, topShare } from '../../utils/concentration';
+
+const logger = createLogger('GovernanceService');
+
+const GOVERNOR_INTERFACE = new ethers.Interface(GOVERNOR_EVENTS);
+
+const SUPPORT: VoteSupport[] = ['against', 'for', 'abstain'];
+
+// Governors on a timestamp clock (ERC-6372) give voting windows in unix
+// seconds; no chain is near this many blocks
+const TIMESTAMP_CLOCK_THRESHOLD = 1_000_000_000;
+
+// Number of largest voters whose share of the voting power is reported
+const TOP_VOTERS = 10;
+
+export interface GovernanceMetrics {
+  proposals: number;
+  proposers: number;
+  votes: number;
+  uniqueVoters: number;
+  proposalsByStatus: Partial<Record<ProposalStatus, number>>;
+  averageVotersPerProposal: number;
+  // Mean share of all voters seen that voted on a proposal
+  averageParticipation: number;
+  // Over each voter's largest vote weight, as an estimate of their power
+  votingPowerGini: number;
+  top10VotingPowerShare: number;
+  // Fewest voters holding a majority of the voting power
+  nakamotoCoefficient: number;
+}
+
+export interface GovernanceReport {
+  organization: string;
+  governors: string[];
+  metrics: GovernanceMetrics;
+}
+
+// Latest point the collected data of a governor reaches, to tell open votes
+// from closed
+interface DataHorizon {
+  blockNumber: number;
+  timeStamp: number;
+}
+
+function proposalKey(governor: string, proposalId: string): string {
+  return `${governor.toLowerCase()}:${proposalId}`;
+}
+
+function isTimestamp(timepoint: string): boolean {
+  return Number(timepoint) >= TIMESTAMP_CLOCK_THRESHOLD;
+}
+
+function hasPassed(timepoint: string, horizon: DataHorizon): boolean {
+  const value = Number(timepoint);
+  return isTimestamp(timepoint) ? value < horizon.timeStamp : value < horizon.blockNumber;
+}
+
+// Queued, executed and canceled come from events. Otherwise the outcome
+// follows the tally once the vote has ended; quorum is not known from
+// events, so a proposal may count as succeeded that failed to reach it.
+function getStatus(proposal: GovernanceProposal, horizon: DataHorizon): ProposalStatus {
+  if (proposal.canceledBlock !== undefined) return 'canceled';
+  if (proposal.executedBlock !== undefined) return 'executed';
+  if (proposal.queuedBlock !== undefined) return 'queued';
+  if (!hasPassed(proposal.voteStart, horizon)) return 'pending';
+  if (!hasPassed(proposal.voteEnd, horizon)) return 'active';
+  return BigInt(proposal.forVotes) > BigInt(proposal.againstVotes) ? 'succeeded' : 'defeated';
+}
+
+function computeMetrics(proposals: GovernanceProposal[], votes: GovernanceVote[]): GovernanceMetrics {
+  // Weights are token amounts beyond double precision, which only matters
+  // for the shares computed from them in the last digits
+  const votingPower = new Map<string, number>();
+  for (const vote of votes) {
+    const voter = vote.voter.toLowerCase();
+    votingPower.set(voter, Math.max(votingPower.get(voter) ?? 0, Number(vote.weight)));
+  }
+  const powers = [...votingPower.values()];
+
+  const proposalsByStatus: Partial<Record<ProposalStatus, number>> = {};
+  for (const proposal of proposals) {
+    proposalsByStatus[proposal.status] = (proposalsByStatus[proposal.status] ?? 0) + 1;
+  }
+
+  const voterCounts = proposals.map(proposal => proposal.voterCount);
+  const totalVoters = voterCounts.reduce((sum, count) => sum + count, 0);
+
+  return {
+    proposals: proposals.length,
+    proposers: new Set(proposals.map(proposal => proposal.proposer.toLowerCase())).size,
+    votes: votes.length,
+    uniqueVoters: votingPower.size,
+    proposalsByStatus,
+    averageVotersPerProposal: proposals.length > 0 ? totalVoters / proposals.length : 0,
+    averageParticipation: proposals.length > 0 && votingPower.size > 0 ?
+      totalVoters / proposals.length / votingPower.size :
+      0,
+    votingPowerGini: giniCoefficient(powers),
+    top10VotingPowerShare: topShare(powers, TOP_VOTERS),
+    nakamotoCoefficient: nakamotoCoefficient(powers)
+  };
+}
+
+export class GovernanceService {
+  // The provider gives the time of the last collected block to governors on
+  // a timestamp clock; without it they only reach the newest event's time
+  constructor(
+    private readonly storage: IDataStorage,
+    private readonly provider?: IBlockchainDataProvider
+  ) {}
+
+  // The last block whose logs were collected for each governor, when
+  // coverage reaches past the newest stored event: a vote can end with no
+  // event after it
+  private async getHorizons(
+    name: string,
+    proposals: GovernanceProposal[],
+    newest: DataHorizon
+  ): Promise<Map<string, DataHorizon>> {
+    const state = await this.storage.getLastProcessedState(name);
+    const coverage = state?.transactionTypes.logs.coveredRanges ?? {};
+    const timestamps = new Map<number, number>();
+    const horizons = new Map<string, DataHorizon>();
+
+    for (const proposal of proposals) {
+      const governor = proposal.governor.toLowerCase();
+      if (horizons.has(governor)) continue;
+
+      const blockNumber = (coverage[governor] ?? []).reduce((max, range) => Math.max(max, range.toBlock), 0);
+      if (blockNumber <= newest.blockNumber) {
+        horizons.set(governor, newest);
+        continue;
+      }
+
+      const horizon: DataHorizon = { blockNumber, timeStamp: newest.timeStamp };
+      const timestampClock = proposals.some(other =>
+        other.governor.toLowerCase() === governor && isTimestamp(other.voteEnd));
+      if (timestampClock && this.provider) {
+        if (!timestamps.has(blockNumber)) {
+          timestamps.set(blockNumber, await this.provider.getBlockTimestamp(blockNumber));
+        }
+        horizon.timeStamp = timestamps.get(blockNumber) ?? newest.timeStamp;
+      } else if (timestampClock) {
+        logger.warn(`Governor ${proposal.governor} is on a timestamp clock; without a provider, votes count as ended by the newest event only`);
+      }
+      horizons.set(governor, horizon);
+    }
+    return horizons;
+  }
+
+  private parseLog(log: LogEntry): ethers.LogDescription | null {
+    try {
+      return GOVERNOR_INTERFACE.parseLog({ topics: log.topics, data: log.data });
+    } catch {
+      // Same topic0 with other indexing than the governor's, e.g. a
+      // VoteCast of another protocol
+      return null;
+    }
+  }
+
+  // Rebuilds the proposal and vote datasets from the stored event logs of
+  // the organization's governor contracts and replaces the previous ones
+  async analyzeOrganization(name: string): Promise<GovernanceReport> {
+    try {
+      const logs = (await this.storage.getLogs(name)).filter(log => log.topics.length > 0);
+      const proposals = new Map<string, GovernanceProposal>();
+      const votes: GovernanceVote[] = [];
+      const lifecycle: Array<{ log: LogEntry; event: ethers.LogDescription }> = [];
+      const newest: DataHorizon = { blockNumber: 0, timeStamp: 0 };
+
+      for (const log of logs) {
+        newest.blockNumber = Math.max(newest.blockNumber, Number(log.blockNumber));
+        newest.timeStamp = Math.max(newest.timeStamp, Number(log.timeStamp));
+
+        const event = this.parseLog(log);
+        if (!event) continue;
+
+        const proposalId = event.args.proposalId.toString();
+        switch (event.name) {
+          case 'ProposalCreated':
+            proposals.set(proposalKey(log.address, proposalId), {
+              governor: log.address,
+              proposalId,
+              proposer: event.args.proposer,
+              description: event.args.description,
+              // `values` by position, the name is shadowed by Array.prototype.values
+              actions: Array.from(event.args.targets as string[], (target, index) => ({
+                target,
+                value: event.args[3][index].toString(),
+                signature: event.args.signatures[index] ?? '',
+                calldata: event.args.calldatas[index] ?? '0x'
+              })),
+              voteStart: event.args.voteStart.toString(),
+              voteEnd: event.args.voteEnd.toString(),
+              createdBlock: Number(log.blockNumber),
+              createdAt: Number(log.timeStamp),
+              hash: log.hash,
+              forVotes: '0',
+              againstVotes: '0',
+              abstainVotes: '0',
+              voterCount: 0,
+              status: 'pending',
+              ...(log.trackedAddress ? { trackedAddress: log.trackedAddress } : {})
+            });
+            break;
+          case 'VoteCast':
+          case 'VoteCastWithParams': {
+            // GovernorAlpha votes are a bool and call the weight votes
+            const support = typeof event.args.support === 'boolean' ?
+              (event.args.support ? 'for' : 'against') :
+              SUPPORT[Number(event.args.support)];
+            if (!support) continue;
+
+            votes.push({
+              governor: log.address,
+              proposalId,
+              voter: event.args.voter,
+              support,
+              weight: (event.args.length > 4 ? event.args.weight : event.args.votes).toString(),
+              reason: event.args.length > 4 ? event.args.reason : '',
+              blockNumber: Number(log.blockNumber),
+              timeStamp: Number(log.timeStamp),
+              hash: log.hash,
+              logIndex: Number(log.logIndex),
+              ...(log.trackedAddress ? { trackedAddress: log.trackedAddress } : {})
+            });
+            break;
+          }
+          default:
+            lifecycle.push({ log, event });
+        }
+      }
+
+      // Applied once every proposal is known, as logs of several governors
+      // are only ordered by block
+      for (const { log, event } of lifecycle) {
+        const proposal = proposals.get(proposalKey(log.address, event.args.proposalId.toString()));
+        if (!proposal) continue;
+
+        if (event.name === 'ProposalQueued') {
+          proposal.queuedBlock = Number(log.blockNumber);
+          proposal.eta = event.args.eta.toString();
+        } else if (event.name === 'ProposalExecuted') {
+          proposal.executedBlock = Number(log.blockNumber);
+        } else if (event.name === 'ProposalCanceled') {
+          proposal.canceledBlock = Number(log.blockNumber);
+        }
+      }
+
+      // Votes on proposals created before the collected range are kept, but
+      // cannot be tallied
+      const voters = new Map<string, Set<string>>();
+      for (const vote of votes) {
+        const key = proposalKey(vote.governor, vote.proposalId);
+        const proposal = proposals.get(key);
+        if (!proposal) continue;
+
+        const field = `${vote.support}Votes` as 'forVotes' | 'againstVotes' | 'abstainVotes';
+        proposal[field] = (BigInt(proposal[field]) + BigInt(vote.weight)).toString();
+        voters.set(key, (voters.get(key) ?? new Set()).add(vote.voter.toLowerCase()));
+      }
+
+      const horizons = await this.getHorizons(name, [...proposals.values()], newest);
+      const proposalList = [...proposals.entries()].map(([key, proposal]) => {
+        proposal.voterCount = voters.get(key)?.size ?? 0;
+        proposal.status = getStatus(proposal, horizons.get(proposal.governor.toLowerCase()) ?? newest);
+        return proposal;
+      });
+
+      await this.storage.saveGovernanceProposals(name, proposalList);
+      await this.storage.saveGovernanceVotes(name, votes);
+
+      const report: GovernanceReport = {
+        organization: name,
+        governors: [...new Set([...proposalList, ...votes].map(record => record.governor.toLowerCase()))],
+        metrics: computeMetrics(proposalList, votes)
+      };
+      logger.info(`Analyzed governance of ${name}`, report.metrics);
+      return report;
+    } catch (error) {
+      logger.error(`Failed to analyze governance of ${name}`, error);
+      throw error;
+    }
+  }
+}
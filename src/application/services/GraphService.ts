@@ -0,0 +1,227 @@
+// src/application/services/GraphService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { LabelCategory, Valuation } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { indexLabels } from '../../utils/labels';
+import { getOrganizationAddresses } from '../../utils/organizations';
+import {
+  getInternalTransactionKey,
+  getTokenTransferKey,
+  getTransactionKey,
+  uniqueAcrossTrackedAddresses
+} from '../../utils/recordKeys';
+import { formatUsd, getUsdValue, indexValuations } from '../../utils/valuations';
+import { NATIVE_ASSET } from './BalanceService';
+
+const logger = createLogger('GraphService');
+
+export interface GraphOptions {
+  // Unix seconds, inclusive
+  fromTime?: number;
+  toTime?: number;
+  // Edges with fewer transfers are dropped, and nodes left without edges
+  minWeight: number;
+  // "native", a token contract address or a token symbol, to keep the
+  // transfers of that asset only
+  asset?: string;
+}
+
+export interface GraphNode {
+  // Lowercase address
+  id: string;
+  // The organization's name for its addresses, else the stored address
+  // label, else the address
+  label: string;
+  category?: LabelCategory;
+  // One of the organization's addresses
+  owned: boolean;
+}
+
+// Transfers of one asset from one address to another
+export interface GraphEdge {
+  source: string;
+  target: string;
+  asset: string;
+  symbol: string;
+  // Number of transfers, the edge weight
+  count: number;
+  // Exact decimal string in whole units of the asset
+  volume: string;
+  // Set once the organization was valued: USD at the price of the day of
+  // each transfer, leaving out the unpriced ones
+  volumeUsd?: string;
+  unpriced?: number;
+}
+
+export interface TransactionGraph {
+  organization: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+interface Transfer {
+  from: string;
+  to: string;
+  asset: string;
+  symbol: string;
+  decimals: number;
+  value: bigint;
+  timeStamp: number;
+  // Undefined without a price; calls moving no value are worth nothing
+  usdValue?: number;
+}
+
+interface EdgeTally {
+  transfer: Transfer;
+  count: number;
+  value: bigint;
+  usd: number;
+  unpriced: number;
+}
+
+export class GraphService {
+  constructor(private readonly storage: IDataStorage) {}
+
+  // Successful value transfers and calls between addresses, native and
+  // token, as stored for the organization
+  private async collectTransfers(
+    name: string,
+    nativeSymbol: string,
+    valuations: Map<string, Valuation>
+  ): Promise<Transfer[]> {
+    const transactions = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey);
+    const internalTransactions = uniqueAcrossTrackedAddresses(await this.storage.getInternalTransactions(name), getInternalTransactionKey);
+    const tokenTransfers = uniqueAcrossTrackedAddresses(await this.storage.getTokenTransfers(name), getTokenTransferKey);
+
+    const transfers: Transfer[] = [];
+    const native = [
+      ...transactions.map(tx => ({ tx, kind: 'transaction' as const, recordKey: getTransactionKey({ ...tx, trackedAddress: undefined }) })),
+      ...internalTransactions.map(tx => ({
+        tx,
+        kind: 'internal' as const,
+        recordKey: getInternalTransactionKey({ ...tx, trackedAddress: undefined })
+      }))
+    ];
+    for (const { tx, kind, recordKey } of native) {
+      // Contract creations have no to but the deployed contract
+      const to = tx.to || tx.contractAddress;
+      if (tx.isError === '1' || !to) continue;
+      const value = BigInt(tx.value || '0');
+      transfers.push({
+        from: tx.from.toLowerCase(),
+        to: to.toLowerCase(),
+        asset: NATIVE_ASSET,
+        symbol: nativeSymbol,
+        decimals: 18,
+        value,
+        timeStamp: Number(tx.timeStamp),
+        usdValue: value === 0n ? 0 : getUsdValue(valuations, kind, recordKey)
+      });
+    }
+
+    for (const transfer of tokenTransfers) {
+      transfers.push({
+        from: transfer.from.toLowerCase(),
+        to: transfer.to.toLowerCase(),
+        asset: transfer.contractAddress.toLowerCase(),
+        symbol: transfer.tokenSymbol,
+        // Tokens without decimals are counted in base units
+        decimals: parseInt(transfer.tokenDecimal, 10) || 0,
+        value: BigInt(transfer.value || '0'),
+        timeStamp: Number(transfer.timeStamp),
+        usdValue: getUsdValue(valuations, 'token', getTokenTransferKey({ ...transfer, trackedAddress: undefined }))
+      });
+    }
+
+    return transfers;
+  }
+
+  // Resolves --asset to an asset id; a symbol must name a single token
+  private resolveAsset(asset: string, transfers: Transfer[]): string {
+    const value = asset.toLowerCase();
+    if (value === NATIVE_ASSET || ethers.isAddress(value)) {
+      return value;
+    }
+
+    const matches = new Set(transfers.filter(transfer => transfer.symbol.toLowerCase() === value).map(transfer => transfer.asset));
+    if (matches.size > 1) {
+      throw new ValidationError(`Several tokens use the symbol ${asset}: ${[...matches].join(', ')}; pass the contract address`);
+    }
+    if (matches.size === 0) {
+      throw new ValidationError(`No stored transfer of an asset named ${asset}`);
+    }
+    return [...matches][0];
+  }
+
+  // Directed graph of the stored transfers of the organization, with one
+  // edge per sender, recipient and asset
+  async buildGraph(name: string, nativeSymbol: string, options: GraphOptions): Promise<TransactionGraph> {
+    try {
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const valuations = indexValuations(await this.storage.getValuations(name));
+      const valued = valuations.size > 0;
+      let transfers = await this.collectTransfers(name, nativeSymbol, valuations);
+      if (options.asset) {
+        const asset = this.resolveAsset(options.asset, transfers);
+        transfers = transfers.filter(transfer => transfer.asset === asset);
+      }
+      transfers = transfers.filter(transfer =>
+        (options.fromTime === undefined || transfer.timeStamp >= options.fromTime) &&
+        (options.toTime === undefined || transfer.timeStamp <= options.toTime));
+
+      const tallies = new Map<string, EdgeTally>();
+      for (const transfer of transfers) {
+        const key = `${transfer.from}:${transfer.to}:${transfer.asset}`;
+        const tally = tallies.get(key) ?? { transfer, count: 0, value: 0n, usd: 0, unpriced: 0 };
+        tally.count++;
+        tally.value += transfer.value;
+        if (transfer.usdValue !== undefined) {
+          tally.usd += transfer.usdValue;
+        } else {
+          tally.unpriced++;
+        }
+        tallies.set(key, tally);
+      }
+
+      const edges: GraphEdge[] = [...tallies.values()]
+        .filter(tally => tally.count >= options.minWeight)
+        .map(({ transfer, count, value, usd, unpriced }) => ({
+          source: transfer.from,
+          target: transfer.to,
+          asset: transfer.asset,
+          symbol: transfer.symbol,
+          count,
+          volume: ethers.formatUnits(value, transfer.decimals),
+          ...(valued ? { volumeUsd: formatUsd(usd), unpriced } : {})
+        }));
+
+      const ownLabels = new Map(getOrganizationAddresses(organization).map(entry => [
+        entry.address.toLowerCase(),
+        entry.label ? `${name}: ${entry.label}` : name
+      ]));
+      const labels = indexLabels(await this.storage.getAddressLabels());
+      const ids = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+      const nodes: GraphNode[] = [...ids].sort().map(id => {
+        const label = labels.get(id);
+        return {
+          id,
+          label: ownLabels.get(id) ?? label?.name ?? id,
+          ...(label?.category ? { category: label.category } : {}),
+          owned: ownLabels.has(id)
+        };
+      });
+
+      logger.info(`Built the transfer graph of ${name}: ${nodes.length} addresses, ${edges.length} edges from ${transfers.length} transfers`);
+      return { organization: name, nodes, edges };
+    } catch (error) {
+      logger.error(`Failed to build the transfer graph of ${name}`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,212 @@
+// src/application/services/LabelService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { IContractNameProvider } from '../../core/interfaces/IContractNameProvider';
+import { AddressLabel, LabelCategory, LabelSource } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { getOrganizationAddresses } from '../../utils/organizations';
+import { indexLabels, outranks, parseLabelCategory } from '../../utils/labels';
+import {
+  getInternalTransactionKey,
+  getTokenTransferKey,
+  getTransactionKey,
+  uniqueAcrossTrackedAddresses
+} from '../../utils/recordKeys';
+
+const logger = createLogger('LabelService');
+
+export interface LabelInput {
+  address: string;
+  name: string;
+  category?: LabelCategory;
+}
+
+export interface LabelImportResult {
+  saved: number;
+  // Addresses whose label came from a more trusted source and was kept
+  kept: number;
+}
+
+export interface ContractNameLookupResult extends LabelImportResult {
+  looked: number;
+  // Accounts and contracts without verified source
+  unnamed: number;
+  failed: number;
+}
+
+export interface LabelFilter {
+  category?: LabelCategory;
+  source?: LabelSource;
+}
+
+// The category an organization's address label names, if any, e.g.
+// "vesting"; the organization's addresses are its team's otherwise
+function getOrganizationCategory(label: string | undefined): LabelCategory {
+  try {
+    return label ? parseLabelCategory(label) : 'team';
+  } catch {
+    return 'team';
+  }
+}
+
+export class LabelService {
+  constructor(
+    private readonly storage: IDataStorage,
+    private readonly nameProvider?: IContractNameProvider
+  ) {}
+
+  // Saves labels from one source, keeping those from more trusted sources
+  private async saveLabels(inputs: LabelInput[], source: LabelSource): Promise<LabelImportResult> {
+    const existing = indexLabels(await this.storage.getAddressLabels());
+    const updatedAt = new Date().toISOString();
+    const labels = new Map<string, AddressLabel>();
+    let kept = 0;
+
+    for (const input of inputs) {
+      if (!ethers.isAddress(input.address)) {
+        throw new ValidationError(`Invalid address: ${input.address}`);
+      }
+      const address = input.address.toLowerCase();
+      const current = existing.get(address);
+      if (current && !outranks(source, current.source)) {
+        kept++;
+        continue;
+      }
+      labels.set(address, {
+        address,
+        name: input.name,
+        ...(input.category ? { category: input.category } : {}),
+        source,
+        updatedAt
+      });
+    }
+
+    if (labels.size > 0) {
+      await this.storage.saveAddressLabels([...labels.values()]);
+    }
+    return { saved: labels.size, kept };
+  }
+
+  async importLabels(inputs: LabelInput[]): Promise<LabelImportResult> {
+    try {
+      return await this.saveLabels(inputs, 'pack');
+    } catch (error) {
+      logger.error('Failed to import labels', error);
+      throw error;
+    }
+  }
+
+  // Labels every address of the registered organizations with the
+  // organization's name and the address's own label
+  async importOrganizations(): Promise<LabelImportResult> {
+    try {
+      const inputs: LabelInput[] = [];
+      for (const organization of await this.storage.listOrganizations()) {
+        for (const entry of getOrganizationAddresses(organization)) {
+          inputs.push({
+            address: entry.address,
+            name: entry.label ? `${organization.name}: ${entry.label}` : organization.name,
+            category: getOrganizationCategory(entry.label)
+          });
+        }
+      }
+      return await this.saveLabels(inputs, 'organization');
+    } catch (error) {
+      logger.error('Failed to import organization labels', error);
+      throw error;
+    }
+  }
+
+  // Names the unlabeled counterparties of an organization after their
+  // verified contract, the most active first, up to limit lookups
+  async lookupContractNames(name: string, limit?: number): Promise<ContractNameLookupResult> {
+    try {
+      if (!this.nameProvider) {
+        throw new ValidationError('Contract names can only be looked up on a chain with an explorer API and a key');
+      }
+
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const own = new Set(getOrganizationAddresses(organization).map(entry => entry.address.toLowerCase()));
+      const labeled = indexLabels(await this.storage.getAddressLabels());
+      const interactions = new Map<string, number>();
+      const count = (address: string | undefined): void => {
+        const key = address?.toLowerCase();
+        if (key && !own.has(key) && !labeled.has(key)) {
+          interactions.set(key, (interactions.get(key) ?? 0) + 1);
+        }
+      };
+
+      // A record between two of the organization's addresses is stored for
+      // both, but is one interaction
+      const transactions = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey);
+      const internalTransactions = uniqueAcrossTrackedAddresses(await this.storage.getInternalTransactions(name), getInternalTransactionKey);
+      const tokenTransfers = uniqueAcrossTrackedAddresses(await this.storage.getTokenTransfers(name), getTokenTransferKey);
+
+      for (const tx of [...transactions, ...internalTransactions]) {
+        count(tx.from);
+        count(tx.to || tx.contractAddress);
+      }
+      for (const transfer of tokenTransfers) {
+        count(transfer.from);
+        count(transfer.to);
+        count(transfer.contractAddress);
+      }
+
+      const candidates = [...interactions.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .map(([address]) => address)
+        .slice(0, limit);
+      logger.info(`Looking up the contract names of ${candidates.length} of ${interactions.size} unlabeled counterparties of ${name}`);
+
+      const inputs: LabelInput[] = [];
+      let failed = 0;
+      for (const [index, address] of candidates.entries()) {
+        try {
+          const contractName = await this.nameProvider.getContractName(address);
+          if (contractName) {
+            inputs.push({ address, name: contractName, category: 'contract' });
+          }
+        } catch (error) {
+          // Left unlabeled, so the next run asks again
+          logger.warn(`Could not look up the contract name of ${address}`, error);
+          failed++;
+        }
+        if ((index + 1) % 25 === 0) {
+          logger.info(`Looked up ${index + 1} of ${candidates.length} addresses, ${inputs.length} named`);
+        }
+      }
+
+      const result = await this.saveLabels(inputs, 'etherscan');
+      return {
+        ...result,
+        looked: candidates.length,
+        unnamed: candidates.length - inputs.length - failed,
+        failed
+      };
+    } catch (error) {
+      logger.error(`Failed to look up contract names for ${name}`, error);
+      throw error;
+    }
+  }
+
+  // Labels set by hand replace any other
+  async setLabel(input: LabelInput): Promise<void> {
+    try {
+      await this.saveLabels([input], 'user');
+    } catch (error) {
+      logger.error(`Failed to label ${input.address}`, error);
+      throw error;
+    }
+  }
+
+  async listLabels(filter: LabelFilter = {}): Promise<AddressLabel[]> {
+    return (await this.storage.getAddressLabels()).filter(label =>
+      (!filter.category || label.category === filter.category) &&
+      (!filter.source || label.source === filter.source));
+  }
+}
@@ -0,0 +1,339 @@
+// src/application/services/ReportService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { LabelCategory } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { getPeriodLabel, ReportPeriod } from '../../utils/dates';
+import { indexLabels } from '../../utils/labels';
+import { getOrganizationAddresses } from '../../utils/organizations';
+import {
+  getInternalTransactionKey,
+  getTokenTransferKey,
+  getTransactionKey,
+  uniqueAcrossTrackedAddresses
+} from '../../utils/recordKeys';
+import { formatUsd, getUsdValue, indexValuations } from '../../utils/valuations';
+
+const logger = createLogger('ReportService');
+
+export interface ReportOptions {
+  period: ReportPeriod;
+  // Counterparties listed per ranking
+  top: number;
+}
+
+// USD at the price of the day of each transfer, from the stored
+// valuations; set only once the organization was valued
+export interface FiatFlow {
+  inflowUsd?: string;
+  outflowUsd?: string;
+  netUsd?: string;
+  // Transfers without a price, left out of the USD figures
+  unpriced?: number;
+}
+
+// Amounts are exact decimal strings in whole units (ETH, not wei)
+export interface PeriodFlow extends FiatFlow {
+  period: string;
+  inflow: string;
+  outflow: string;
+  net: string;
+  transfers: number;
+}
+
+export interface TokenVolume extends FiatFlow {
+  contractAddress: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  inflow: string;
+  outflow: string;
+  net: string;
+  transfers: number;
+}
+
+export interface CounterpartyActivity {
+  address: string;
+  // From the address labels of the chain, when one is stored
+  label?: string;
+  category?: LabelCategory;
+  // Native currency sent and received
+  volume: string;
+  // Transactions, internal transactions and token transfers
+  interactions: number;
+}
+
+export interface AddressFailures {
+  address: string;
+  sent: number;
+  failed: number;
+  failureRate: number;
+}
+
+export interface FailureStats {
+  transactions: number;
+  failed: number;
+  failureRate: number;
+  // Transactions sent by each organization address
+  byAddress: AddressFailures[];
+  internalCalls: number;
+  failedInternalCalls: number;
+}
+
+// Native and token transfers together
+export interface FiatTotals {
+  inflowUsd: string;
+  outflowUsd: string;
+  netUsd: string;
+  unpriced: number;
+  // Contracts of the tokens none of whose transfers has a price
+  unpricedTokens: string[];
+}
+
+export interface OrganizationReport {
+  organization: string;
+  period: ReportPeriod;
+  native: Omit<PeriodFlow, 'period'>;
+  // Set once the organization was valued
+  fiat?: FiatTotals;
+  periods: PeriodFlow[];
+  tokens: TokenVolume[];
+  topCounterpartiesByVolume: CounterpartyActivity[];
+  topCounterpartiesByCount: CounterpartyActivity[];
+  failures: FailureStats;
+}
+
+interface Flow {
+  inflow: bigint;
+  outflow: bigint;
+  transfers: number;
+  inflowUsd: number;
+  outflowUsd: number;
+  unpriced: number;
+}
+
+// A value moved between an organization address and an outside one
+interface Movement {
+  counterparty: string;
+  direction: 'in' | 'out';
+}
+
+function emptyFlow(): Flow {
+  return { inflow: 0n, outflow: 0n, transfers: 0, inflowUsd: 0, outflowUsd: 0, unpriced: 0 };
+}
+
+function addToFlow(flow: Flow, direction: Movement['direction'], value: bigint, usdValue: number | undefined): void {
+  if (direction === 'in') {
+    flow.inflow += value;
+    flow.inflowUsd += usdValue ?? 0;
+  } else {
+    flow.outflow += value;
+    flow.outflowUsd += usdValue ?? 0;
+  }
+  flow.transfers++;
+  if (usdValue === undefined) flow.unpriced++;
+}
+
+function toFiatFlow(flow: Flow): Required<FiatFlow> {
+  return {
+    inflowUsd: formatUsd(flow.inflowUsd),
+    outflowUsd: formatUsd(flow.outflowUsd),
+    netUsd: formatUsd(flow.inflowUsd - flow.outflowUsd),
+    unpriced: flow.unpriced
+  };
+}
+
+function rate(part: number, total: number): number {
+  return total > 0 ? part / total : 0;
+}
+
+export class ReportService {
+  constructor(private readonly storage: IDataStorage) {}
+
+  // Summarizes what storage holds for the organization, without fetching
+  async buildReport(name: string, options: ReportOptions): Promise<OrganizationReport> {
+    try {
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const own = new Set(getOrganizationAddresses(organization).map(entry => entry.address.toLowerCase()));
+      // Transfers between the organization's own addresses move nothing in
+      // or out and are left out of flows and counterparties
+      const classify = (from: string, to: string): Movement | null => {
+        const fromOwn = own.has(from.toLowerCase());
+        const toOwn = own.has(to.toLowerCase());
+        if (fromOwn === toOwn) return null;
+        return toOwn ?
+          { counterparty: from.toLowerCase(), direction: 'in' } :
+          { counterparty: to.toLowerCase(), direction: 'out' };
+      };
+
+      const transactions = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey);
+      const internalTransactions = uniqueAcrossTrackedAddresses(await this.storage.getInternalTransactions(name), getInternalTransactionKey);
+      const tokenTransfers = uniqueAcrossTrackedAddresses(await this.storage.getTokenTransfers(name), getTokenTransferKey);
+      const valuations = indexValuations(await this.storage.getValuations(name));
+      const valued = valuations.size > 0;
+
+      const native = emptyFlow();
+      const periods = new Map<string, Flow>();
+      const counterparties = new Map<string, { volume: bigint; interactions: number }>();
+      const touch = (movement: Movement, value: bigint): void => {
+        const entry = counterparties.get(movement.counterparty) ?? { volume: 0n, interactions: 0 };
+        entry.volume += value;
+        entry.interactions++;
+        counterparties.set(movement.counterparty, entry);
+      };
+
+      // Failed calls moved no value
+      const nativeTransfers = [
+        ...transactions.filter(tx => tx.isError !== '1').map(tx => ({
+          tx, kind: 'transaction' as const, recordKey: getTransactionKey({ ...tx, trackedAddress: undefined })
+        })),
+        ...internalTransactions.filter(tx => tx.isError !== '1').map(tx => ({
+          tx, kind: 'internal' as const, recordKey: getInternalTransactionKey({ ...tx, trackedAddress: undefined })
+        }))
+      ];
+      const fiat = emptyFlow();
+      for (const { tx, kind, recordKey } of nativeTransfers) {
+        const movement = classify(tx.from, tx.to || tx.contractAddress || '');
+        if (!movement) continue;
+
+        const value = BigInt(tx.value || '0');
+        touch(movement, value);
+        if (value === 0n) continue;
+
+        const usdValue = getUsdValue(valuations, kind, recordKey);
+        const label = getPeriodLabel(Number(tx.timeStamp), options.period);
+        const flow = periods.get(label) ?? emptyFlow();
+        addToFlow(flow, movement.direction, value, usdValue);
+        periods.set(label, flow);
+        addToFlow(native, movement.direction, value, usdValue);
+        addToFlow(fiat, movement.direction, 0n, usdValue);
+      }
+
+      const tokens = new Map<string, Flow & { symbol: string; name: string; decimals: number }>();
+      for (const transfer of tokenTransfers) {
+        const movement = classify(transfer.from, transfer.to);
+        if (!movement) continue;
+
+        touch(movement, 0n);
+        const key = transfer.contractAddress.toLowerCase();
+        const token = tokens.get(key) ?? {
+          ...emptyFlow(),
+          symbol: transfer.tokenSymbol,
+          name: transfer.tokenName,
+          // Tokens without decimals are counted in base units
+          decimals: parseInt(transfer.tokenDecimal, 10) || 0
+        };
+        const usdValue = getUsdValue(valuations, 'token', getTokenTransferKey({ ...transfer, trackedAddress: undefined }));
+        addToFlow(token, movement.direction, BigInt(transfer.value || '0'), usdValue);
+        addToFlow(fiat, movement.direction, 0n, usdValue);
+        tokens.set(key, token);
+      }
+
+      const senders = new Map<string, { sent: number; failed: number }>();
+      for (const tx of transactions) {
+        const from = tx.from.toLowerCase();
+        if (!own.has(from)) continue;
+        const entry = senders.get(from) ?? { sent: 0, failed: 0 };
+        entry.sent++;
+        if (tx.isError === '1') entry.failed++;
+        senders.set(from, entry);
+      }
+      const failed = transactions.filter(tx => tx.isError === '1').length;
+      const failedInternalCalls = internalTransactions.filter(tx => tx.isError === '1').length;
+
+      const counterpartyList = [...counterparties.entries()].map(([address, entry]) => ({
+        address,
+        volume: ethers.formatEther(entry.volume),
+        interactions: entry.interactions,
+        wei: entry.volume
+      }));
+      const labels = indexLabels(await this.storage.getAddressLabels());
+      const toActivity = ({ address, volume, interactions }: typeof counterpartyList[number]): CounterpartyActivity => {
+        const label = labels.get(address);
+        return {
+          address,
+          ...(label ? { label: label.name } : {}),
+          ...(label?.category ? { category: label.category } : {}),
+          volume,
+          interactions
+        };
+      };
+
+      const report: OrganizationReport = {
+        organization: name,
+        period: options.period,
+        native: {
+          inflow: ethers.formatEther(native.inflow),
+          outflow: ethers.formatEther(native.outflow),
+          net: ethers.formatEther(native.inflow - native.outflow),
+          transfers: native.transfers,
+          ...(valued ? toFiatFlow(native) : {})
+        },
+        ...(valued ? {
+          fiat: {
+            ...toFiatFlow(fiat),
+            unpricedTokens: [...tokens.entries()]
+              .filter(([, token]) => token.unpriced === token.transfers)
+              .map(([contractAddress]) => contractAddress)
+          }
+        } : {}),
+        periods: [...periods.entries()]
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([period, flow]) => ({
+            period,
+            inflow: ethers.formatEther(flow.inflow),
+            outflow: ethers.formatEther(flow.outflow),
+            net: ethers.formatEther(flow.inflow - flow.outflow),
+            transfers: flow.transfers,
+            ...(valued ? toFiatFlow(flow) : {})
+          })),
+        tokens: [...tokens.entries()]
+          .sort(([, a], [, b]) => b.transfers - a.transfers)
+          .map(([contractAddress, token]) => ({
+            contractAddress,
+            symbol: token.symbol,
+            name: token.name,
+            decimals: token.decimals,
+            inflow: ethers.formatUnits(token.inflow, token.decimals),
+            outflow: ethers.formatUnits(token.outflow, token.decimals),
+            net: ethers.formatUnits(token.inflow - token.outflow, token.decimals),
+            transfers: token.transfers,
+            ...(valued ? toFiatFlow(token) : {})
+          })),
+        topCounterpartiesByVolume: [...counterpartyList]
+          .filter(entry => entry.wei > 0n)
+          .sort((a, b) => (b.wei > a.wei ? 1 : b.wei < a.wei ? -1 : 0))
+          .slice(0, options.top)
+          .map(toActivity),
+        topCounterpartiesByCount: [...counterpartyList]
+          .sort((a, b) => b.interactions - a.interactions)
+          .slice(0, options.top)
+          .map(toActivity),
+        failures: {
+          transactions: transactions.length,
+          failed,
+          failureRate: rate(failed, transactions.length),
+          byAddress: [...senders.entries()].map(([address, entry]) => ({
+            address,
+            sent: entry.sent,
+            failed: entry.failed,
+            failureRate: rate(entry.failed, entry.sent)
+          })),
+          internalCalls: internalTransactions.length,
+          failedInternalCalls
+        }
+      };
+
+      logger.debug(`Built report of ${name}`, { periods: report.periods.length, tokens: report.tokens.length });
+      return report;
+    } catch (error) {
+      logger.error(`Failed to build report of ${name}`, error);
+      throw error;
+    }
+  }
+}
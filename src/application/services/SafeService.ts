@@ -0,0 +1,289 @@
+// src/application/services/SafeService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { LogEntry, SafeOwnerChange, SafeTransaction, Transaction } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { SAFE_EVENTS, SAFE_EXEC_TRANSACTION } from '../../infrastructure/abi/knownSignatures';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { getOrganizationAddresses } from '../../utils/organizations';
+import { getTransactionKey, uniqueAcrossTrackedAddresses } from '../../utils/recordKeys';
+
+const logger = createLogger('SafeService');
+
+const EXEC_TRANSACTION = new ethers.Interface([SAFE_EXEC_TRANSACTION]);
+const EXEC_TRANSACTION_SELECTOR = ethers.FunctionFragment.from(SAFE_EXEC_TRANSACTION).selector;
+
+// One interface per fragment, as the two layouts of AddedOwner and
+// RemovedOwner cannot share one
+const SAFE_EVENT_INTERFACES = SAFE_EVENTS.map(fragment => new ethers.Interface([fragment]));
+
+export interface SignerActivity {
+  signer: string;
+  // Transactions the signer's signature authorized
+  signed: number;
+  // Transactions the signer submitted
+  executed: number;
+  firstBlock: number;
+  lastBlock: number;
+  isOwner: boolean;
+}
+
+export interface SafeReport {
+  safe: string;
+  // Owners and threshold after the last collected change
+  owners: string[];
+  threshold?: number;
+  // False when the setup was not collected, so owners that never changed
+  // since are missing
+  complete: boolean;
+  history: SafeOwnerChange[];
+  transactions: number;
+  failedTransactions: number;
+  signers: SignerActivity[];
+}
+
+function parseSafeEvent(log: LogEntry): ethers.LogDescription | null {
+  for (const iface of SAFE_EVENT_INTERFACES) {
+    try {
+      const event = iface.parseLog({ topics: log.topics, data: log.data });
+      if (event) return event;
+    } catch {
+      // Other layout of the same event
+    }
+  }
+  return null;
+}
+
+// Safe signatures are 65-byte {r, s, v} blocks, sorted by owner, followed
+// by the dynamic data of contract signatures, which the s of such a block
+// points at. The type is told by v.
+function recoverSigners(signatures: string, safeTxHash: string): string[] {
+  const bytes = ethers.getBytes(signatures);
+  const signers: string[] = [];
+  let end = bytes.length;
+
+  for (let offset = 0; offset + 65 <= end; offset += 65) {
+    const r = ethers.hexlify(bytes.slice(offset, offset + 32));
+    const s = ethers.hexlify(bytes.slice(offset + 32, offset + 64));
+    const v = bytes[offset + 64];
+
+    if (v === 0 || v === 1) {
+      // Contract signature (EIP-1271) or hash approved on-chain: the owner is r
+      signers.push(ethers.getAddress(ethers.dataSlice(r, 12)));
+      if (v === 0) {
+        end = Math.min(end, Number(BigInt(s)));
+      }
+      continue;
+    }
+
+    try {
+      // eth_sign signatures add 4 to v and sign the prefixed message
+      signers.push(v > 30 ?
+        ethers.recoverAddress(ethers.hashMessage(ethers.getBytes(safeTxHash)), { r, s, v: v - 4 }) :
+        ethers.recoverAddress(safeTxHash, { r, s, v }));
+    } catch {
+      logger.warn(`Could not recover a signer of Safe transaction ${safeTxHash}`);
+    }
+  }
+
+  return signers;
+}
+
+export class SafeService {
+  constructor(private readonly storage: IDataStorage) {}
+
+  private extractOwnerChanges(safe: string, logs: LogEntry[]): SafeOwnerChange[] {
+    const changes: SafeOwnerChange[] = [];
+    for (const log of logs) {
+      const event = parseSafeEvent(log);
+      if (!event) continue;
+
+      const base = {
+        safe: log.address,
+        blockNumber: Number(log.blockNumber),
+        timeStamp: Number(log.timeStamp),
+        hash: log.hash,
+        logIndex: Number(log.logIndex),
+        ...(log.trackedAddress ? { trackedAddress: log.trackedAddress } : {})
+      };
+
+      switch (event.name) {
+        case 'SafeSetup':
+          changes.push({ ...base, type: 'setup', owners: [...event.args.owners], threshold: Number(event.args.threshold) });
+          break;
+        case 'AddedOwner':
+          changes.push({ ...base, type: 'added', owners: [event.args.owner] });
+          break;
+        case 'RemovedOwner':
+          changes.push({ ...base, type: 'removed', owners: [event.args.owner] });
+          break;
+        case 'ChangedThreshold':
+          changes.push({ ...base, type: 'threshold', owners: [], threshold: Number(event.args.threshold) });
+          break;
+      }
+    }
+
+    logger.debug(`Found ${changes.length} owner changes of Safe ${safe}`);
+    return changes.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private extractTransactions(safe: string, transactions: Transaction[], logs: LogEntry[]): SafeTransaction[] {
+    // ExecutionSuccess / ExecutionFailure of each outer transaction, in
+    // log order, to pair with its execTransaction calls
+    const results = new Map<string, ethers.LogDescription[]>();
+    for (const log of logs) {
+      const event = parseSafeEvent(log);
+      if (event?.name === 'ExecutionSuccess' || event?.name === 'ExecutionFailure') {
+        const key = log.hash.toLowerCase();
+        results.set(key, [...(results.get(key) ?? []), event]);
+      }
+    }
+
+    const safeTransactions: SafeTransaction[] = [];
+    for (const tx of transactions) {
+      if (tx.to?.toLowerCase() !== safe || !tx.input?.startsWith(EXEC_TRANSACTION_SELECTOR)) {
+        continue;
+      }
+
+      let call: ethers.TransactionDescription | null;
+      try {
+        call = EXEC_TRANSACTION.parseTransaction({ data: tx.input });
+      } catch {
+        call = null;
+      }
+      if (!call) continue;
+
+      const result = results.get(tx.hash.toLowerCase())?.shift();
+      const safeTxHash: string | undefined = result?.args.txHash;
+      safeTransactions.push({
+        safe: tx.to,
+        hash: tx.hash,
+        blockNumber: Number(tx.blockNumber),
+        timeStamp: Number(tx.timeStamp),
+        executor: tx.from,
+        to: call.args.to,
+        value: call.args.value.toString(),
+        data: call.args.data,
+        operation: Number(call.args.operation) === 1 ? 'delegatecall' : 'call',
+        ...(safeTxHash ? { safeTxHash } : {}),
+        // Without the Safe's logs, a reverted outer transaction is the only
+        // failure visible
+        success: result ? result.name === 'ExecutionSuccess' : tx.isError !== '1',
+        signers: safeTxHash ? recoverSigners(call.args.signatures, safeTxHash) : [],
+        ...(tx.trackedAddress ? { trackedAddress: tx.trackedAddress } : {})
+      });
+    }
+
+    return safeTransactions;
+  }
+
+  private buildReport(
+    safe: string,
+    history: SafeOwnerChange[],
+    transactions: SafeTransaction[]
+  ): SafeReport {
+    const owners = new Map<string, string>();
+    let threshold: number | undefined;
+    let complete = false;
+
+    for (const change of history) {
+      if (change.type === 'setup') {
+        owners.clear();
+        complete = true;
+      }
+      for (const owner of change.owners) {
+        if (change.type === 'removed') {
+          owners.delete(owner.toLowerCase());
+        } else {
+          owners.set(owner.toLowerCase(), owner);
+        }
+      }
+      threshold = change.threshold ?? threshold;
+    }
+
+    const activity = new Map<string, SignerActivity>();
+    const record = (signer: string, blockNumber: number, field: 'signed' | 'executed'): void => {
+      const key = signer.toLowerCase();
+      const entry = activity.get(key) ?? {
+        signer,
+        signed: 0,
+        executed: 0,
+        firstBlock: blockNumber,
+        lastBlock: blockNumber,
+        isOwner: owners.has(key)
+      };
+      entry[field]++;
+      entry.firstBlock = Math.min(entry.firstBlock, blockNumber);
+      entry.lastBlock = Math.max(entry.lastBlock, blockNumber);
+      activity.set(key, entry);
+    };
+
+    for (const tx of transactions) {
+      tx.signers.forEach(signer => record(signer, tx.blockNumber, 'signed'));
+      // Executors outside the signers are relayers, not signer activity
+      if (tx.signers.some(signer => signer.toLowerCase() === tx.executor.toLowerCase()) || owners.has(tx.executor.toLowerCase())) {
+        record(tx.executor, tx.blockNumber, 'executed');
+      }
+    }
+
+    // Owners that never signed a collected transaction are reported too
+    for (const [key, owner] of owners) {
+      if (!activity.has(key)) {
+        activity.set(key, { signer: owner, signed: 0, executed: 0, firstBlock: 0, lastBlock: 0, isOwner: true });
+      }
+    }
+
+    return {
+      safe,
+      owners: [...owners.values()],
+      ...(threshold !== undefined ? { threshold } : {}),
+      complete,
+      history,
+      transactions: transactions.length,
+      failedTransactions: transactions.filter(tx => !tx.success).length,
+      signers: [...activity.values()].sort((a, b) => b.signed - a.signed || b.lastBlock - a.lastBlock)
+    };
+  }
+
+  // Finds the organization's addresses that are Safes, i.e. emitted Safe
+  // events or received execTransaction calls, rebuilds their transaction
+  // and owner change datasets from the stored records and replaces the
+  // previous ones
+  async analyzeOrganization(name: string): Promise<SafeReport[]> {
+    try {
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const addresses = getOrganizationAddresses(organization).map(entry => entry.address.toLowerCase());
+      // A call from a signer to the Safe is stored for both when both are tracked
+      const transactions = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey);
+      const logs = (await this.storage.getLogs(name)).filter(log => log.topics.length > 0);
+
+      const reports: SafeReport[] = [];
+      const allTransactions: SafeTransaction[] = [];
+      const allChanges: SafeOwnerChange[] = [];
+      for (const safe of addresses) {
+        const safeLogs = logs.filter(log => log.address.toLowerCase() === safe);
+        const history = this.extractOwnerChanges(safe, safeLogs);
+        const safeTransactions = this.extractTransactions(safe, transactions, safeLogs);
+        const emitsSafeEvents = safeLogs.some(log => parseSafeEvent(log) !== null);
+        if (!emitsSafeEvents && safeTransactions.length === 0) continue;
+
+        reports.push(this.buildReport(safe, history, safeTransactions));
+        allTransactions.push(...safeTransactions);
+        allChanges.push(...history);
+      }
+
+      await this.storage.saveSafeTransactions(name, allTransactions);
+      await this.storage.saveSafeOwnerChanges(name, allChanges);
+
+      logger.info(`Found ${reports.length} Safes of ${name} with ${allTransactions.length} transactions and ${allChanges.length} owner changes`);
+      return reports;
+    } catch (error) {
+      logger.error(`Failed to analyze the Safes of ${name}`, error);
+      throw error;
+    }
+  }
+}
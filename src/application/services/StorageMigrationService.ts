@@ -0,0 +1,123 @@
+// src/application/services/StorageMigrationService.ts
+import { DataType, IDataStorage, TransactionTypeState } from '../../core/interfaces/IDataStorage';
+import { Organization } from '../../core/entities';
+import { createLogger } from '../../infrastructure/logging/logger';
+
+const logger = createLogger('StorageMigrationService');
+
+export interface MigrationResult {
+  organization: string;
+  chainId: number;
+  normal: number;
+  internal: number;
+  tokenTransfers: number;
+  nftTransfers: number;
+  logs: number;
+  coveredRanges: number;
+  resolvedDates: number;
+}
+
+export class StorageMigrationService {
+  private readonly BATCH_SIZE = 1000;
+
+  constructor(
+    private readonly createSource: (chainId: number) => IDataStorage,
+    private readonly createTarget: (chainId: number) => IDataStorage
+  ) {}
+
+  // Returns the number of records the target did not hold yet
+  private async copyInBatches<T>(items: T[], save: (batch: T[]) => Promise<number>): Promise<number> {
+    let copied = 0;
+    for (let i = 0; i < items.length; i += this.BATCH_SIZE) {
+      copied += await save(items.slice(i, i + this.BATCH_SIZE));
+    }
+    return copied;
+  }
+
+  // Block coverage and resolved dates, without which the target would treat
+  // the imported records as collected before coverage was tracked; the last
+  // block and count of each type follow from the records themselves
+  private async copySyncState(
+    name: string,
+    source: IDataStorage,
+    target: IDataStorage
+  ): Promise<{ coveredRanges: number; resolvedDates: number }> {
+    const state = await source.getLastProcessedState(name);
+    if (!state) {
+      return { coveredRanges: 0, resolvedDates: 0 };
+    }
+
+    let coveredRanges = 0;
+    for (const [type, typeState] of Object.entries(state.transactionTypes) as Array<[DataType, TransactionTypeState]>) {
+      for (const [address, ranges] of Object.entries(typeState.coveredRanges ?? {})) {
+        for (const range of ranges) {
+          await target.markRangeCovered(name, type, address, range);
+          coveredRanges++;
+        }
+      }
+    }
+
+    const resolvedDates = state.resolvedDates ?? [];
+    for (const resolved of resolvedDates) {
+      await target.saveResolvedDate(name, resolved);
+    }
+
+    return { coveredRanges, resolvedDates: resolvedDates.length };
+  }
+
+  async migrateOrganization(organization: Organization): Promise<MigrationResult[]> {
+    const results: MigrationResult[] = [];
+
+    for (const chainId of organization.chains ?? [organization.chainId]) {
+      const source = this.createSource(chainId);
+      const target = this.createTarget(chainId);
+      const name = organization.name;
+
+      await target.saveOrganization(organization);
+
+      const result: MigrationResult = {
+        organization: name,
+        chainId,
+        normal: await this.copyInBatches(
+          await source.getTransactions(name),
+          batch => target.saveTransactions(name, batch)
+        ),
+        internal: await this.copyInBatches(
+          await source.getInternalTransactions(name),
+          batch => target.saveInternalTransactions(name, batch)
+        ),
+        tokenTransfers: await this.copyInBatches(
+          await source.getTokenTransfers(name),
+          batch => target.saveTokenTransfers(name, batch)
+        ),
+        nftTransfers: await this.copyInBatches(
+          await source.getNftTransfers(name),
+          batch => target.saveNftTransfers(name, batch)
+        ),
+        logs: await this.copyInBatches(
+          await source.getLogs(name),
+          batch => target.saveLogs(name, batch)
+        ),
+        ...await this.copySyncState(name, source, target)
+      };
+
+      logger.info(`Migrated ${name} on chain ${chainId}`, result);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  async migrateAll(names?: string[]): Promise<MigrationResult[]> {
+    const organizations = await this.createSource(1).listOrganizations();
+    const selected = names && names.length > 0 ?
+      organizations.filter(org => names.includes(org.name)) :
+      organizations;
+
+    const results: MigrationResult[] = [];
+    for (const organization of selected) {
+      results.push(...await this.migrateOrganization(organization));
+    }
+    return results;
+  }
+}
@@ -0,0 +1,349 @@
+// src/application/services/TraceService.ts
+import { ethers } from 'ethers';
+import { IBlockchainDataProvider, QueryOptions } from '../../core/interfaces/IBlockchainDataProvider';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { FundFlowHop, LabelCategory } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { indexLabels } from '../../utils/labels';
+import { hasAddress } from '../../utils/organizations';
+import { NATIVE_ASSET } from './BalanceService';
+
+const logger = createLogger('TraceService');
+
+export interface TraceOptions {
+  // Organization address the trace starts from, the primary one by default
+  address?: string;
+  // "native" or a token contract address
+  asset: string;
+  // Hops followed from the start address
+  maxDepth: number;
+  // Also follow native funds sent by contract calls, which needs internal
+  // transactions from the provider
+  includeInternal?: boolean;
+  // Whole units of the asset; transfers carrying less of the traced funds
+  // are not followed
+  minAmount?: string;
+  // Unix seconds, inclusive
+  fromTime?: number;
+  toTime?: number;
+  // Addresses whose transfers are fetched at most, bounding the requests
+  maxAddresses: number;
+  // Labeled addresses of these categories end the trace, e.g. exchanges
+  stopCategories: LabelCategory[];
+}
+
+// Why traced funds stopped at an address: it is labeled as a stop, it sent
+// less than it received, the depth or address limit was reached, or the
+// funds came back to an address already followed
+export type TraceEndReason = 'terminal' | 'held' | 'depth' | 'limit' | 'cycle';
+
+export interface TraceEndpoint {
+  address: string;
+  label?: string;
+  category?: LabelCategory;
+  // Whole units of the asset
+  amount: string;
+  reason: TraceEndReason;
+  depth: number;
+}
+
+export interface TraceResult {
+  organization: string;
+  root: string;
+  asset: string;
+  symbol: string;
+  decimals: number;
+  // Sent by the root within the time window, in whole units
+  traced: string;
+  // Traced funds in transfers below the minimum amount, not followed
+  belowMinimum: string;
+  // Addresses whose transfers were fetched
+  expanded: number;
+  hops: FundFlowHop[];
+  // By amount, largest first
+  endpoints: TraceEndpoint[];
+}
+
+interface OutgoingTransfer {
+  to: string;
+  hash: string;
+  blockNumber: number;
+  timeStamp: number;
+  value: bigint;
+}
+
+// An address reached by the trace, with the traced funds it received
+interface TraceNode {
+  // null for the root, all of whose transfers are traced
+  inflow: bigint | null;
+  // Earliest traced transfer into the address; only later transfers out of
+  // it can move the traced funds
+  arrivalBlock: number;
+  arrivalTime: number;
+}
+
+interface AssetInfo {
+  symbol: string;
+  decimals: number;
+}
+
+export class TraceService {
+  private readonly PAGE_SIZE = 1000;
+
+  constructor(
+    private readonly dataProvider: IBlockchainDataProvider,
+    private readonly storage: IDataStorage
+  ) {}
+
+  // Every record of a block range, page by page, up to the provider's
+  // result window
+  private async fetchAll<T>(
+    fetch: (options: QueryOptions) => Promise<T[]>,
+    startBlock: number,
+    endBlock: number,
+    description: string
+  ): Promise<T[]> {
+    const resultWindow = this.dataProvider.maxResultWindow ?? Infinity;
+    const items: T[] = [];
+    for (let page = 1; ; page++) {
+      if (page * this.PAGE_SIZE > resultWindow) {
+        logger.warn(`${description} exceed the provider result window; only the first ${items.length} are followed`);
+        return items;
+      }
+      const batch = await fetch({ startBlock, endBlock, page, offset: this.PAGE_SIZE, sort: 'asc' });
+      items.push(...batch);
+      if (batch.length < this.PAGE_SIZE) {
+        return items;
+      }
+    }
+  }
+
+  // Successful transfers of the asset sent by the address in the range
+  private async fetchOutgoing(
+    address: string,
+    asset: string,
+    startBlock: number,
+    endBlock: number,
+    assetInfo: AssetInfo,
+    includeInternal: boolean
+  ): Promise<OutgoingTransfer[]> {
+    const transfers: OutgoingTransfer[] = [];
+    const isSender = (from: string): boolean => from.toLowerCase() === address;
+
+    if (asset === NATIVE_ASSET) {
+      const transactions = await this.fetchAll(
+        options => this.dataProvider.getTransactions(address, options),
+        startBlock, endBlock, `Transactions of ${address}`
+      );
+      const internalTransactions = includeInternal ? await this.fetchAll(
+        options => this.dataProvider.getInternalTransactions(address, options),
+        startBlock, endBlock, `Internal transactions of ${address}`
+      ) : [];
+      for (const tx of [...transactions, ...internalTransactions]) {
+        const to = tx.to || tx.contractAddress;
+        if (!isSender(tx.from) || tx.isError === '1' || !to) continue;
+        transfers.push({
+          to: to.toLowerCase(),
+          hash: tx.hash,
+          blockNumber: Number(tx.blockNumber),
+          timeStamp: Number(tx.timeStamp),
+          value: BigInt(tx.value || '0')
+        });
+      }
+    } else {
+      const tokenTransfers = await this.fetchAll(
+        options => this.dataProvider.getTokenTransfers(address, options),
+        startBlock, endBlock, `Token transfers of ${address}`
+      );
+      for (const transfer of tokenTransfers) {
+        if (!isSender(transfer.from) || transfer.contractAddress.toLowerCase() !== asset) continue;
+        if (!assetInfo.symbol) {
+          assetInfo.symbol = transfer.tokenSymbol;
+          assetInfo.decimals = parseInt(transfer.tokenDecimal, 10) || 0;
+        }
+        transfers.push({
+          to: transfer.to.toLowerCase(),
+          hash: transfer.hash,
+          blockNumber: Number(transfer.blockNumber),
+          timeStamp: Number(transfer.timeStamp),
+          value: BigInt(transfer.value || '0')
+        });
+      }
+    }
+
+    return transfers
+      .filter(transfer => transfer.value > 0n && transfer.to !== address)
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  // Follows the funds the address sent, breadth first: each address passes
+  // on the traced funds it received in proportion to what it sent after
+  // receiving them, so a hop is attributed value x inflow / outflow when
+  // the address sent more than it received
+  async trace(name: string, nativeSymbol: string, options: TraceOptions): Promise<TraceResult> {
+    try {
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const root = (options.address ?? organization.address).toLowerCase();
+      if (!hasAddress(organization, root)) {
+        throw new ValidationError(`${options.address} does not belong to ${name}`);
+      }
+      const asset = options.asset.toLowerCase();
+      if (asset !== NATIVE_ASSET && !ethers.isAddress(asset)) {
+        throw new ValidationError(`Invalid asset ${options.asset}: expected "native" or a token contract address`);
+      }
+
+      const startBlock = options.fromTime !== undefined ?
+        await this.dataProvider.getBlockNumberByTime(options.fromTime, 'after') : 0;
+      const endBlock = options.toTime !== undefined ?
+        await this.dataProvider.getBlockNumberByTime(options.toTime, 'before') :
+        await this.dataProvider.getCurrentBlock();
+
+      const assetInfo: AssetInfo = asset === NATIVE_ASSET ?
+        { symbol: nativeSymbol, decimals: 18 } :
+        { symbol: '', decimals: 0 };
+      const labels = indexLabels(await this.storage.getAddressLabels());
+      const isTerminal = (address: string): boolean => {
+        const category = labels.get(address)?.category;
+        return category !== undefined && options.stopCategories.includes(category);
+      };
+      // The minimum is converted once the token's decimals are known, from
+      // its first transfer
+      let minimumUnits: bigint | undefined;
+      const minimum = (): bigint => {
+        if (minimumUnits === undefined) {
+          try {
+            minimumUnits = options.minAmount ? ethers.parseUnits(options.minAmount, assetInfo.decimals) : 0n;
+          } catch {
+            throw new ValidationError(`Invalid minimum amount ${options.minAmount} for ${assetInfo.symbol || asset} with ${assetInfo.decimals} decimals`);
+          }
+        }
+        return minimumUnits;
+      };
+
+      const tracedAt = new Date().toISOString();
+      const hops: FundFlowHop[] = [];
+      const endpoints = new Map<string, { amount: bigint; reason: TraceEndReason; depth: number }>();
+      const addEndpoint = (address: string, amount: bigint, reason: TraceEndReason, depth: number): void => {
+        const endpoint = endpoints.get(address) ?? { amount: 0n, reason, depth };
+        endpoint.amount += amount;
+        endpoints.set(address, endpoint);
+      };
+      const expanded = new Set<string>();
+      let traced = 0n;
+      let belowMinimum = 0n;
+
+      let level = new Map<string, TraceNode>([[root, { inflow: null, arrivalBlock: startBlock, arrivalTime: 0 }]]);
+      for (let depth = 0; level.size > 0; depth++) {
+        const next = new Map<string, TraceNode>();
+
+        for (const [address, node] of level) {
+          const inflow = node.inflow ?? 0n;
+          if (expanded.has(address)) {
+            addEndpoint(address, inflow, 'cycle', depth);
+            continue;
+          }
+          if (depth > 0 && isTerminal(address)) {
+            addEndpoint(address, inflow, 'terminal', depth);
+            continue;
+          }
+          if (depth >= options.maxDepth) {
+            addEndpoint(address, inflow, 'depth', depth);
+            continue;
+          }
+          if (expanded.size >= options.maxAddresses) {
+            addEndpoint(address, inflow, 'limit', depth);
+            continue;
+          }
+
+          expanded.add(address);
+          const outgoing = (await this.fetchOutgoing(address, asset, node.arrivalBlock, endBlock, assetInfo, options.includeInternal ?? false))
+            .filter(transfer => transfer.timeStamp >= node.arrivalTime &&
+              (options.toTime === undefined || transfer.timeStamp <= options.toTime));
+          const outflow = outgoing.reduce((sum, transfer) => sum + transfer.value, 0n);
+          if (node.inflow === null) {
+            traced = outflow;
+          } else if (outflow < node.inflow) {
+            addEndpoint(address, node.inflow - outflow, 'held', depth);
+          }
+
+          for (const transfer of outgoing) {
+            const attributed = node.inflow === null || outflow <= node.inflow ?
+              transfer.value :
+              transfer.value * node.inflow / outflow;
+            if (attributed === 0n || attributed < minimum()) {
+              belowMinimum += attributed;
+              continue;
+            }
+
+            hops.push({
+              root,
+              asset,
+              symbol: assetInfo.symbol,
+              decimals: assetInfo.decimals,
+              depth: depth + 1,
+              from: address,
+              to: transfer.to,
+              hash: transfer.hash,
+              blockNumber: transfer.blockNumber,
+              timeStamp: transfer.timeStamp,
+              value: transfer.value.toString(),
+              attributed: attributed.toString(),
+              terminal: isTerminal(transfer.to),
+              tracedAt
+            });
+
+            const child = next.get(transfer.to) ??
+              { inflow: 0n, arrivalBlock: transfer.blockNumber, arrivalTime: transfer.timeStamp };
+            child.inflow = (child.inflow ?? 0n) + attributed;
+            child.arrivalBlock = Math.min(child.arrivalBlock, transfer.blockNumber);
+            child.arrivalTime = Math.min(child.arrivalTime, transfer.timeStamp);
+            next.set(transfer.to, child);
+          }
+
+          logger.info(`Followed ${address} at depth ${depth}: ${outgoing.length} transfers out`);
+        }
+
+        level = next;
+      }
+
+      await this.storage.saveFundFlowHops(name, root, asset, hops);
+
+      const result: TraceResult = {
+        organization: name,
+        root,
+        asset,
+        symbol: assetInfo.symbol,
+        decimals: assetInfo.decimals,
+        traced: ethers.formatUnits(traced, assetInfo.decimals),
+        belowMinimum: ethers.formatUnits(belowMinimum, assetInfo.decimals),
+        expanded: expanded.size,
+        hops,
+        endpoints: [...endpoints.entries()]
+          .filter(([, endpoint]) => endpoint.amount > 0n)
+          .sort(([, a], [, b]) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0))
+          .map(([address, endpoint]) => {
+            const label = labels.get(address);
+            return {
+              address,
+              ...(label ? { label: label.name } : {}),
+              ...(label?.category ? { category: label.category } : {}),
+              amount: ethers.formatUnits(endpoint.amount, assetInfo.decimals),
+              reason: endpoint.reason,
+              depth: endpoint.depth
+            };
+          })
+      };
+
+      logger.info(`Traced ${result.traced} ${assetInfo.symbol} from ${root} over ${hops.length} hops and ${expanded.size} addresses`);
+      return result;
+    } catch (error) {
+      logger.error(`Failed to trace the funds of ${name}`, error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,219 @@
+// src/application/services/ValuationService.ts
+import { ethers } from 'ethers';
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { IPriceSource } from '../../core/interfaces';
+import { Valuation, ValuationKind } from '../../core/entities';
+import { DataProviderError, ValidationError } from '../../core/errors';
+import { createLogger } from '../../infrastructure/logging/logger';
+import { getPeriodLabel } from '../../utils/dates';
+import { getOrganizationAddresses } from '../../utils/organizations';
+import {
+  getInternalTransactionKey,
+  getTokenTransferKey,
+  getTransactionKey,
+  uniqueAcrossTrackedAddresses
+} from '../../utils/recordKeys';
+import { formatUsd } from '../../utils/valuations';
+import { NATIVE_ASSET } from './BalanceService';
+
+const logger = createLogger('ValuationService');
+
+// Valued records of one asset, fees apart from transfers
+export interface AssetValuation {
+  asset: string;
+  symbol: string;
+  fees: boolean;
+  records: number;
+  priced: number;
+  // Whole units, exact, over every record; USD over the priced ones
+  amount: string;
+  usdValue: string;
+}
+
+export interface ValuationResult {
+  organization: string;
+  source: string;
+  valued: number;
+  priced: number;
+  // By USD value, largest first; assets missing prices are flagged by
+  // priced < records
+  assets: AssetValuation[];
+  // Assets the price source could not be asked for
+  failedAssets: string[];
+}
+
+// A record to value, before its price is known
+interface PendingValuation {
+  kind: ValuationKind;
+  recordKey: string;
+  hash: string;
+  timeStamp: number;
+  asset: string;
+  symbol: string;
+  decimals: number;
+  value: bigint;
+}
+
+export class ValuationService {
+  constructor(
+    private readonly storage: IDataStorage,
+    private readonly priceSource: IPriceSource
+  ) {}
+
+  // Successful native transfers, token transfers and the fees of the
+  // transactions the organization sent, once each whatever the address they
+  // were collected for
+  private async collectRecords(name: string, ownAddresses: Set<string>, nativeSymbol: string): Promise<PendingValuation[]> {
+    const transactions = uniqueAcrossTrackedAddresses(await this.storage.getTransactions(name), getTransactionKey);
+    const internalTransactions = uniqueAcrossTrackedAddresses(await this.storage.getInternalTransactions(name), getInternalTransactionKey);
+    const tokenTransfers = uniqueAcrossTrackedAddresses(await this.storage.getTokenTransfers(name), getTokenTransferKey);
+    const native = { asset: NATIVE_ASSET, symbol: nativeSymbol, decimals: 18 };
+
+    const records: PendingValuation[] = [];
+    for (const tx of transactions) {
+      const base = { hash: tx.hash, timeStamp: Number(tx.timeStamp), ...native };
+      const recordKey = getTransactionKey({ ...tx, trackedAddress: undefined });
+      const value = BigInt(tx.value || '0');
+      if (tx.isError !== '1' && value > 0n) {
+        records.push({ ...base, kind: 'transaction', recordKey, value });
+      }
+      // Failed transactions pay for the gas they used all the same
+      if (ownAddresses.has(tx.from.toLowerCase()) && tx.gasUsed) {
+        records.push({ ...base, kind: 'fee', recordKey, value: BigInt(tx.gasUsed) * BigInt(tx.gasPrice || '0') });
+      }
+    }
+
+    for (const tx of internalTransactions) {
+      const value = BigInt(tx.value || '0');
+      if (tx.isError === '1' || value === 0n) continue;
+      records.push({
+        kind: 'internal',
+        recordKey: getInternalTransactionKey({ ...tx, trackedAddress: undefined }),
+        hash: tx.hash,
+        timeStamp: Number(tx.timeStamp),
+        ...native,
+        value
+      });
+    }
+
+    for (const transfer of tokenTransfers) {
+      records.push({
+        kind: 'token',
+        recordKey: getTokenTransferKey({ ...transfer, trackedAddress: undefined }),
+        hash: transfer.hash,
+        timeStamp: Number(transfer.timeStamp),
+        asset: transfer.contractAddress.toLowerCase(),
+        symbol: transfer.tokenSymbol,
+        // Tokens without decimals are counted in base units
+        decimals: parseInt(transfer.tokenDecimal, 10) || 0,
+        value: BigInt(transfer.value || '0')
+      });
+    }
+
+    return records;
+  }
+
+  // Daily prices of every asset over the days its records span, one
+  // request per asset
+  private async fetchPrices(
+    records: PendingValuation[],
+    failedAssets: string[]
+  ): Promise<Map<string, Map<string, number>>> {
+    const spans = new Map<string, { from: number; to: number }>();
+    for (const record of records) {
+      const span = spans.get(record.asset) ?? { from: record.timeStamp, to: record.timeStamp };
+      span.from = Math.min(span.from, record.timeStamp);
+      span.to = Math.max(span.to, record.timeStamp);
+      spans.set(record.asset, span);
+    }
+
+    const prices = new Map<string, Map<string, number>>();
+    for (const [asset, span] of spans) {
+      try {
+        prices.set(asset, await this.priceSource.getDailyPrices(asset, span.from, span.to));
+      } catch (error) {
+        if (!(error instanceof DataProviderError)) {
+          throw error;
+        }
+        // Left unpriced, like an asset the source does not know
+        logger.warn(`Could not fetch the prices of ${asset} from ${this.priceSource.name}`, error);
+        failedAssets.push(asset);
+      }
+    }
+    return prices;
+  }
+
+  // Values every stored transfer and fee of the organization at the price
+  // of the day it was made, replacing the previous valuations
+  async valueOrganization(name: string, nativeSymbol: string): Promise<ValuationResult> {
+    try {
+      const organization = await this.storage.getOrganizationByName(name);
+      if (!organization) {
+        throw new ValidationError(`Organization ${name} is not registered`);
+      }
+
+      const own = new Set(getOrganizationAddresses(organization).map(entry => entry.address.toLowerCase()));
+      const records = await this.collectRecords(name, own, nativeSymbol);
+      const failedAssets: string[] = [];
+      const prices = await this.fetchPrices(records, failedAssets);
+
+      const valuedAt = new Date().toISOString();
+      const assets = new Map<string, AssetValuation & { total: bigint; decimals: number; usd: number }>();
+      const valuations: Valuation[] = records.map(record => {
+        const amount = ethers.formatUnits(record.value, record.decimals);
+        const price = prices.get(record.asset)?.get(getPeriodLabel(record.timeStamp, 'day'));
+        const usdValue = price !== undefined ? Number(amount) * price : undefined;
+
+        const fees = record.kind === 'fee';
+        const key = `${fees ? 'fee' : 'transfer'}:${record.asset}`;
+        const summary = assets.get(key) ?? {
+          asset: record.asset, symbol: record.symbol, fees, records: 0, priced: 0, amount: '', usdValue: '',
+          total: 0n, decimals: record.decimals, usd: 0
+        };
+        summary.records++;
+        summary.total += record.value;
+        if (usdValue !== undefined) {
+          summary.priced++;
+          summary.usd += usdValue;
+        }
+        assets.set(key, summary);
+
+        return {
+          kind: record.kind,
+          recordKey: record.recordKey,
+          hash: record.hash,
+          timeStamp: record.timeStamp,
+          asset: record.asset,
+          symbol: record.symbol,
+          amount,
+          ...(price !== undefined ? { price } : {}),
+          ...(usdValue !== undefined ? { usdValue } : {}),
+          source: this.priceSource.name,
+          valuedAt
+        };
+      });
+
+      await this.storage.saveValuations(name, valuations);
+
+      const priced = valuations.filter(valuation => valuation.usdValue !== undefined).length;
+      logger.info(`Valued ${valuations.length} records of ${name} from ${this.priceSource.name}, ${valuations.length - priced} without a price`);
+      return {
+        organization: name,
+        source: this.priceSource.name,
+        valued: valuations.length,
+        priced,
+        assets: [...assets.values()]
+          .sort((a, b) => b.usd - a.usd || b.records - a.records)
+          .map(({ total, decimals, usd, ...summary }) => ({
+            ...summary,
+            amount: ethers.formatUnits(total, decimals),
+            usdValue: formatUsd(usd)
+          })),
+        failedAssets
+      };
+    } catch (error) {
+      logger.error(`Failed to value the records of ${name}`, error);
+      throw error;
+    }
+  }
+}
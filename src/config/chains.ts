@@ -0,0 +1,112 @@
+// src/config/chains.ts
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  // Etherscan-compatible explorer API; local chains have none
+  explorerApiUrl?: string;
+  rpcUrl: string;
+  nativeSymbol: string;
+  // Average block time in seconds
+  blockTime: number;
+  // CoinGecko ids of the chain's asset platform and native currency, for
+  // chains whose assets CoinGecko prices
+  coingecko?: {
+    platform: string;
+    nativeCoin: string;
+  };
+}
+
+export const CHAINS: ChainConfig[] = [
+  {
+    chainId: 1,
+    name: 'mainnet',
+    explorerApiUrl: 'https://api.etherscan.io/api',
+    rpcUrl: 'https://ethereum-rpc.publicnode.com',
+    nativeSymbol: 'ETH',
+    blockTime: 12,
+    coingecko: { platform: 'ethereum', nativeCoin: 'ethereum' },
+  },
+  {
+    chainId: 5,
+    name: 'goerli',
+    explorerApiUrl: 'https://api-goerli.etherscan.io/api',
+    rpcUrl: 'https://ethereum-goerli-rpc.publicnode.com',
+    nativeSymbol: 'ETH',
+    blockTime: 12,
+  },
+  {
+    chainId: 11155111,
+    name: 'sepolia',
+    explorerApiUrl: 'https://api-sepolia.etherscan.io/api',
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+    nativeSymbol: 'ETH',
+    blockTime: 12,
+  },
+  {
+    chainId: 137,
+    name: 'polygon',
+    explorerApiUrl: 'https://api.polygonscan.com/api',
+    rpcUrl: 'https://polygon-rpc.com',
+    nativeSymbol: 'POL',
+    blockTime: 2,
+    coingecko: { platform: 'polygon-pos', nativeCoin: 'polygon-ecosystem-token' },
+  },
+  {
+    chainId: 42161,
+    name: 'arbitrum',
+    explorerApiUrl: 'https://api.arbiscan.io/api',
+    rpcUrl: 'https://arb1.arbitrum.io/rpc',
+    nativeSymbol: 'ETH',
+    blockTime: 0.25,
+    coingecko: { platform: 'arbitrum-one', nativeCoin: 'ethereum' },
+  },
+  {
+    chainId: 10,
+    name: 'optimism',
+    explorerApiUrl: 'https://api-optimistic.etherscan.io/api',
+    rpcUrl: 'https://mainnet.optimism.io',
+    nativeSymbol: 'ETH',
+    blockTime: 2,
+    coingecko: { platform: 'optimistic-ethereum', nativeCoin: 'ethereum' },
+  },
+  {
+    chainId: 8453,
+    name: 'base',
+    explorerApiUrl: 'https://api.basescan.org/api',
+    rpcUrl: 'https://mainnet.base.org',
+    nativeSymbol: 'ETH',
+    blockTime: 2,
+    coingecko: { platform: 'base', nativeCoin: 'ethereum' },
+  },
+  {
+    chainId: 56,
+    name: 'bsc',
+    explorerApiUrl: 'https://api.bscscan.com/api',
+    rpcUrl: 'https://bsc-dataseed.binance.org',
+    nativeSymbol: 'BNB',
+    blockTime: 3,
+    coingecko: { platform: 'binance-smart-chain', nativeCoin: 'binancecoin' },
+  },
+  {
+    chainId: 31337,
+    name: 'anvil',
+    rpcUrl: 'http://127.0.0.1:8545',
+    nativeSymbol: 'ETH',
+    blockTime: 1,
+  },
+];
+
+export function findChain(nameOrId: string | number): ChainConfig | undefined {
+  const key = nameOrId.toString().toLowerCase();
+  return CHAINS.find(chain => chain.name === key || chain.chainId.toString() === key);
+}
+
+export function getChain(nameOrId: string | number): ChainConfig {
+  const chain = findChain(nameOrId);
+  if (!chain) {
+    const supported = CHAINS.map(c => `${c.name} (${c.chainId})`).join(', ');
+    throw new Error(`Unsupported chain: ${nameOrId}. Supported chains: ${supported}`);
+  }
+  return chain;
+}
@@ -1,32 +1,65 @@
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import { z } from 'zod';
+import { findChain } from './chains';
 
 // Load environment variables
 dotenv.config();
-if (!process.env.ETHERSCAN_API_KEY) {
-    throw new Error('ETHERSCAN_API_KEY environment variable is required');
-  }
 
 // Configuration schema
 const configSchema = z.object({
+  chain: z.string()
+    .refine(chain => findChain(chain) !== undefined, { message: 'Unsupported chain' })
+    .default('mainnet'),
   etherscan: z.object({
-    apiKey: z.string().min(1),
-    network: z.enum(['mainnet', 'goerli', 'sepolia', 'polygon']).default('mainnet'),
+    apiKeys: z.array(z.string().min(1)).default([]),
     baseUrl: z.string().url().optional(),
+    // Budget shared by every Etherscan request of the process, whichever key it uses
     rateLimit: z.object({
       requestsPerSecond: z.number().positive().default(5),
       timeWindow: z.number().positive().default(1000),
+      burst: z.number().int().positive().default(1),
     }).default({
       requestsPerSecond: 5,
       timeWindow: 1000,
+      burst: 1,
     }),
   }),
+  rpc: z.object({
+    url: z.string().url().optional(),
+    blockConcurrency: z.number().int().positive().default(10),
+  }),
   storage: z.object({
+    backend: z.enum(['filesystem', 'sqlite']).default('filesystem'),
     baseDir: z.string().default(path.join(process.cwd(), 'data')),
+    sqliteFile: z.string().default(path.join(process.cwd(), 'data', 'analyzer.db')),
     organizationsDir: z.string().optional(),
     registryFile: z.string().optional(),
   }),
+  cache: z.object({
+    enabled: z.boolean().default(true),
+    dir: z.string().default(path.join(process.cwd(), 'data', 'cache')),
+    // Seconds before a response near the chain head is fetched again
+    ttl: z.number().int().positive().default(300),
+    // Blocks below the head after which a block is considered final
+    finalityDepth: z.number().int().nonnegative().default(64),
+  }),
+  abi: z.object({
+    // ABI files supplied by the user, named <contract address>.json
+    dir: z.string().default(path.join(process.cwd(), 'abis')),
+    // Verified ABIs fetched from the explorer
+    cacheDir: z.string().default(path.join(process.cwd(), 'data', 'abis')),
+  }),
+  prices: z.object({
+    // Daily price CSVs supplied by the user, <chainId>.csv for the native
+    // currency and <chainId>/<token address>.csv for tokens
+    dir: z.string().default(path.join(process.cwd(), 'prices')),
+    coingecko: z.object({
+      baseUrl: z.string().url().default('https://api.coingecko.com/api/v3'),
+      apiKey: z.string().optional(),
+      requestsPerMinute: z.number().positive().default(20),
+    }),
+  }),
   logging: z.object({
     level: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
     directory: z.string().default(path.join(process.cwd(), 'logs')),
@@ -38,36 +71,99 @@ type Config = z.infer<typeof configSchema>;
 
 // Default configuration values
 const defaultConfig: Config = {
+  chain: 'mainnet',
   etherscan: {
-    apiKey: process.env.ETHERSCAN_API_KEY || '',
-    network: 'mainnet',
+    apiKeys: [],
     rateLimit: {
       requestsPerSecond: 5,
       timeWindow: 1000,
+      burst: 1,
     },
   },
+  rpc: {
+    blockConcurrency: 10,
+  },
   storage: {
+    backend: 'filesystem',
     baseDir: path.join(process.cwd(), 'data'),
+    sqliteFile: path.join(process.cwd(), 'data', 'analyzer.db'),
     organizationsDir: path.join(process.cwd(), 'data', 'organizations'),
     registryFile: path.join(process.cwd(), 'data', 'registry.json'),
   },
+  cache: {
+    enabled: true,
+    dir: path.join(process.cwd(), 'data', 'cache'),
+    ttl: 300,
+    finalityDepth: 64,
+  },
+  abi: {
+    dir: path.join(process.cwd(), 'abis'),
+    cacheDir: path.join(process.cwd(), 'data', 'abis'),
+  },
+  prices: {
+    dir: path.join(process.cwd(), 'prices'),
+    coingecko: {
+      baseUrl: 'https://api.coingecko.com/api/v3',
+      requestsPerMinute: 20,
+    },
+  },
   logging: {
     level: 'info',
     directory: path.join(process.cwd(), 'logs'),
   },
 };
 
+// ETHERSCAN_API_KEYS holds a comma-separated pool of keys, ETHERSCAN_API_KEY
+// a single one; both may be set
+function parseApiKeys(): string[] {
+  const keys = [
+    ...(process.env.ETHERSCAN_API_KEYS || '').split(','),
+    process.env.ETHERSCAN_API_KEY || ''
+  ].map(key => key.trim()).filter(key => key.length > 0);
+  return [...new Set(keys)];
+}
+
 // Validate and export configuration
 export const config = configSchema.parse({
   ...defaultConfig,
+  // ETHERSCAN_NETWORK is the pre-registry name of this setting
+  chain: process.env.CHAIN || process.env.ETHERSCAN_NETWORK || defaultConfig.chain,
   etherscan: {
     ...defaultConfig.etherscan,
-    apiKey: process.env.ETHERSCAN_API_KEY,
-    network: process.env.ETHERSCAN_NETWORK || defaultConfig.etherscan.network,
+    apiKeys: parseApiKeys(),
+    rateLimit: {
+      ...defaultConfig.etherscan.rateLimit,
+      requestsPerSecond: Number(process.env.ETHERSCAN_REQUESTS_PER_SECOND) || defaultConfig.etherscan.rateLimit.requestsPerSecond,
+    },
+  },
+  rpc: {
+    ...defaultConfig.rpc,
+    url: process.env.RPC_URL || undefined,
   },
   storage: {
     ...defaultConfig.storage,
+    backend: process.env.STORAGE_BACKEND || defaultConfig.storage.backend,
     baseDir: process.env.STORAGE_BASE_DIR || defaultConfig.storage.baseDir,
+    sqliteFile: process.env.SQLITE_FILE || defaultConfig.storage.sqliteFile,
+  },
+  cache: {
+    ...defaultConfig.cache,
+    enabled: process.env.CACHE_ENABLED !== 'false',
+    dir: process.env.CACHE_DIR || defaultConfig.cache.dir,
+    ttl: Number(process.env.CACHE_TTL) || defaultConfig.cache.ttl,
+  },
+  abi: {
+    ...defaultConfig.abi,
+    dir: process.env.ABI_DIR || defaultConfig.abi.dir,
+  },
+  prices: {
+    dir: process.env.PRICES_DIR || defaultConfig.prices.dir,
+    coingecko: {
+      ...defaultConfig.prices.coingecko,
+      baseUrl: process.env.COINGECKO_API_URL || defaultConfig.prices.coingecko.baseUrl,
+      apiKey: process.env.COINGECKO_API_KEY || undefined,
+      requestsPerMinute: Number(process.env.COINGECKO_REQUESTS_PER_MINUTE) || defaultConfig.prices.coingecko.requestsPerMinute,
+    },
   },
   logging: {
     ...defaultConfig.logging,
@@ -0,0 +1,16 @@
+// What kind of party an address is
+export type LabelCategory = 'cex' | 'dex-router' | 'bridge' | 'mixer' | 'team' | 'vesting' | 'contract' | 'other';
+
+// Where a label came from: set by hand, a label pack file, a registered
+// organization or the contract name of verified source on the explorer
+export type LabelSource = 'user' | 'pack' | 'organization' | 'etherscan';
+
+// Name of an address on one chain, applied to reports and exports
+export interface AddressLabel {
+    // Lowercase
+    address: string;
+    name: string;
+    category?: LabelCategory;
+    source: LabelSource;
+    updatedAt: string;
+  }
@@ -0,0 +1,16 @@
+// Balance of one asset at an organization address, replayed from the stored
+// transfers; one point per block or per UTC day with activity
+export interface BalancePoint {
+    address: string;
+    // "native" or the token contract address
+    asset: string;
+    symbol: string;
+    decimals: number;
+    // Last block of the point, and its time
+    blockNumber: number;
+    timeStamp: number;
+    // Net change since the previous point and the balance after it, in the
+    // asset's base units
+    change: string;
+    balance: string;
+  }
@@ -0,0 +1,21 @@
+// Where the ABI a record was decoded with came from: an ABI file supplied by
+// the user, the verified source on the explorer, or the signature table
+export type AbiSource = 'user' | 'verified' | 'signature';
+
+// Function call encoded in the input of a normal transaction
+export interface DecodedCall {
+    // Transaction whose input was decoded; joins to Transaction.hash
+    hash: string;
+    blockNumber: number;
+    contractAddress: string;
+    selector: string;
+    functionName: string;
+    // Canonical signature, e.g. "transfer(address,uint256)"
+    signature: string;
+    // Arguments by parameter name (position when unnamed); integers are
+    // decimal strings, so the whole is JSON
+    args: Record<string, unknown>;
+    abiSource: AbiSource;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
@@ -0,0 +1,21 @@
+import { AbiSource } from './DecodedCall';
+
+// Arguments of an event log
+export interface DecodedEvent {
+    // Together with logIndex, joins to the LogEntry
+    hash: string;
+    logIndex: number;
+    blockNumber: number;
+    // Contract that emitted the event
+    address: string;
+    topic0: string;
+    eventName: string;
+    // Canonical signature, e.g. "Transfer(address,address,uint256)"
+    signature: string;
+    // Arguments by parameter name (position when unnamed); indexed strings,
+    // bytes and arrays are only known by their hash
+    args: Record<string, unknown>;
+    abiSource: AbiSource;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
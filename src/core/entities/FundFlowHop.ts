@@ -0,0 +1,24 @@
+// One transfer followed by the trace command, from an organization address
+// outwards
+export interface FundFlowHop {
+    // Organization address the trace started from, lowercase
+    root: string;
+    // "native" or the token contract address
+    asset: string;
+    symbol: string;
+    decimals: number;
+    // 1 for transfers sent by the root, 2 for those sent by its recipients...
+    depth: number;
+    from: string;
+    to: string;
+    hash: string;
+    blockNumber: number;
+    timeStamp: number;
+    // Moved by the transfer and, of it, the part attributed to the traced
+    // funds, in the asset's base units
+    value: string;
+    attributed: string;
+    // The recipient carries a label the trace stops at, such as an exchange
+    terminal: boolean;
+    tracedAt: string;
+  }
@@ -0,0 +1,44 @@
+export type ProposalStatus = 'pending' | 'active' | 'defeated' | 'succeeded' | 'queued' | 'executed' | 'canceled';
+
+// A call the proposal makes once executed
+export interface ProposalAction {
+    target: string;
+    // Native value in wei
+    value: string;
+    // Function signature of Compound-style proposals, empty when the
+    // calldata holds the selector
+    signature: string;
+    calldata: string;
+  }
+
+// A proposal of an OpenZeppelin Governor or Compound GovernorAlpha/Bravo
+// contract, with its votes tallied
+export interface GovernanceProposal {
+    // Governor contract; proposal ids are only unique per governor
+    governor: string;
+    proposalId: string;
+    proposer: string;
+    description: string;
+    actions: ProposalAction[];
+    // Voting window in the governor's clock: block numbers, or timestamps
+    // for governors on a timestamp clock
+    voteStart: string;
+    voteEnd: string;
+    createdBlock: number;
+    createdAt: number;
+    // Transaction that created the proposal
+    hash: string;
+    // Sums of vote weights
+    forVotes: string;
+    againstVotes: string;
+    abstainVotes: string;
+    voterCount: number;
+    status: ProposalStatus;
+    queuedBlock?: number;
+    // Earliest execution time set by the timelock, unix seconds
+    eta?: string;
+    executedBlock?: number;
+    canceledBlock?: number;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
@@ -0,0 +1,18 @@
+export type VoteSupport = 'against' | 'for' | 'abstain';
+
+// A VoteCast event of a governor
+export interface GovernanceVote {
+    governor: string;
+    proposalId: string;
+    voter: string;
+    support: VoteSupport;
+    // Voting power used, in the governance token's base units
+    weight: string;
+    reason: string;
+    blockNumber: number;
+    timeStamp: number;
+    hash: string;
+    logIndex: number;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
@@ -0,0 +1,26 @@
+// A call made during the execution of a normal transaction, as listed by
+// Etherscan's txlistinternal or derived from a trace
+export interface InternalTransaction {
+    // Hash of the normal transaction whose execution made the call; joins
+    // to Transaction.hash
+    hash: string;
+    blockNumber: number;
+    timeStamp: number;
+    // Position of the call in the trace, e.g. "0_1"
+    traceId?: string;
+    // call, create or suicide (selfdestruct)
+    type: string;
+    from: string;
+    to: string;
+    value: string;
+    // Contract deployed by a create call
+    contractAddress: string;
+    input: string;
+    gas: string;
+    gasUsed: string;
+    isError: string;
+    // Why a failed call reverted, e.g. "out of gas"
+    errCode: string;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
@@ -0,0 +1,17 @@
+// An event emitted by a contract, as listed by Etherscan's getLogs or
+// returned by eth_getLogs
+export interface LogEntry {
+    // Contract that emitted the event
+    address: string;
+    // topics[0] is the event signature hash, the rest its indexed arguments
+    topics: string[];
+    data: string;
+    blockNumber: number;
+    timeStamp: number;
+    // Transaction that emitted the event
+    hash: string;
+    transactionIndex: number;
+    logIndex: number;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
@@ -0,0 +1,26 @@
+export type NftStandard = 'erc721' | 'erc1155';
+
+// A movement of non-fungible (ERC-721) or semi-fungible (ERC-1155) tokens,
+// as listed by Etherscan's tokennfttx / token1155tx or read from the logs
+export interface NftTransfer {
+    blockNumber: number;
+    timeStamp: number;
+    hash: string;
+    from: string;
+    to: string;
+    contractAddress: string;
+    tokenStandard: NftStandard;
+    tokenID: string;
+    // Units of the token moved; always 1 for ERC-721
+    tokenValue: string;
+    tokenName: string;
+    tokenSymbol: string;
+    transactionIndex: number;
+    gas: string;
+    gasPrice: string;
+    gasUsed: string;
+    // Not every provider reports the log position (Etherscan does not)
+    logIndex?: number;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
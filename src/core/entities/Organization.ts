@@ -1,7 +1,37 @@
+// How a contract found by deployment discovery came to the organization
+export interface AddressProvenance {
+    // Organization address that deployed the contract
+    deployer: string;
+    // "transaction" when the deployer sent the contract creation, "create"
+    // when it deployed the contract from its own code, as a factory does
+    method: 'transaction' | 'create';
+    transactionHash: string;
+    blockNumber: number;
+    chainId: number;
+    // Deployments between a registered address and the contract, 1 for a
+    // contract a registered address deployed itself
+    depth: number;
+    discoveredAt: string;
+  }
+
+export interface OrganizationAddress {
+    address: string;
+    // What the address is to the organization, e.g. "treasury" or "vesting"
+    label?: string;
+    // Set for contracts registered by deployment discovery
+    provenance?: AddressProvenance;
+  }
+
 export interface Organization {
+    // Primary address, the one the organization was registered with
     address: string;
+    // Every address collected for the organization, the primary one first
+    addresses?: OrganizationAddress[];
     name: string;
+    // Chain the organization was first analyzed on
     chainId: number;
+    // Every chain the organization holds data for
+    chains?: number[];
     tags?: string[];
     description?: string;
     dateAdded: string;
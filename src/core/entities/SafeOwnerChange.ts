@@ -0,0 +1,18 @@
+// setup lists the initial owners and threshold, the others change one of them
+export type SafeOwnerChangeType = 'setup' | 'added' | 'removed' | 'threshold';
+
+// A change of who controls a Safe multisig, from its events
+export interface SafeOwnerChange {
+    safe: string;
+    type: SafeOwnerChangeType;
+    // The initial owners for setup, the owner added or removed otherwise
+    owners: string[];
+    // Set for setup and threshold
+    threshold?: number;
+    blockNumber: number;
+    timeStamp: number;
+    hash: string;
+    logIndex: number;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
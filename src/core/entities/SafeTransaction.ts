@@ -0,0 +1,26 @@
+export type SafeOperation = 'call' | 'delegatecall';
+
+// A transaction a Safe multisig executed through execTransaction
+export interface SafeTransaction {
+    safe: string;
+    // Outer transaction that called execTransaction
+    hash: string;
+    blockNumber: number;
+    timeStamp: number;
+    // Account that submitted the signed transaction
+    executor: string;
+    // The inner call the owners signed
+    to: string;
+    value: string;
+    data: string;
+    operation: SafeOperation;
+    // Hash the owners signed, from ExecutionSuccess / ExecutionFailure;
+    // absent when the Safe's logs were not collected
+    safeTxHash?: string;
+    success: boolean;
+    // Owners whose signatures authorized the transaction, recovered from
+    // the signatures and the safeTxHash
+    signers: string[];
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
+  }
@@ -13,4 +13,8 @@ export interface TokenTransfer {
     gas: string;
     gasPrice: string;
     gasUsed: string;
+    // Not every provider reports the log position (Etherscan's tokentx does not)
+    logIndex?: number;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
   }
\ No newline at end of file
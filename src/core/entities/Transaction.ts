@@ -7,10 +7,21 @@ export interface Transaction {
     value: string;
     gas: string;
     gasPrice: string;
+    // Empty for records collected before it was stored
+    gasUsed?: string;
+    // EIP-2718 envelope: 0 legacy, 1 access list, 2 EIP-1559, 3 blob
+    txType?: string;
+    // EIP-1559 fee caps and the base fee of the block; empty for legacy
+    // transactions and for providers that do not report them (Etherscan)
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    baseFeePerGas?: string;
     isError: string;
     txreceipt_status: string;
     input: string;
     contractAddress: string;
     methodId: string;
     functionName: string;
+    // Organization address whose collection produced the record, lowercase
+    trackedAddress?: string;
   }
\ No newline at end of file
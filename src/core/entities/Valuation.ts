@@ -0,0 +1,25 @@
+// What a valuation prices: the native value of a normal or internal
+// transaction, a token transfer, or the fee of a transaction
+export type ValuationKind = 'transaction' | 'internal' | 'token' | 'fee';
+
+// USD value of a stored transfer or fee at the price of the UTC day it was
+// made, written by the value command
+export interface Valuation {
+    kind: ValuationKind;
+    // Uniqueness key of the valued record, without its tracked address
+    recordKey: string;
+    hash: string;
+    timeStamp: number;
+    // "native" or the token contract address
+    asset: string;
+    symbol: string;
+    // Whole units of the asset, as an exact decimal string
+    amount: string;
+    // USD price of one unit on the day and the USD value of the amount;
+    // absent when the price source has no price for the asset that day
+    price?: number;
+    usdValue?: number;
+    // Price source the record was valued from, e.g. "csv"
+    source: string;
+    valuedAt: string;
+  }
@@ -1,3 +1,16 @@
 export * from './Transaction';
+export * from './InternalTransaction';
 export * from './Organization';
-export * from './TokenTransfer';
\ No newline at end of file
+export * from './TokenTransfer';
+export * from './NftTransfer';
+export * from './LogEntry';
+export * from './DecodedCall';
+export * from './DecodedEvent';
+export * from './GovernanceProposal';
+export * from './GovernanceVote';
+export * from './SafeTransaction';
+export * from './SafeOwnerChange';
+export * from './BalancePoint';
+export * from './AddressLabel';
+export * from './FundFlowHop';
+export * from './Valuation';
\ No newline at end of file
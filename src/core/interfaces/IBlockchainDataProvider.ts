@@ -1,4 +1,4 @@
-import { Transaction, TokenTransfer } from '../entities';
+import { InternalTransaction, LogEntry, NftStandard, NftTransfer, Transaction, TokenTransfer } from '../entities';
 
 export interface QueryOptions {
     startBlock?: number;
@@ -8,9 +8,30 @@ export interface QueryOptions {
     sort?: 'asc' | 'desc';
 }
 
+export interface LogQueryOptions extends QueryOptions {
+    // Only events with this signature hash
+    topic0?: string;
+}
+
+// Block to pick when none was mined exactly at a timestamp: the last one
+// before it or the first one after it
+export type BlockClosest = 'before' | 'after';
+
 export interface IBlockchainDataProvider {
+    // Most records a single query can page through (page x offset), if capped
+    readonly maxResultWindow?: number;
     getTransactions(address: string, options?: QueryOptions): Promise<Transaction[]>;
-    getInternalTransactions(address: string, options?: QueryOptions): Promise<Transaction[]>;
+    getInternalTransactions(address: string, options?: QueryOptions): Promise<InternalTransaction[]>;
     getTokenTransfers(address: string, options?: QueryOptions): Promise<TokenTransfer[]>;
+    // ERC-721 and ERC-1155 transfers are listed separately, each with its own paging
+    getNftTransfers(address: string, standard: NftStandard, options?: QueryOptions): Promise<NftTransfer[]>;
+    // Events emitted by the contract at the address
+    getLogs(address: string, options?: LogQueryOptions): Promise<LogEntry[]>;
     getBalance(address: string): Promise<string>;
+    // ERC-20 balance of the address, in the token's base units
+    getTokenBalance(address: string, tokenAddress: string): Promise<string>;
+    getCurrentBlock(): Promise<number>;
+    getBlockNumberByTime(timestamp: number, closest: BlockClosest): Promise<number>;
+    // Unix seconds
+    getBlockTimestamp(blockNumber: number): Promise<number>;
 }
\ No newline at end of file
@@ -0,0 +1,4 @@
+export interface IContractAbiProvider {
+    // ABI JSON of a contract with verified source, null when it is not verified
+    getContractAbi(address: string): Promise<string | null>;
+}
@@ -0,0 +1,5 @@
+export interface IContractNameProvider {
+    // Name of a contract with verified source, null for unverified contracts
+    // and accounts without code
+    getContractName(address: string): Promise<string | null>;
+}
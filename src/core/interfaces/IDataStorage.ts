@@ -1,10 +1,128 @@
-import { Organization, Transaction, TokenTransfer } from '../entities';
-import { StorageState } from '../../infrastructure/persistence/FileSystemStorage';
+import {
+    AddressLabel,
+    BalancePoint,
+    DecodedCall,
+    DecodedEvent,
+    FundFlowHop,
+    GovernanceProposal,
+    GovernanceVote,
+    InternalTransaction,
+    LogEntry,
+    NftTransfer,
+    Organization,
+    SafeOwnerChange,
+    SafeTransaction,
+    Transaction,
+    TokenTransfer,
+    Valuation
+} from '../entities';
+import { BlockClosest } from './IBlockchainDataProvider';
 
+// Inclusive range of blocks
+export interface BlockRange {
+    fromBlock: number;
+    toBlock: number;
+}
+
+export interface TransactionTypeState {
+    lastBlock: number;
+    count: number;
+    lastProcessedTimestamp: string;
+    // Block ranges fully collected, per tracked address (lowercase), for
+    // logs collected with an event filter per address and filter (see
+    // getCoverageKey); absent for data collected before coverage was tracked
+    coveredRanges?: Record<string, BlockRange[]>;
+}
+
+// A date given for a run and the block it resolved to
+export interface ResolvedDate {
+    input: string;
+    // Unix seconds
+    timestamp: number;
+    closest: BlockClosest;
+    blockNumber: number;
+    resolvedAt: string;
+}
+
+export interface StorageState {
+    lastProcessedBlock: number;
+    lastProcessedTimestamp: string;
+    totalTransactions: number;
+    transactionTypes: {
+        normal: TransactionTypeState;
+        internal: TransactionTypeState;
+        tokenTransfers: TransactionTypeState;
+        nftTransfers: TransactionTypeState;
+        logs: TransactionTypeState;
+    };
+    // Reused by later runs given the same dates, so they cover the same blocks
+    resolvedDates?: ResolvedDate[];
+}
+
+export type DataType = keyof StorageState['transactionTypes'];
+
+// Number of duplicate records removed per data type
+export type DeduplicationResult = Record<DataType, number>;
+
+/**
+ * Saves are idempotent: records already stored (by tracked address plus the
+ * hash for normal transactions, hash + traceId for internal ones, hash +
+ * logIndex for token transfers and event logs, hash + logIndex + tokenID
+ * for NFT transfers) are skipped, and the number of new records
+ * is returned.
+ *
+ * Decoded calls and events, governance proposals and votes, Safe
+ * transactions and owner changes, balance histories and valuations are
+ * derived from the stored records, so each save replaces the previous
+ * ones. A fund flow trace replaces the previous trace of the same root
+ * address and asset.
+ *
+ * Organizations are merged into their registered version on save, adding
+ * new addresses and chains. Removing one unregisters it; collected data
+ * stays in place.
+ *
+ * Address labels belong to the chain rather than to an organization; a
+ * saved label replaces the one stored for the same address.
+ */
 export interface IDataStorage {
     saveOrganization(organization: Organization): Promise<void>;
+    // Finds the organization tracking the address, primary or not
     getOrganization(address: string): Promise<Organization | null>;
-    saveTransactions(organizationName: string, transactions: Transaction[], type: string): Promise<void>;
-    saveTokenTransfers(organizationName: string, transfers: TokenTransfer[]): Promise<void>;
+    getOrganizationByName(name: string): Promise<Organization | null>;
+    listOrganizations(): Promise<Organization[]>;
+    removeOrganization(name: string): Promise<boolean>;
+    saveTransactions(organizationName: string, transactions: Transaction[]): Promise<number>;
+    saveInternalTransactions(organizationName: string, transactions: InternalTransaction[]): Promise<number>;
+    saveTokenTransfers(organizationName: string, transfers: TokenTransfer[]): Promise<number>;
+    saveNftTransfers(organizationName: string, transfers: NftTransfer[]): Promise<number>;
+    saveLogs(organizationName: string, logs: LogEntry[]): Promise<number>;
+    getTransactions(organizationName: string): Promise<Transaction[]>;
+    getInternalTransactions(organizationName: string): Promise<InternalTransaction[]>;
+    getTokenTransfers(organizationName: string): Promise<TokenTransfer[]>;
+    getNftTransfers(organizationName: string): Promise<NftTransfer[]>;
+    getLogs(organizationName: string): Promise<LogEntry[]>;
+    saveDecodedCalls(organizationName: string, calls: DecodedCall[]): Promise<void>;
+    getDecodedCalls(organizationName: string): Promise<DecodedCall[]>;
+    saveDecodedEvents(organizationName: string, events: DecodedEvent[]): Promise<void>;
+    getDecodedEvents(organizationName: string): Promise<DecodedEvent[]>;
+    saveGovernanceProposals(organizationName: string, proposals: GovernanceProposal[]): Promise<void>;
+    getGovernanceProposals(organizationName: string): Promise<GovernanceProposal[]>;
+    saveGovernanceVotes(organizationName: string, votes: GovernanceVote[]): Promise<void>;
+    getGovernanceVotes(organizationName: string): Promise<GovernanceVote[]>;
+    saveSafeTransactions(organizationName: string, transactions: SafeTransaction[]): Promise<void>;
+    getSafeTransactions(organizationName: string): Promise<SafeTransaction[]>;
+    saveSafeOwnerChanges(organizationName: string, changes: SafeOwnerChange[]): Promise<void>;
+    getSafeOwnerChanges(organizationName: string): Promise<SafeOwnerChange[]>;
+    saveBalanceHistory(organizationName: string, points: BalancePoint[]): Promise<void>;
+    getBalanceHistory(organizationName: string): Promise<BalancePoint[]>;
+    saveFundFlowHops(organizationName: string, root: string, asset: string, hops: FundFlowHop[]): Promise<void>;
+    getFundFlowHops(organizationName: string): Promise<FundFlowHop[]>;
+    saveValuations(organizationName: string, valuations: Valuation[]): Promise<void>;
+    getValuations(organizationName: string): Promise<Valuation[]>;
+    saveAddressLabels(labels: AddressLabel[]): Promise<void>;
+    getAddressLabels(): Promise<AddressLabel[]>;
     getLastProcessedState(name: string): Promise<StorageState | null>;
-}
\ No newline at end of file
+    markRangeCovered(organizationName: string, type: DataType, address: string, range: BlockRange): Promise<void>;
+    saveResolvedDate(organizationName: string, resolved: ResolvedDate): Promise<void>;
+    deduplicate(organizationName: string): Promise<DeduplicationResult>;
+}
@@ -0,0 +1,9 @@
+// Daily USD prices of a chain's native currency and tokens
+export interface IPriceSource {
+    // Name recorded with the values priced from the source, e.g. "csv"
+    readonly name: string;
+    // USD price of one whole unit of the asset ("native" or a lowercase token
+    // contract address) per UTC day (YYYY-MM-DD) between the two times, in
+    // Unix seconds; days the source has no price for are left out
+    getDailyPrices(asset: string, fromTime: number, toTime: number): Promise<Map<string, number>>;
+}
@@ -1,2 +1,5 @@
 export * from './IBlockchainDataProvider';
-export * from './IDataStorage';
\ No newline at end of file
+export * from './IDataStorage';
+export * from './IContractAbiProvider';
+export * from './IContractNameProvider';
+export * from './IPriceSource';
\ No newline at end of file
@@ -0,0 +1,177 @@
+// src/infrastructure/abi/AbiRegistry.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { ethers } from 'ethers';
+import { AbiSource } from '../../core/entities';
+import { IContractAbiProvider } from '../../core/interfaces';
+import { createLogger } from '../logging/logger';
+import { KNOWN_SIGNATURES } from './knownSignatures';
+
+const logger = createLogger('AbiRegistry');
+
+// Contracts found unverified are asked for again after this many ms, as
+// their source may have been verified since
+const UNVERIFIED_RECHECK_INTERVAL = 24 * 60 * 60 * 1000;
+
+export interface ContractAbi {
+  iface: ethers.Interface;
+  source: AbiSource;
+}
+
+// Stored at <cacheDir>/<chainId>/<address>.json
+interface CachedAbi {
+  address: string;
+  fetchedAt: string;
+  // null for a contract without verified source
+  abi: ethers.InterfaceAbi | null;
+}
+
+export interface AbiRegistryOptions {
+  chainId: number;
+  // ABI files named <contract address>.json, holding either the ABI or a
+  // build artifact with an `abi` field, and an optional signatures.txt
+  // with one human-readable fragment per line
+  userDir: string;
+  cacheDir: string;
+  // Unset to use local ABIs only
+  fetcher?: IContractAbiProvider;
+}
+
+function readAbi(content: unknown): ethers.InterfaceAbi | null {
+  if (Array.isArray(content)) {
+    return content;
+  }
+  if (content && typeof content === 'object' && Array.isArray((content as { abi?: unknown }).abi)) {
+    return (content as { abi: ethers.InterfaceAbi }).abi;
+  }
+  return null;
+}
+
+// Looks up the ABI of a contract, in order: a user-supplied file, the cached
+// verified ABI, the explorer. Records of contracts with none of them fall
+// back to the signature table.
+export class AbiRegistry {
+  private readonly contracts = new Map<string, Promise<ContractAbi | null>>();
+  private userFiles?: Promise<Map<string, string>>;
+  private signatures?: Promise<Map<string, ethers.Interface[]>>;
+
+  constructor(private readonly options: AbiRegistryOptions) {}
+
+  getContractAbi(address: string): Promise<ContractAbi | null> {
+    const key = address.toLowerCase();
+    let pending = this.contracts.get(key);
+    if (!pending) {
+      pending = this.loadContractAbi(key);
+      this.contracts.set(key, pending);
+    }
+    return pending;
+  }
+
+  // Signature table entries for a function selector or event topic0
+  async findSignatures(selectorOrTopic: string): Promise<ethers.Interface[]> {
+    if (!this.signatures) {
+      this.signatures = this.loadSignatures();
+    }
+    return (await this.signatures).get(selectorOrTopic.toLowerCase()) ?? [];
+  }
+
+  private getUserFiles(): Promise<Map<string, string>> {
+    if (!this.userFiles) {
+      this.userFiles = (async (): Promise<Map<string, string>> => {
+        const files = new Map<string, string>();
+        if (await fs.pathExists(this.options.userDir)) {
+          for (const file of await fs.readdir(this.options.userDir)) {
+            const name = path.basename(file, '.json');
+            if (file.endsWith('.json') && ethers.isAddress(name)) {
+              files.set(name.toLowerCase(), path.join(this.options.userDir, file));
+            }
+          }
+        }
+        return files;
+      })();
+    }
+    return this.userFiles;
+  }
+
+  private toContractAbi(abi: ethers.InterfaceAbi, source: AbiSource, origin: string): ContractAbi | null {
+    try {
+      return { iface: new ethers.Interface(abi), source };
+    } catch (error) {
+      logger.warn(`Ignoring invalid ABI from ${origin}`, error);
+      return null;
+    }
+  }
+
+  private async loadContractAbi(address: string): Promise<ContractAbi | null> {
+    const userFile = (await this.getUserFiles()).get(address);
+    if (userFile) {
+      const abi = readAbi(await fs.readJSON(userFile));
+      if (abi) {
+        return this.toContractAbi(abi, 'user', userFile);
+      }
+      logger.warn(`${userFile} holds neither an ABI nor an artifact with one`);
+    }
+
+    const cachePath = path.join(this.options.cacheDir, this.options.chainId.toString(), `${address}.json`);
+    if (await fs.pathExists(cachePath)) {
+      const cached: CachedAbi = await fs.readJSON(cachePath);
+      if (cached.abi) {
+        return this.toContractAbi(cached.abi, 'verified', cachePath);
+      }
+      const recheck = Date.parse(cached.fetchedAt) + UNVERIFIED_RECHECK_INTERVAL <= Date.now();
+      if (!recheck || !this.options.fetcher) {
+        return null;
+      }
+    }
+
+    if (!this.options.fetcher) {
+      return null;
+    }
+
+    let abi: ethers.InterfaceAbi | null;
+    try {
+      const json = await this.options.fetcher.getContractAbi(address);
+      abi = json ? JSON.parse(json) : null;
+    } catch (error) {
+      // Not cached, so the next run asks again
+      logger.warn(`Could not fetch the ABI of ${address}`, error);
+      return null;
+    }
+
+    const entry: CachedAbi = { address, fetchedAt: new Date().toISOString(), abi };
+    await fs.ensureDir(path.dirname(cachePath));
+    await fs.writeJSON(cachePath, entry, { spaces: 2 });
+    logger.info(abi ? `Fetched the verified ABI of ${address}` : `${address} has no verified source`);
+
+    return abi ? this.toContractAbi(abi, 'verified', `the explorer for ${address}`) : null;
+  }
+
+  // User signatures come first, so they take precedence
+  private async loadSignatures(): Promise<Map<string, ethers.Interface[]>> {
+    const signatures = new Map<string, ethers.Interface[]>();
+    const userFile = path.join(this.options.userDir, 'signatures.txt');
+    const userLines = await fs.pathExists(userFile) ?
+      (await fs.readFile(userFile, 'utf8')).split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#')) :
+      [];
+
+    for (const line of [...userLines, ...KNOWN_SIGNATURES]) {
+      // Parsed on its own, as Interface drops invalid fragments silently
+      let fragment: ethers.Fragment;
+      try {
+        fragment = ethers.Fragment.from(line);
+      } catch {
+        logger.warn(`Ignoring invalid signature in ${userFile}: ${line}`);
+        continue;
+      }
+
+      const key = fragment instanceof ethers.FunctionFragment ? fragment.selector :
+        fragment instanceof ethers.EventFragment ? fragment.topicHash :
+        undefined;
+      if (key) {
+        signatures.set(key, [...(signatures.get(key) ?? []), new ethers.Interface([fragment])]);
+      }
+    }
+
+    return signatures;
+  }
+}
@@ -0,0 +1,104 @@
+// src/infrastructure/abi/knownSignatures.ts
+
+// Proposal lifecycle and votes of OpenZeppelin Governor and Compound
+// GovernorBravo, which share these events, and GovernorAlpha, whose votes
+// are for or against only
+export const GOVERNOR_EVENTS: string[] = [
+  'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)',
+  'event ProposalQueued(uint256 proposalId, uint256 eta)',
+  'event ProposalExecuted(uint256 proposalId)',
+  'event ProposalCanceled(uint256 proposalId)',
+  'event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)',
+  'event VoteCastWithParams(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason, bytes params)',
+  'event VoteCast(address voter, uint256 proposalId, bool support, uint256 votes)'
+];
+
+export const SAFE_EXEC_TRANSACTION =
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)';
+
+// Owner management and execution results of Safe (Gnosis Safe) multisigs.
+// Safe 1.4.1 indexes the owner of AddedOwner and RemovedOwner, which keeps
+// their topic0, so both layouts are listed.
+export const SAFE_EVENTS: string[] = [
+  'event SafeSetup(address indexed initiator, address[] owners, uint256 threshold, address initializer, address fallbackHandler)',
+  'event AddedOwner(address owner)',
+  'event AddedOwner(address indexed owner)',
+  'event RemovedOwner(address owner)',
+  'event RemovedOwner(address indexed owner)',
+  'event ChangedThreshold(uint256 threshold)',
+  'event ExecutionSuccess(bytes32 txHash, uint256 payment)',
+  'event ExecutionFailure(bytes32 txHash, uint256 payment)'
+];
+
+// Fallback for contracts without a known ABI, matched on the 4-byte
+// selector or the event topic0. Fragments sharing a selector or topic are
+// tried in order, e.g. the ERC-20 and ERC-721 Transfer events, which only
+// differ in what they index.
+export const KNOWN_SIGNATURES: string[] = [
+  // ERC-20
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+
+  // ERC-721
+  'function safeTransferFrom(address from, address to, uint256 tokenId)',
+  'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+  'function setApprovalForAll(address operator, bool approved)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+  'event ApprovalForAll(address indexed owner, address indexed operator, bool approved)',
+
+  // ERC-1155
+  'function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)',
+  'function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)',
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+
+  // Wrapped native tokens
+  'function deposit()',
+  'function withdraw(uint256 amount)',
+  'event Deposit(address indexed account, uint256 amount)',
+  'event Withdrawal(address indexed account, uint256 amount)',
+
+  // Ownership and access control
+  'function transferOwnership(address newOwner)',
+  'function renounceOwnership()',
+  'event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)',
+  'function grantRole(bytes32 role, address account)',
+  'function revokeRole(bytes32 role, address account)',
+  'event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)',
+  'event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)',
+
+  // Proxies
+  'function upgradeTo(address implementation)',
+  'function upgradeToAndCall(address implementation, bytes data)',
+  'event Upgraded(address indexed implementation)',
+  'event AdminChanged(address previousAdmin, address newAdmin)',
+
+  // Governor (OpenZeppelin / Compound Bravo)
+  'function propose(address[] targets, uint256[] values, bytes[] calldatas, string description)',
+  'function queue(uint256 proposalId)',
+  'function execute(uint256 proposalId)',
+  'function cancel(uint256 proposalId)',
+  'function castVote(uint256 proposalId, uint8 support)',
+  'function castVoteWithReason(uint256 proposalId, uint8 support, string reason)',
+  'function delegate(address delegatee)',
+  ...GOVERNOR_EVENTS,
+  'event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate)',
+  'event DelegateVotesChanged(address indexed delegate, uint256 previousVotes, uint256 newVotes)',
+
+  // Gnosis Safe
+  SAFE_EXEC_TRANSACTION,
+  'function addOwnerWithThreshold(address owner, uint256 threshold)',
+  'function removeOwner(address prevOwner, address owner, uint256 threshold)',
+  'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+  'function changeThreshold(uint256 threshold)',
+  ...SAFE_EVENTS,
+  'event SafeReceived(address indexed sender, uint256 value)',
+
+  // Batching
+  'function multicall(bytes[] data)',
+  'function multiSend(bytes transactions)'
+];
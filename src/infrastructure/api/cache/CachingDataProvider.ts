@@ -0,0 +1,172 @@
+// src/infrastructure/api/cache/CachingDataProvider.ts
+import { BlockClosest, IBlockchainDataProvider, LogQueryOptions, QueryOptions } from '../../../core/interfaces';
+import { InternalTransaction, LogEntry, NftStandard, NftTransfer, Transaction, TokenTransfer } from '../../../core/entities';
+import { DataProviderError } from '../../../core/errors';
+import { createLogger } from '../../logging/logger';
+import { CacheRequest, ResponseCache } from './ResponseCache';
+
+const logger = createLogger('CachingDataProvider');
+
+// Raised in offline mode for a request that was never cached; retrying it
+// cannot help
+export class CacheMissError extends DataProviderError {
+  constructor(request: CacheRequest) {
+    super(`Offline mode: no cached response for ${describeRequest(request)}`, request);
+  }
+}
+
+function describeRequest(request: CacheRequest): string {
+  const parts = [`${request.source} ${request.action}`, `chain ${request.chainId}`];
+  if (request.address) parts.push(`address ${request.address}`);
+  if (request.startBlock !== undefined || request.endBlock !== undefined) {
+    parts.push(`blocks ${request.startBlock ?? 0}-${request.endBlock ?? 'latest'}`);
+  }
+  if (request.page !== undefined) parts.push(`page ${request.page}`);
+  if (request.params) parts.push(JSON.stringify(request.params));
+  return parts.join(', ');
+}
+
+export interface CachingOptions {
+  chainId: number;
+  // Provider the responses come from, as responses of different providers differ
+  source: string;
+  // Serve from the cache only, even expired entries, and never call the provider
+  offline?: boolean;
+  // Lifetime in ms of responses that may still change
+  ttl: number;
+  // Blocks this far below the chain head are final, and so are their responses
+  finalityDepth: number;
+}
+
+// Stores the responses of a provider on disk. Responses covering finalized
+// blocks are kept forever; those near the chain head expire after the TTL.
+export class CachingDataProvider implements IBlockchainDataProvider {
+  readonly maxResultWindow?: number;
+
+  constructor(
+    private readonly provider: IBlockchainDataProvider,
+    private readonly cache: ResponseCache,
+    private readonly options: CachingOptions
+  ) {
+    this.maxResultWindow = provider.maxResultWindow;
+  }
+
+  private async cached<T>(
+    request: Omit<CacheRequest, 'chainId' | 'source'>,
+    fetch: () => Promise<T>,
+    isFinal: (response: T) => Promise<boolean>
+  ): Promise<T> {
+    const fullRequest: CacheRequest = { chainId: this.options.chainId, source: this.options.source, ...request };
+    const entry = await this.cache.get<T>(fullRequest);
+
+    if (this.options.offline) {
+      if (!entry) {
+        throw new CacheMissError(fullRequest);
+      }
+      return entry.response;
+    }
+
+    if (entry && !entry.expired) {
+      logger.debug(`Cache hit: ${describeRequest(fullRequest)}`);
+      return entry.response;
+    }
+
+    const response = await fetch();
+    await this.cache.set(fullRequest, response, await isFinal(response) ? undefined : this.options.ttl);
+    return response;
+  }
+
+  // Compared against a head that may be cached itself, which only makes
+  // the check more conservative
+  private async isFinalBlock(blockNumber: number | undefined): Promise<boolean> {
+    if (blockNumber === undefined) {
+      return false;
+    }
+    return blockNumber <= await this.getCurrentBlock() - this.options.finalityDepth;
+  }
+
+  private cachedQuery<T>(
+    action: string,
+    address: string,
+    options: QueryOptions,
+    fetch: () => Promise<T>,
+    params?: Record<string, string | number>
+  ): Promise<T> {
+    return this.cached(
+      {
+        action,
+        address: address.toLowerCase(),
+        startBlock: options.startBlock,
+        endBlock: options.endBlock,
+        page: options.page,
+        offset: options.offset,
+        sort: options.sort,
+        params
+      },
+      fetch,
+      () => this.isFinalBlock(options.endBlock)
+    );
+  }
+
+  getTransactions(address: string, options: QueryOptions = {}): Promise<Transaction[]> {
+    return this.cachedQuery('txlist', address, options, () => this.provider.getTransactions(address, options));
+  }
+
+  getInternalTransactions(address: string, options: QueryOptions = {}): Promise<InternalTransaction[]> {
+    return this.cachedQuery('txlistinternal', address, options, () => this.provider.getInternalTransactions(address, options));
+  }
+
+  getTokenTransfers(address: string, options: QueryOptions = {}): Promise<TokenTransfer[]> {
+    return this.cachedQuery('tokentx', address, options, () => this.provider.getTokenTransfers(address, options));
+  }
+
+  getNftTransfers(address: string, standard: NftStandard, options: QueryOptions = {}): Promise<NftTransfer[]> {
+    return this.cachedQuery(standard === 'erc721' ? 'tokennfttx' : 'token1155tx', address, options,
+      () => this.provider.getNftTransfers(address, standard, options));
+  }
+
+  getLogs(address: string, options: LogQueryOptions = {}): Promise<LogEntry[]> {
+    return this.cachedQuery('getLogs', address, options, () => this.provider.getLogs(address, options),
+      options.topic0 ? { topic0: options.topic0 } : undefined);
+  }
+
+  getBalance(address: string): Promise<string> {
+    return this.cached(
+      { action: 'balance', address: address.toLowerCase() },
+      () => this.provider.getBalance(address),
+      async () => false
+    );
+  }
+
+  getTokenBalance(address: string, tokenAddress: string): Promise<string> {
+    return this.cached(
+      { action: 'tokenbalance', address: address.toLowerCase(), params: { contractAddress: tokenAddress.toLowerCase() } },
+      () => this.provider.getTokenBalance(address, tokenAddress),
+      async () => false
+    );
+  }
+
+  getCurrentBlock(): Promise<number> {
+    return this.cached(
+      { action: 'blockNumber' },
+      () => this.provider.getCurrentBlock(),
+      async () => false
+    );
+  }
+
+  getBlockNumberByTime(timestamp: number, closest: BlockClosest): Promise<number> {
+    return this.cached(
+      { action: 'blockNumberByTime', params: { timestamp, closest } },
+      () => this.provider.getBlockNumberByTime(timestamp, closest),
+      blockNumber => this.isFinalBlock(blockNumber)
+    );
+  }
+
+  getBlockTimestamp(blockNumber: number): Promise<number> {
+    return this.cached(
+      { action: 'blockTimestamp', params: { blockNumber } },
+      () => this.provider.getBlockTimestamp(blockNumber),
+      () => this.isFinalBlock(blockNumber)
+    );
+  }
+}
@@ -0,0 +1,76 @@
+// src/infrastructure/api/cache/ResponseCache.ts
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+
+// What a cached response answers; every field takes part in the key
+export interface CacheRequest {
+  chainId: number;
+  source: string;
+  action: string;
+  address?: string;
+  startBlock?: number;
+  endBlock?: number;
+  page?: number;
+  offset?: number;
+  sort?: string;
+  // Further parameters of the action, e.g. the event filter of a log query
+  params?: Record<string, string | number>;
+}
+
+interface CacheEntry<T> {
+  request: CacheRequest;
+  cachedAt: string;
+  // Unset for responses that can no longer change
+  expiresAt?: string;
+  response: T;
+}
+
+export interface CacheLookup<T> {
+  response: T;
+  expired: boolean;
+}
+
+// Responses stored one JSON file each under
+// <dir>/<chainId>/<source>/<action>/<hash of the request>.json
+export class ResponseCache {
+  constructor(private readonly dir: string) {}
+
+  private getPath(request: CacheRequest): string {
+    const hash = crypto.createHash('sha256')
+      .update(JSON.stringify(request))
+      .digest('hex');
+    return path.join(this.dir, request.chainId.toString(), request.source, request.action, `${hash}.json`);
+  }
+
+  async get<T>(request: CacheRequest): Promise<CacheLookup<T> | null> {
+    const filePath = this.getPath(request);
+    if (!await fs.pathExists(filePath)) {
+      return null;
+    }
+
+    const entry: CacheEntry<T> = await fs.readJSON(filePath);
+    return {
+      response: entry.response,
+      expired: entry.expiresAt !== undefined && Date.parse(entry.expiresAt) <= Date.now()
+    };
+  }
+
+  // ttl in ms; responses stored without one never expire
+  async set<T>(request: CacheRequest, response: T, ttl?: number): Promise<void> {
+    const filePath = this.getPath(request);
+    const entry: CacheEntry<T> = {
+      request,
+      cachedAt: new Date().toISOString(),
+      ...(ttl !== undefined ? { expiresAt: new Date(Date.now() + ttl).toISOString() } : {}),
+      response
+    };
+
+    // Written aside and renamed, so an interrupted run never leaves a
+    // truncated entry behind
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeJSON(tempPath, entry);
+    await fs.move(tempPath, filePath, { overwrite: true });
+  }
+}
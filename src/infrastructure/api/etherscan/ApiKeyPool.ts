@@ -0,0 +1,63 @@
+// src/infrastructure/api/etherscan/ApiKeyPool.ts
+import { createLogger } from '../../logging/logger';
+
+const logger = createLogger('ApiKeyPool');
+
+export function maskApiKey(key: string): string {
+  return `...${key.slice(-4)}`;
+}
+
+// Hands out API keys round-robin. A key that is rate limited `maxStrikes`
+// times in a row is parked for `parkDuration` ms and skipped meanwhile.
+export class ApiKeyPool {
+  private nextIndex = 0;
+  private readonly strikes = new Map<string, number>();
+  private readonly parkedUntil = new Map<string, number>();
+
+  constructor(
+    private readonly keys: string[],
+    private readonly maxStrikes: number = 3,
+    private readonly parkDuration: number = 60000
+  ) {}
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  // Waits for the first key to come back when every key is parked
+  async acquire(): Promise<string> {
+    if (this.keys.length === 0) {
+      throw new Error('At least one Etherscan API key is required');
+    }
+
+    const now = Date.now();
+    for (let i = 0; i < this.keys.length; i++) {
+      const index = (this.nextIndex + i) % this.keys.length;
+      if ((this.parkedUntil.get(this.keys[index]) ?? 0) <= now) {
+        this.nextIndex = (index + 1) % this.keys.length;
+        return this.keys[index];
+      }
+    }
+
+    const wakeAt = Math.min(...this.keys.map(key => this.parkedUntil.get(key) ?? now));
+    logger.warn(`All ${this.keys.length} API keys are parked, waiting ${Math.ceil((wakeAt - now) / 1000)}s`);
+    await new Promise(resolve => setTimeout(resolve, wakeAt - now));
+    return this.acquire();
+  }
+
+  reportRateLimited(key: string): void {
+    const strikes = (this.strikes.get(key) ?? 0) + 1;
+    if (strikes < this.maxStrikes) {
+      this.strikes.set(key, strikes);
+      return;
+    }
+
+    this.strikes.delete(key);
+    this.parkedUntil.set(key, Date.now() + this.parkDuration);
+    logger.warn(`API key ${maskApiKey(key)} parked for ${this.parkDuration / 1000}s after ${strikes} rate limit responses`);
+  }
+
+  reportSuccess(key: string): void {
+    this.strikes.delete(key);
+  }
+}
@@ -1,11 +1,42 @@
 // src/infrastructure/api/etherscan/EtherscanClient.ts
-import axios, { AxiosInstance, AxiosError } from 'axios';
-import { IBlockchainDataProvider, QueryOptions } from '../../../core/interfaces';
-import { Transaction, TokenTransfer } from '../../../core/entities';
+import axios, { AxiosInstance } from 'axios';
+import {
+  BlockClosest,
+  IBlockchainDataProvider,
+  IContractAbiProvider,
+  IContractNameProvider,
+  LogQueryOptions,
+  QueryOptions
+} from '../../../core/interfaces';
+import { InternalTransaction, LogEntry, NftStandard, NftTransfer, Transaction, TokenTransfer } from '../../../core/entities';
+import { ChainConfig } from '../../../config/chains';
 import { createLogger } from '../../logging/logger';
+import { RateLimiter } from '../../utils/RateLimiter';
+import { ApiKeyPool } from './ApiKeyPool';
 
 const logger = createLogger('EtherscanClient');
 
+// getLogs reports numbers as hex quantities, with "0x" for zero
+interface EtherscanLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  timeStamp: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+}
+
+// getsourcecode entry; the source fields are left out
+interface EtherscanSourceCode {
+  ContractName: string;
+}
+
+function hexToNumber(value: string): number {
+  return value === '0x' ? 0 : parseInt(value, 16);
+}
+
 export class EtherscanError extends Error {
   constructor(
     message: string,
@@ -18,21 +49,21 @@ export class EtherscanError extends Error {
   }
 }
 
-export class EtherscanClient implements IBlockchainDataProvider {
+export class EtherscanClient implements IBlockchainDataProvider, IContractAbiProvider, IContractNameProvider {
+  // Etherscan silently stops returning records once page x offset passes 10,000
+  readonly maxResultWindow = 10000;
   private readonly client: AxiosInstance;
-  private lastRequestTime: number = 0;
-  private readonly MIN_REQUEST_INTERVAL = 250; // 4 requests per second max
   private readonly DEFAULT_RECORDS_PER_PAGE = 100;
   private readonly MAX_RETRIES = 3;
   private readonly INITIAL_RETRY_DELAY = 1000;
 
+  // The key pool and rate limiter are shared by every client of the process,
+  // so concurrent jobs and chains spend one request budget
   constructor(
-    private readonly apiKey: string,
-    private readonly network: string = 'mainnet'
+    private readonly apiKeys: ApiKeyPool,
+    private readonly chain: ChainConfig,
+    private readonly rateLimiter: RateLimiter
   ) {
-    if (!apiKey) {
-      throw new Error('Etherscan API key is required');
-    }
 
     this.client = axios.create({
       baseURL: this.getBaseUrl(),
@@ -50,56 +81,49 @@ export class EtherscanClient implements IBlockchainDataProvider {
   }
 
   private getBaseUrl(): string {
-    switch (this.network.toLowerCase()) {
-      case 'mainnet':
-        return 'https://api.etherscan.io/api';
-      case 'goerli':
-        return 'https://api-goerli.etherscan.io/api';
-      case 'sepolia':
-        return 'https://api-sepolia.etherscan.io/api';
-      case 'polygon':
-        return 'https://api.polygonscan.com/api';
-      default:
-        throw new Error(`Unsupported network: ${this.network}`);
+    if (!this.chain.explorerApiUrl) {
+      throw new Error(`Chain ${this.chain.name} has no explorer API, use the rpc provider instead`);
     }
-  }
-
-  private async throttleRequest(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < this.MIN_REQUEST_INTERVAL) {
-      await new Promise(resolve => 
-        setTimeout(resolve, this.MIN_REQUEST_INTERVAL - timeSinceLastRequest)
-      );
-    }
-    
-    this.lastRequestTime = Date.now();
+    return this.chain.explorerApiUrl;
   }
 
   private async makeRequest<T>(params: Record<string, string>, retryCount = 0): Promise<T> {
-    await this.throttleRequest();
-    
+    await this.rateLimiter.acquire();
+    const apiKey = await this.apiKeys.acquire();
+
     try {
       logger.debug('Making request with params:', { ...params, apikey: '***' });
 
       const response = await this.client.get('', {
         params: {
           ...params,
-          apikey: this.apiKey,
+          apikey: apiKey,
         },
       });
 
       if (response.data.status === '0') {
         const errorMessage = response.data.message || response.data.result;
         
-        if (errorMessage.includes('No transactions found')) {
+        if (errorMessage.includes('No transactions found') || errorMessage.includes('No records found')) {
           return [] as unknown as T;
         }
 
-        if (errorMessage === 'NOTOK' || errorMessage.includes('Max rate limit reached')) {
+        // Answered with NOTOK as well, but retrying cannot change it
+        if (String(response.data.result).includes('source code not verified')) {
+          throw new EtherscanError(response.data.result, response.data.status, response.data);
+        }
+
+        // Rate limited responses carry message NOTOK and the reason in result
+        const rateLimited = String(response.data.result).includes('Max rate limit reached') ||
+          errorMessage.includes('Max rate limit reached');
+        if (rateLimited) {
+          this.apiKeys.reportRateLimited(apiKey);
+        }
+
+        if (errorMessage === 'NOTOK' || rateLimited) {
           if (retryCount < this.MAX_RETRIES) {
-            const delay = this.INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
+            // Another key can be tried straight away; a single key has to back off
+            const delay = this.apiKeys.size > 1 ? 0 : this.INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
             logger.warn(`Rate limit reached, retrying in ${delay}ms...`);
             await new Promise(resolve => setTimeout(resolve, delay));
             return this.makeRequest<T>(params, retryCount + 1);
@@ -109,6 +133,7 @@ export class EtherscanClient implements IBlockchainDataProvider {
         throw new EtherscanError(errorMessage, response.data.status, response.data);
       }
 
+      this.apiKeys.reportSuccess(apiKey);
       return response.data.result;
     } catch (error) {
       if (axios.isAxiosError(error)) {
@@ -177,7 +202,7 @@ export class EtherscanClient implements IBlockchainDataProvider {
   async getInternalTransactions(
     address: string,
     options: QueryOptions = {}
-  ): Promise<Transaction[]> {
+  ): Promise<InternalTransaction[]> {
     const params = {
       module: 'account',
       action: 'txlistinternal',
@@ -196,7 +221,7 @@ export class EtherscanClient implements IBlockchainDataProvider {
         page: options.page
       });
 
-      return await this.makeRequest<Transaction[]>(params);
+      return await this.makeRequest<InternalTransaction[]>(params);
     } catch (error) {
       logger.error(`Failed to get internal transactions for address ${address}`, error);
       throw error;
@@ -232,6 +257,120 @@ export class EtherscanClient implements IBlockchainDataProvider {
     }
   }
 
+  async getNftTransfers(
+    address: string,
+    standard: NftStandard,
+    options: QueryOptions = {}
+  ): Promise<NftTransfer[]> {
+    const params = {
+      module: 'account',
+      action: standard === 'erc721' ? 'tokennfttx' : 'token1155tx',
+      address,
+      startblock: (options.startBlock || 0).toString(),
+      endblock: (options.endBlock || 99999999).toString(),
+      page: (options.page || 1).toString(),
+      offset: (options.offset || this.DEFAULT_RECORDS_PER_PAGE).toString(),
+      sort: options.sort || 'asc',
+    };
+
+    try {
+      logger.debug(`Fetching ${standard} transfers for address ${address}`, { 
+        startBlock: options.startBlock,
+        endBlock: options.endBlock,
+        page: options.page
+      });
+
+      // tokennfttx rows carry no quantity, each moves a single token
+      const transfers = await this.makeRequest<Array<Omit<NftTransfer, 'tokenStandard' | 'tokenValue'> & { tokenValue?: string }>>(params);
+      return transfers.map(transfer => ({
+        ...transfer,
+        tokenStandard: standard,
+        tokenValue: transfer.tokenValue ?? '1'
+      }));
+    } catch (error) {
+      logger.error(`Failed to get ${standard} transfers for address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getLogs(
+    address: string,
+    options: LogQueryOptions = {}
+  ): Promise<LogEntry[]> {
+    // getLogs always lists oldest first
+    const params: Record<string, string> = {
+      module: 'logs',
+      action: 'getLogs',
+      address,
+      fromBlock: (options.startBlock || 0).toString(),
+      toBlock: (options.endBlock || 99999999).toString(),
+      page: (options.page || 1).toString(),
+      offset: (options.offset || this.DEFAULT_RECORDS_PER_PAGE).toString(),
+      ...(options.topic0 ? { topic0: options.topic0 } : {})
+    };
+
+    try {
+      logger.debug(`Fetching logs of address ${address}`, { 
+        startBlock: options.startBlock,
+        endBlock: options.endBlock,
+        page: options.page,
+        topic0: options.topic0
+      });
+
+      const logs = await this.makeRequest<EtherscanLog[]>(params);
+      return logs.map(log => ({
+        address: log.address,
+        topics: log.topics,
+        data: log.data,
+        blockNumber: hexToNumber(log.blockNumber),
+        timeStamp: hexToNumber(log.timeStamp),
+        hash: log.transactionHash,
+        transactionIndex: hexToNumber(log.transactionIndex),
+        logIndex: hexToNumber(log.logIndex)
+      }));
+    } catch (error) {
+      logger.error(`Failed to get logs of address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getContractAbi(address: string): Promise<string | null> {
+    const params = {
+      module: 'contract',
+      action: 'getabi',
+      address,
+    };
+
+    try {
+      logger.debug(`Fetching ABI of contract ${address}`);
+      return await this.makeRequest<string>(params);
+    } catch (error) {
+      if (error instanceof EtherscanError && error.message.includes('source code not verified')) {
+        return null;
+      }
+      logger.error(`Failed to get ABI of contract ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getContractName(address: string): Promise<string | null> {
+    const params = {
+      module: 'contract',
+      action: 'getsourcecode',
+      address,
+    };
+
+    try {
+      logger.debug(`Fetching source code of contract ${address}`);
+      const [source] = await this.makeRequest<EtherscanSourceCode[]>(params);
+      // Unverified contracts and accounts come back with an empty name
+      return source?.ContractName || null;
+    } catch (error) {
+      logger.error(`Failed to get source code of contract ${address}`, error);
+      throw error;
+    }
+  }
+
   async getBalance(address: string): Promise<string> {
     const params = {
       module: 'account',
@@ -248,4 +387,75 @@ export class EtherscanClient implements IBlockchainDataProvider {
       throw error;
     }
   }
+
+  async getTokenBalance(address: string, tokenAddress: string): Promise<string> {
+    const params = {
+      module: 'account',
+      action: 'tokenbalance',
+      contractaddress: tokenAddress,
+      address,
+      tag: 'latest',
+    };
+
+    try {
+      logger.debug(`Fetching balance of token ${tokenAddress} for address ${address}`);
+      return await this.makeRequest<string>(params);
+    } catch (error) {
+      logger.error(`Failed to get balance of token ${tokenAddress} for address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getCurrentBlock(): Promise<number> {
+    const params = {
+      module: 'proxy',
+      action: 'eth_blockNumber',
+    };
+
+    try {
+      logger.debug('Fetching current block number');
+      const result = await this.makeRequest<string>(params);
+      return parseInt(result, 16);
+    } catch (error) {
+      logger.error('Failed to get current block number', error);
+      throw error;
+    }
+  }
+
+  async getBlockNumberByTime(timestamp: number, closest: BlockClosest): Promise<number> {
+    const params = {
+      module: 'block',
+      action: 'getblocknobytime',
+      timestamp: timestamp.toString(),
+      closest,
+    };
+
+    try {
+      logger.debug(`Fetching block ${closest} timestamp ${timestamp}`);
+      const result = await this.makeRequest<string>(params);
+      return parseInt(result, 10);
+    } catch (error) {
+      logger.error(`Failed to get block ${closest} timestamp ${timestamp}`, error);
+      throw error;
+    }
+  }
+
+  // The block reward endpoint is the explorer's only one giving a block's
+  // time in its usual response format
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const params = {
+      module: 'block',
+      action: 'getblockreward',
+      blockno: blockNumber.toString(),
+    };
+
+    try {
+      logger.debug(`Fetching timestamp of block ${blockNumber}`);
+      const result = await this.makeRequest<{ timeStamp: string }>(params);
+      return parseInt(result.timeStamp, 10);
+    } catch (error) {
+      logger.error(`Failed to get timestamp of block ${blockNumber}`, error);
+      throw error;
+    }
+  }
 }
\ No newline at end of file
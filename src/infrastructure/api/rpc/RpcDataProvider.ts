@@ -0,0 +1,567 @@
+// src/infrastructure/api/rpc/RpcDataProvider.ts
+import { ethers } from 'ethers';
+import { BlockClosest, IBlockchainDataProvider, LogQueryOptions, QueryOptions } from '../../../core/interfaces';
+import { InternalTransaction, LogEntry, NftStandard, NftTransfer, Transaction, TokenTransfer } from '../../../core/entities';
+import { DataProviderError } from '../../../core/errors';
+import { createLogger } from '../../logging/logger';
+
+const logger = createLogger('RpcDataProvider');
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const TRANSFER_SINGLE_TOPIC = ethers.id('TransferSingle(address,address,address,uint256,uint256)');
+const TRANSFER_BATCH_TOPIC = ethers.id('TransferBatch(address,address,address,uint256[],uint256[])');
+
+const ERC20_METADATA_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)'
+];
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address account) view returns (uint256)'];
+
+interface TransactionInfo {
+  tx: ethers.TransactionResponse | null;
+  receipt: ethers.TransactionReceipt | null;
+}
+
+interface TokenMetadata {
+  name: string;
+  symbol: string;
+  decimals: string;
+}
+
+// Shape of a Parity/OpenEthereum style trace as returned by `trace_filter`
+interface Trace {
+  type: 'call' | 'create' | 'suicide' | 'reward';
+  action: {
+    from?: string;
+    to?: string;
+    value?: string;
+    gas?: string;
+    input?: string;
+    init?: string;
+    address?: string;
+    refundAddress?: string;
+    balance?: string;
+  };
+  result?: {
+    address?: string;
+    gasUsed?: string;
+  } | null;
+  error?: string;
+  blockNumber: number;
+  transactionHash: string;
+  traceAddress: number[];
+}
+
+export class RpcDataProvider implements IBlockchainDataProvider {
+  private readonly provider: ethers.JsonRpcProvider;
+  private readonly DEFAULT_RECORDS_PER_PAGE = 100;
+  private readonly LOG_BLOCK_RANGE = 10000;
+  private readonly MAX_CACHED_RANGES = 16;
+  private readonly blockTimestamps = new Map<number, number>();
+  private readonly tokenMetadata = new Map<string, TokenMetadata>();
+  // Recently scanned ranges by query kind, address and blocks, least
+  // recently used first, so paging through a range does not rescan the same
+  // blocks for every page, even while other addresses are being paged
+  private readonly rangeResults = new Map<string, Promise<unknown[]>>();
+
+  constructor(
+    private readonly rpcUrl: string,
+    private readonly blockConcurrency: number = 10
+  ) {
+    if (!rpcUrl) {
+      throw new Error('RPC URL is required');
+    }
+
+    this.provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+  }
+
+  private async paginate<T>(
+    kind: string,
+    address: string,
+    options: QueryOptions,
+    collect: (startBlock: number, endBlock: number) => Promise<T[]>
+  ): Promise<T[]> {
+    const startBlock = options.startBlock || 0;
+    const endBlock = options.endBlock !== undefined ? options.endBlock : await this.getCurrentBlock();
+    const key = `${kind}:${address.toLowerCase()}:${startBlock}:${endBlock}`;
+
+    // Concurrent pages of the same range share a single scan
+    const pending = this.rangeResults.get(key) ?? collect(startBlock, endBlock);
+    this.rangeResults.delete(key);
+    this.rangeResults.set(key, pending);
+    // A failed scan is retried by the next page rather than replayed
+    pending.catch(() => {
+      if (this.rangeResults.get(key) === pending) {
+        this.rangeResults.delete(key);
+      }
+    });
+    if (this.rangeResults.size > this.MAX_CACHED_RANGES) {
+      this.rangeResults.delete(this.rangeResults.keys().next().value as string);
+    }
+
+    const items = [...await pending] as T[];
+    if (options.sort === 'desc') {
+      items.reverse();
+    }
+
+    const offset = options.offset || this.DEFAULT_RECORDS_PER_PAGE;
+    const page = options.page || 1;
+    return items.slice((page - 1) * offset, page * offset);
+  }
+
+  async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) {
+      throw new DataProviderError(`Block ${blockNumber} not found`);
+    }
+    this.blockTimestamps.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+
+  // Binary search for the first block in [0, latest] matching the predicate,
+  // which must be false up to some block and true from then on; returns
+  // latest + 1 when no block matches
+  private async findFirstBlock(latest: number, matches: (timestamp: number) => boolean): Promise<number> {
+    let low = 0;
+    let high = latest + 1;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (matches(await this.getBlockTimestamp(mid))) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return low;
+  }
+
+  private async getTokenMetadata(tokenAddress: string): Promise<TokenMetadata> {
+    const key = tokenAddress.toLowerCase();
+    const cached = this.tokenMetadata.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    // Non-standard tokens may not implement the optional metadata getters
+    const contract = new ethers.Contract(tokenAddress, ERC20_METADATA_ABI, this.provider);
+    const [name, symbol, decimals] = await Promise.all([
+      contract.name().then(String).catch(() => ''),
+      contract.symbol().then(String).catch(() => ''),
+      contract.decimals().then(String).catch(() => '')
+    ]);
+
+    const metadata = { name, symbol, decimals };
+    this.tokenMetadata.set(key, metadata);
+    return metadata;
+  }
+
+  private async getTransactionInfo(hash: string, cache: Map<string, TransactionInfo>): Promise<TransactionInfo> {
+    let info = cache.get(hash);
+    if (!info) {
+      const [tx, receipt] = await Promise.all([
+        this.provider.getTransaction(hash),
+        this.provider.getTransactionReceipt(hash)
+      ]);
+      info = { tx, receipt };
+      cache.set(hash, info);
+    }
+    return info;
+  }
+
+  private async getLogsChunked(
+    topics: Array<string | string[] | null>,
+    startBlock: number,
+    endBlock: number,
+    address?: string
+  ): Promise<ethers.Log[]> {
+    const logs: ethers.Log[] = [];
+    for (let from = startBlock; from <= endBlock; from += this.LOG_BLOCK_RANGE) {
+      const to = Math.min(from + this.LOG_BLOCK_RANGE - 1, endBlock);
+      logs.push(...await this.provider.getLogs({ address, fromBlock: from, toBlock: to, topics }));
+    }
+    return logs;
+  }
+
+  private async toTransaction(tx: ethers.TransactionResponse, block: ethers.Block): Promise<Transaction> {
+    const receipt = await this.provider.getTransactionReceipt(tx.hash);
+    const status = receipt?.status ?? 1;
+
+    return {
+      hash: tx.hash,
+      blockNumber: tx.blockNumber ?? 0,
+      timeStamp: block.timestamp,
+      from: tx.from,
+      to: tx.to ?? '',
+      value: tx.value.toString(),
+      gas: tx.gasLimit.toString(),
+      gasPrice: (tx.gasPrice ?? 0n).toString(),
+      gasUsed: receipt?.gasUsed.toString() ?? '',
+      txType: tx.type.toString(),
+      maxFeePerGas: tx.maxFeePerGas?.toString() ?? '',
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString() ?? '',
+      baseFeePerGas: block.baseFeePerGas?.toString() ?? '',
+      isError: status === 0 ? '1' : '0',
+      txreceipt_status: status.toString(),
+      input: tx.data,
+      contractAddress: receipt?.contractAddress ?? '',
+      methodId: tx.data.length >= 10 ? tx.data.slice(0, 10) : '0x',
+      functionName: ''
+    };
+  }
+
+  private async scanTransactions(address: string, startBlock: number, endBlock: number): Promise<Transaction[]> {
+    const target = address.toLowerCase();
+    const transactions: Transaction[] = [];
+
+    logger.debug(`Scanning blocks ${startBlock}-${endBlock} for transactions of ${address}`);
+
+    for (let from = startBlock; from <= endBlock; from += this.blockConcurrency) {
+      const to = Math.min(from + this.blockConcurrency - 1, endBlock);
+      const numbers = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+      const blocks = await Promise.all(numbers.map(n => this.provider.getBlock(n, true)));
+
+      const matches: Array<[ethers.TransactionResponse, ethers.Block]> = [];
+      for (const block of blocks) {
+        if (!block) continue;
+        this.blockTimestamps.set(block.number, block.timestamp);
+
+        for (const tx of block.prefetchedTransactions) {
+          if (tx.from.toLowerCase() === target || tx.to?.toLowerCase() === target) {
+            matches.push([tx, block]);
+          }
+        }
+      }
+
+      // Receipts are fetched as many at a time as blocks are
+      for (let i = 0; i < matches.length; i += this.blockConcurrency) {
+        const batch = matches.slice(i, i + this.blockConcurrency);
+        transactions.push(...await Promise.all(batch.map(([tx, block]) => this.toTransaction(tx, block))));
+      }
+    }
+
+    return transactions;
+  }
+
+  private async scanInternalTransactions(address: string, startBlock: number, endBlock: number): Promise<InternalTransaction[]> {
+    const filter = {
+      fromBlock: ethers.toQuantity(startBlock),
+      toBlock: ethers.toQuantity(endBlock)
+    };
+
+    let traces: Trace[];
+    try {
+      const [outgoing, incoming]: Trace[][] = await Promise.all([
+        this.provider.send('trace_filter', [{ ...filter, fromAddress: [address] }]),
+        this.provider.send('trace_filter', [{ ...filter, toAddress: [address] }])
+      ]);
+      traces = [...outgoing, ...incoming];
+    } catch (error) {
+      throw new DataProviderError(
+        'Internal transactions require an RPC endpoint with the trace_filter API (e.g. an Erigon/Reth archive node or anvil)',
+        error
+      );
+    }
+
+    const seen = new Set<string>();
+    const transactions: InternalTransaction[] = [];
+
+    for (const trace of traces.sort((a, b) => a.blockNumber - b.blockNumber)) {
+      // Top-level calls are the normal transactions themselves
+      if (trace.traceAddress.length === 0 || trace.type === 'reward') continue;
+
+      const key = `${trace.transactionHash}:${trace.traceAddress.join('_')}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const { action } = trace;
+      const isSuicide = trace.type === 'suicide';
+      const value = BigInt((isSuicide ? action.balance : action.value) ?? 0);
+
+      // Mirror Etherscan, which only lists value-bearing calls and contract creations
+      if (trace.type === 'call' && value === 0n) continue;
+
+      transactions.push({
+        hash: trace.transactionHash,
+        blockNumber: trace.blockNumber,
+        timeStamp: await this.getBlockTimestamp(trace.blockNumber),
+        traceId: trace.traceAddress.join('_'),
+        type: trace.type,
+        from: (isSuicide ? action.address : action.from) ?? '',
+        to: (isSuicide ? action.refundAddress : action.to) ?? trace.result?.address ?? '',
+        value: value.toString(),
+        contractAddress: trace.type === 'create' ? trace.result?.address ?? '' : '',
+        input: action.input ?? action.init ?? '',
+        gas: BigInt(action.gas ?? 0).toString(),
+        gasUsed: trace.result?.gasUsed ? BigInt(trace.result.gasUsed).toString() : '',
+        isError: trace.error ? '1' : '0',
+        errCode: trace.error ?? ''
+      });
+    }
+
+    return transactions;
+  }
+
+  private async scanTokenTransfers(address: string, startBlock: number, endBlock: number): Promise<TokenTransfer[]> {
+    const padded = ethers.zeroPadValue(address, 32);
+    const [sent, received] = await Promise.all([
+      this.getLogsChunked([TRANSFER_TOPIC, padded], startBlock, endBlock),
+      this.getLogsChunked([TRANSFER_TOPIC, null, padded], startBlock, endBlock)
+    ]);
+
+    // ERC-20 transfers index from/to only; ERC-721 also indexes the token id
+    const logs = new Map<string, ethers.Log>();
+    for (const log of [...sent, ...received]) {
+      if (log.topics.length === 3) {
+        logs.set(`${log.transactionHash}:${log.index}`, log);
+      }
+    }
+
+    const sorted = [...logs.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const txInfos = new Map<string, TransactionInfo>();
+    const transfers: TokenTransfer[] = [];
+
+    for (const log of sorted) {
+      const txInfo = await this.getTransactionInfo(log.transactionHash, txInfos);
+      const token = await this.getTokenMetadata(log.address);
+
+      transfers.push({
+        blockNumber: log.blockNumber,
+        timeStamp: await this.getBlockTimestamp(log.blockNumber),
+        hash: log.transactionHash,
+        from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+        to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+        value: (log.data === '0x' ? 0n : BigInt(log.data)).toString(),
+        contractAddress: log.address,
+        tokenName: token.name,
+        tokenSymbol: token.symbol,
+        tokenDecimal: token.decimals,
+        transactionIndex: log.transactionIndex,
+        gas: txInfo.tx?.gasLimit.toString() ?? '',
+        gasPrice: (txInfo.tx?.gasPrice ?? 0n).toString(),
+        gasUsed: txInfo.receipt?.gasUsed.toString() ?? '',
+        logIndex: log.index
+      });
+    }
+
+    return transfers;
+  }
+
+  private async scanNftTransfers(
+    address: string,
+    standard: NftStandard,
+    startBlock: number,
+    endBlock: number
+  ): Promise<NftTransfer[]> {
+    const padded = ethers.zeroPadValue(address, 32);
+    // ERC-1155 events index the operator ahead of from/to
+    const [sent, received] = standard === 'erc721' ?
+      await Promise.all([
+        this.getLogsChunked([TRANSFER_TOPIC, padded], startBlock, endBlock),
+        this.getLogsChunked([TRANSFER_TOPIC, null, padded], startBlock, endBlock)
+      ]) :
+      await Promise.all([
+        this.getLogsChunked([[TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC], null, padded], startBlock, endBlock),
+        this.getLogsChunked([[TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC], null, null, padded], startBlock, endBlock)
+      ]);
+
+    // ERC-721 transfers share the ERC-20 event but also index the token id
+    const logs = new Map<string, ethers.Log>();
+    for (const log of [...sent, ...received]) {
+      if (standard === 'erc1155' || log.topics.length === 4) {
+        logs.set(`${log.transactionHash}:${log.index}`, log);
+      }
+    }
+
+    const sorted = [...logs.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+    const txInfos = new Map<string, TransactionInfo>();
+    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+    const transfers: NftTransfer[] = [];
+
+    for (const log of sorted) {
+      const addressTopics = standard === 'erc721' ? log.topics.slice(1, 3) : log.topics.slice(2, 4);
+      let moved: Array<[bigint, bigint]>;
+      if (standard === 'erc721') {
+        moved = [[BigInt(log.topics[3]), 1n]];
+      } else if (log.topics[0] === TRANSFER_SINGLE_TOPIC) {
+        const [id, value] = abiCoder.decode(['uint256', 'uint256'], log.data);
+        moved = [[id, value]];
+      } else {
+        const [ids, values] = abiCoder.decode(['uint256[]', 'uint256[]'], log.data);
+        moved = Array.from(ids as bigint[], (id, i) => [id, (values as bigint[])[i]]);
+      }
+
+      const txInfo = await this.getTransactionInfo(log.transactionHash, txInfos);
+      const token = await this.getTokenMetadata(log.address);
+      const timeStamp = await this.getBlockTimestamp(log.blockNumber);
+
+      for (const [tokenID, tokenValue] of moved) {
+        transfers.push({
+          blockNumber: log.blockNumber,
+          timeStamp,
+          hash: log.transactionHash,
+          from: ethers.getAddress(ethers.dataSlice(addressTopics[0], 12)),
+          to: ethers.getAddress(ethers.dataSlice(addressTopics[1], 12)),
+          contractAddress: log.address,
+          tokenStandard: standard,
+          tokenID: tokenID.toString(),
+          tokenValue: tokenValue.toString(),
+          tokenName: token.name,
+          tokenSymbol: token.symbol,
+          transactionIndex: log.transactionIndex,
+          gas: txInfo.tx?.gasLimit.toString() ?? '',
+          gasPrice: (txInfo.tx?.gasPrice ?? 0n).toString(),
+          gasUsed: txInfo.receipt?.gasUsed.toString() ?? '',
+          logIndex: log.index
+        });
+      }
+    }
+
+    return transfers;
+  }
+
+  private async scanLogs(address: string, topic0: string | undefined, startBlock: number, endBlock: number): Promise<LogEntry[]> {
+    const logs = await this.getLogsChunked(topic0 ? [topic0] : [], startBlock, endBlock, address);
+    const entries: LogEntry[] = [];
+
+    for (const log of logs) {
+      entries.push({
+        address: log.address,
+        topics: [...log.topics],
+        data: log.data,
+        blockNumber: log.blockNumber,
+        timeStamp: await this.getBlockTimestamp(log.blockNumber),
+        hash: log.transactionHash,
+        transactionIndex: log.transactionIndex,
+        logIndex: log.index
+      });
+    }
+
+    return entries;
+  }
+
+  async getTransactions(
+    address: string,
+    options: QueryOptions = {}
+  ): Promise<Transaction[]> {
+    try {
+      return await this.paginate('txlist', address, options,
+        (start, end) => this.scanTransactions(address, start, end));
+    } catch (error) {
+      logger.error(`Failed to get transactions for address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getInternalTransactions(
+    address: string,
+    options: QueryOptions = {}
+  ): Promise<InternalTransaction[]> {
+    try {
+      return await this.paginate('txlistinternal', address, options,
+        (start, end) => this.scanInternalTransactions(address, start, end));
+    } catch (error) {
+      logger.error(`Failed to get internal transactions for address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getTokenTransfers(
+    address: string,
+    options: QueryOptions = {}
+  ): Promise<TokenTransfer[]> {
+    try {
+      return await this.paginate('tokentx', address, options,
+        (start, end) => this.scanTokenTransfers(address, start, end));
+    } catch (error) {
+      logger.error(`Failed to get token transfers for address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getNftTransfers(
+    address: string,
+    standard: NftStandard,
+    options: QueryOptions = {}
+  ): Promise<NftTransfer[]> {
+    try {
+      return await this.paginate(standard === 'erc721' ? 'tokennfttx' : 'token1155tx', address, options,
+        (start, end) => this.scanNftTransfers(address, standard, start, end));
+    } catch (error) {
+      logger.error(`Failed to get ${standard} transfers for address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getLogs(
+    address: string,
+    options: LogQueryOptions = {}
+  ): Promise<LogEntry[]> {
+    try {
+      return await this.paginate(`logs:${options.topic0 ?? ''}`, address, options,
+        (start, end) => this.scanLogs(address, options.topic0, start, end));
+    } catch (error) {
+      logger.error(`Failed to get logs of address ${address}`, error);
+      throw error;
+    }
+  }
+
+  async getBalance(address: string): Promise<string> {
+    try {
+      logger.debug(`Fetching balance for address ${address}`);
+      return (await this.provider.getBalance(address)).toString();
+    } catch (error) {
+      logger.error(`Failed to get balance for address ${address}`, error);
+      throw new DataProviderError(`Failed to get balance for address ${address}`, error);
+    }
+  }
+
+  async getTokenBalance(address: string, tokenAddress: string): Promise<string> {
+    try {
+      logger.debug(`Fetching balance of token ${tokenAddress} for address ${address}`);
+      const contract = new ethers.Contract(tokenAddress, ERC20_BALANCE_ABI, this.provider);
+      return (await contract.balanceOf(address)).toString();
+    } catch (error) {
+      logger.error(`Failed to get balance of token ${tokenAddress} for address ${address}`, error);
+      throw new DataProviderError(`Failed to get balance of token ${tokenAddress} for address ${address}`, error);
+    }
+  }
+
+  async getCurrentBlock(): Promise<number> {
+    try {
+      return await this.provider.getBlockNumber();
+    } catch (error) {
+      logger.error('Failed to get current block number', error);
+      throw new DataProviderError(`Failed to reach RPC endpoint ${this.rpcUrl}`, error);
+    }
+  }
+
+  async getBlockNumberByTime(timestamp: number, closest: BlockClosest): Promise<number> {
+    try {
+      const latest = await this.provider.getBlockNumber();
+
+      // Several blocks may share a timestamp: 'after' takes the first of
+      // them and 'before' the last
+      const block = closest === 'after' ?
+        await this.findFirstBlock(latest, blockTime => blockTime >= timestamp) :
+        await this.findFirstBlock(latest, blockTime => blockTime > timestamp) - 1;
+
+      if (block < 0 || block > latest) {
+        throw new DataProviderError(`No block ${closest} timestamp ${timestamp}`);
+      }
+      return block;
+    } catch (error) {
+      if (error instanceof DataProviderError) {
+        throw error;
+      }
+      logger.error(`Failed to get block ${closest} timestamp ${timestamp}`, error);
+      throw new DataProviderError(`Failed to get block ${closest} timestamp ${timestamp}`, error);
+    }
+  }
+}
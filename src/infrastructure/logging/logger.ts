@@ -17,8 +17,9 @@ export const logger = winston.createLogger({
   level: config.logging.level,
   format: logFormat,
   transports: [
-    // Console transport
+    // Console transport, on stderr so command output on stdout can be piped
     new winston.transports.Console({
+      stderrLevels: ['error', 'warn', 'info', 'debug'],
       format: winston.format.combine(
         winston.format.colorize(),
         logFormat
@@ -2,42 +2,884 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { createObjectCsvWriter } from 'csv-writer';
-import { IDataStorage } from '../../core/interfaces/IDataStorage';
-import { Organization, Transaction, TokenTransfer } from '../../core/entities';
+import {
+  BlockRange,
+  DataType,
+  DeduplicationResult,
+  IDataStorage,
+  ResolvedDate,
+  StorageState
+} from '../../core/interfaces/IDataStorage';
+import {
+  AddressLabel,
+  BalancePoint,
+  DecodedCall,
+  DecodedEvent,
+  FundFlowHop,
+  GovernanceProposal,
+  GovernanceVote,
+  InternalTransaction,
+  LabelCategory,
+  LabelSource,
+  LogEntry,
+  NftTransfer,
+  Organization,
+  SafeOwnerChange,
+  SafeTransaction,
+  Transaction,
+  TokenTransfer,
+  Valuation,
+  ValuationKind
+} from '../../core/entities';
 import { createLogger } from '../logging/logger';
+import { CsvColumn, readCsvHeader, readCsvRecords } from './csv';
+import { OrganizationRegistry } from './OrganizationRegistry';
+import { getInternalTransactionKey, getLogKey, getNftTransferKey, getTokenTransferKey, getTransactionKey } from '../../utils/recordKeys';
+import { mergeRanges } from '../../utils/blockRanges';
 
 const logger = createLogger('FileSystemStorage');
 
-export interface StorageState {
-  lastProcessedBlock: number;
-  lastProcessedTimestamp: string;
-  totalTransactions: number;
-  transactionTypes: {
-    normal: {
-      lastBlock: number;
-      count: number;
-      lastProcessedTimestamp: string;
-    };
-    internal: {
-      lastBlock: number;
-      count: number;
-      lastProcessedTimestamp: string;
-    };
-    tokenTransfers: {
-      lastBlock: number;
-      count: number;
-      lastProcessedTimestamp: string;
-    };
+export const TRANSACTION_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'hash', title: 'Hash' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'from', title: 'From' },
+  { id: 'to', title: 'To' },
+  { id: 'value', title: 'Value' },
+  { id: 'gas', title: 'Gas' },
+  { id: 'gasPrice', title: 'Gas Price' },
+  { id: 'gasUsed', title: 'Gas Used' },
+  { id: 'txType', title: 'Type' },
+  { id: 'maxFeePerGas', title: 'Max Fee Per Gas' },
+  { id: 'maxPriorityFeePerGas', title: 'Max Priority Fee Per Gas' },
+  { id: 'baseFeePerGas', title: 'Base Fee Per Gas' },
+  { id: 'isError', title: 'Is Error' },
+  { id: 'txreceipt_status', title: 'Receipt Status' },
+  { id: 'input', title: 'Input Data' },
+  { id: 'contractAddress', title: 'Contract Address' },
+  { id: 'methodId', title: 'Method ID' },
+  { id: 'functionName', title: 'Function Name' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+// Files written before internal transactions had their own columns used the
+// normal transaction header, which the legacy titles map back
+export const INTERNAL_TRANSACTION_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'hash', title: 'Parent Transaction Hash', legacyTitles: ['Hash'] },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'traceId', title: 'Trace ID' },
+  { id: 'type', title: 'Type' },
+  { id: 'from', title: 'From' },
+  { id: 'to', title: 'To' },
+  { id: 'value', title: 'Value' },
+  { id: 'contractAddress', title: 'Contract Address' },
+  { id: 'input', title: 'Input Data' },
+  { id: 'gas', title: 'Gas' },
+  { id: 'gasUsed', title: 'Gas Used' },
+  { id: 'isError', title: 'Is Error' },
+  { id: 'errCode', title: 'Error Code' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+export const TOKEN_TRANSFER_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'hash', title: 'Hash' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'from', title: 'From' },
+  { id: 'to', title: 'To' },
+  { id: 'value', title: 'Value' },
+  { id: 'contractAddress', title: 'Token Contract' },
+  { id: 'tokenName', title: 'Token Name' },
+  { id: 'tokenSymbol', title: 'Token Symbol' },
+  { id: 'tokenDecimal', title: 'Token Decimals' },
+  { id: 'transactionIndex', title: 'Transaction Index' },
+  { id: 'gas', title: 'Gas' },
+  { id: 'gasPrice', title: 'Gas Price' },
+  { id: 'gasUsed', title: 'Gas Used' },
+  { id: 'logIndex', title: 'Log Index' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+export const NFT_TRANSFER_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'hash', title: 'Hash' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'from', title: 'From' },
+  { id: 'to', title: 'To' },
+  { id: 'contractAddress', title: 'Token Contract' },
+  { id: 'tokenStandard', title: 'Token Standard' },
+  { id: 'tokenID', title: 'Token ID' },
+  { id: 'tokenValue', title: 'Quantity' },
+  { id: 'tokenName', title: 'Token Name' },
+  { id: 'tokenSymbol', title: 'Token Symbol' },
+  { id: 'transactionIndex', title: 'Transaction Index' },
+  { id: 'gas', title: 'Gas' },
+  { id: 'gasPrice', title: 'Gas Price' },
+  { id: 'gasUsed', title: 'Gas Used' },
+  { id: 'logIndex', title: 'Log Index' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+// Topics get a column each; events have at most four
+export const LOG_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'address', title: 'Contract Address' },
+  { id: 'topic0', title: 'Topic 0' },
+  { id: 'topic1', title: 'Topic 1' },
+  { id: 'topic2', title: 'Topic 2' },
+  { id: 'topic3', title: 'Topic 3' },
+  { id: 'data', title: 'Data' },
+  { id: 'transactionIndex', title: 'Transaction Index' },
+  { id: 'logIndex', title: 'Log Index' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+// Arguments are stored as a JSON object keyed by parameter name
+export const DECODED_CALL_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'contractAddress', title: 'Contract Address' },
+  { id: 'selector', title: 'Selector' },
+  { id: 'functionName', title: 'Function' },
+  { id: 'signature', title: 'Signature' },
+  { id: 'args', title: 'Arguments' },
+  { id: 'abiSource', title: 'ABI Source' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+export const DECODED_EVENT_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'logIndex', title: 'Log Index' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'address', title: 'Contract Address' },
+  { id: 'topic0', title: 'Topic 0' },
+  { id: 'eventName', title: 'Event' },
+  { id: 'signature', title: 'Signature' },
+  { id: 'args', title: 'Arguments' },
+  { id: 'abiSource', title: 'ABI Source' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+// Actions are stored as a JSON array of { target, value, signature, calldata }
+export const GOVERNANCE_PROPOSAL_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'governor', title: 'Governor' },
+  { id: 'proposalId', title: 'Proposal ID' },
+  { id: 'proposer', title: 'Proposer' },
+  { id: 'status', title: 'Status' },
+  { id: 'forVotes', title: 'For Votes' },
+  { id: 'againstVotes', title: 'Against Votes' },
+  { id: 'abstainVotes', title: 'Abstain Votes' },
+  { id: 'voterCount', title: 'Voters' },
+  { id: 'voteStart', title: 'Vote Start' },
+  { id: 'voteEnd', title: 'Vote End' },
+  { id: 'createdBlock', title: 'Created Block' },
+  { id: 'createdAt', title: 'Created At' },
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'queuedBlock', title: 'Queued Block' },
+  { id: 'eta', title: 'ETA' },
+  { id: 'executedBlock', title: 'Executed Block' },
+  { id: 'canceledBlock', title: 'Canceled Block' },
+  { id: 'actions', title: 'Actions' },
+  { id: 'description', title: 'Description' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+export const GOVERNANCE_VOTE_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'governor', title: 'Governor' },
+  { id: 'proposalId', title: 'Proposal ID' },
+  { id: 'voter', title: 'Voter' },
+  { id: 'support', title: 'Support' },
+  { id: 'weight', title: 'Weight' },
+  { id: 'reason', title: 'Reason' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'logIndex', title: 'Log Index' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+// Signers are stored as a JSON array
+export const SAFE_TRANSACTION_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'safe', title: 'Safe' },
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'executor', title: 'Executor' },
+  { id: 'to', title: 'To' },
+  { id: 'value', title: 'Value' },
+  { id: 'data', title: 'Data' },
+  { id: 'operation', title: 'Operation' },
+  { id: 'safeTxHash', title: 'Safe Tx Hash' },
+  { id: 'success', title: 'Success' },
+  { id: 'signers', title: 'Signers' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+// Owners are stored as a JSON array
+export const SAFE_OWNER_CHANGE_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'safe', title: 'Safe' },
+  { id: 'type', title: 'Change' },
+  { id: 'owners', title: 'Owners' },
+  { id: 'threshold', title: 'Threshold' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'logIndex', title: 'Log Index' },
+  { id: 'trackedAddress', title: 'Tracked Address' }
+];
+
+export const BALANCE_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'address', title: 'Address' },
+  { id: 'asset', title: 'Asset' },
+  { id: 'symbol', title: 'Symbol' },
+  { id: 'decimals', title: 'Decimals' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'change', title: 'Change' },
+  { id: 'balance', title: 'Balance' }
+];
+
+export const FUND_FLOW_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'root', title: 'Root' },
+  { id: 'asset', title: 'Asset' },
+  { id: 'symbol', title: 'Symbol' },
+  { id: 'decimals', title: 'Decimals' },
+  { id: 'depth', title: 'Depth' },
+  { id: 'from', title: 'From' },
+  { id: 'to', title: 'To' },
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'blockNumber', title: 'Block Number' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'value', title: 'Value' },
+  { id: 'attributed', title: 'Attributed' },
+  { id: 'terminal', title: 'Terminal' },
+  { id: 'tracedAt', title: 'Traced At' }
+];
+
+export const VALUATION_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'kind', title: 'Kind' },
+  { id: 'recordKey', title: 'Record Key' },
+  { id: 'hash', title: 'Transaction Hash' },
+  { id: 'timeStamp', title: 'Timestamp' },
+  { id: 'asset', title: 'Asset' },
+  { id: 'symbol', title: 'Symbol' },
+  { id: 'amount', title: 'Amount' },
+  { id: 'price', title: 'Price (USD)' },
+  { id: 'usdValue', title: 'Value (USD)' },
+  { id: 'source', title: 'Source' },
+  { id: 'valuedAt', title: 'Valued At' }
+];
+
+export const LABEL_CSV_COLUMNS: CsvColumn[] = [
+  { id: 'address', title: 'Address' },
+  { id: 'name', title: 'Name' },
+  { id: 'category', title: 'Category' },
+  { id: 'source', title: 'Source' },
+  { id: 'updatedAt', title: 'Updated At' }
+];
+
+function createInitialState(): StorageState {
+  const now = new Date().toISOString();
+  return {
+    lastProcessedBlock: 0,
+    lastProcessedTimestamp: now,
+    totalTransactions: 0,
+    transactionTypes: {
+      normal: { lastBlock: 0, count: 0, lastProcessedTimestamp: now, coveredRanges: {} },
+      internal: { lastBlock: 0, count: 0, lastProcessedTimestamp: now, coveredRanges: {} },
+      tokenTransfers: { lastBlock: 0, count: 0, lastProcessedTimestamp: now, coveredRanges: {} },
+      nftTransfers: { lastBlock: 0, count: 0, lastProcessedTimestamp: now, coveredRanges: {} },
+      logs: { lastBlock: 0, count: 0, lastProcessedTimestamp: now, coveredRanges: {} }
+    }
+  };
+}
+
+// Brings state files written by older versions up to date. Coverage recorded
+// before organizations had several addresses is a plain list of ranges, which
+// belongs to the primary address; data types added since are missing
+function normalizeState(state: StorageState, primaryAddress?: string): StorageState {
+  state.transactionTypes = { ...createInitialState().transactionTypes, ...state.transactionTypes };
+  for (const typeState of Object.values(state.transactionTypes)) {
+    const ranges: unknown = typeState.coveredRanges;
+    if (Array.isArray(ranges)) {
+      typeState.coveredRanges = primaryAddress && ranges.length > 0 ?
+        { [primaryAddress.toLowerCase()]: ranges } :
+        {};
+    }
+  }
+  return state;
+}
+
+// CSV files store ISO timestamps; entities carry unix seconds
+function toUnixSeconds(timestamp: string): number {
+  return timestamp ? Math.floor(new Date(timestamp).getTime() / 1000) : 0;
+}
+
+function toTransactionRow(tx: Transaction): Record<string, string> {
+  return {
+    hash: tx.hash || '',
+    blockNumber: tx.blockNumber?.toString() || '',
+    timeStamp: tx.timeStamp ? new Date(Number(tx.timeStamp) * 1000).toISOString() : '',
+    from: tx.from || '',
+    to: tx.to || '',
+    value: tx.value?.toString() || '0',
+    gas: tx.gas?.toString() || '0',
+    gasPrice: tx.gasPrice?.toString() || '0',
+    gasUsed: tx.gasUsed?.toString() || '',
+    txType: tx.txType ?? '',
+    maxFeePerGas: tx.maxFeePerGas ?? '',
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? '',
+    baseFeePerGas: tx.baseFeePerGas ?? '',
+    isError: tx.isError?.toString() || '0',
+    txreceipt_status: tx.txreceipt_status?.toString() || '',
+    input: tx.input || '',
+    contractAddress: tx.contractAddress || '',
+    methodId: tx.methodId || '',
+    functionName: tx.functionName || '',
+    trackedAddress: tx.trackedAddress || ''
+  };
+}
+
+function fromTransactionRow(record: Record<string, string>): Transaction {
+  return {
+    hash: record.hash,
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    from: record.from,
+    to: record.to,
+    value: record.value,
+    gas: record.gas,
+    gasPrice: record.gasPrice,
+    gasUsed: record.gasUsed,
+    txType: record.txType,
+    maxFeePerGas: record.maxFeePerGas,
+    maxPriorityFeePerGas: record.maxPriorityFeePerGas,
+    baseFeePerGas: record.baseFeePerGas,
+    isError: record.isError,
+    txreceipt_status: record.txreceipt_status,
+    input: record.input,
+    contractAddress: record.contractAddress,
+    methodId: record.methodId,
+    functionName: record.functionName,
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toInternalTransactionRow(tx: InternalTransaction): Record<string, string> {
+  return {
+    hash: tx.hash || '',
+    blockNumber: tx.blockNumber?.toString() || '',
+    timeStamp: tx.timeStamp ? new Date(Number(tx.timeStamp) * 1000).toISOString() : '',
+    traceId: tx.traceId || '',
+    type: tx.type || '',
+    from: tx.from || '',
+    to: tx.to || '',
+    value: tx.value?.toString() || '0',
+    contractAddress: tx.contractAddress || '',
+    input: tx.input || '',
+    gas: tx.gas?.toString() || '0',
+    gasUsed: tx.gasUsed?.toString() || '',
+    isError: tx.isError?.toString() || '0',
+    errCode: tx.errCode || '',
+    trackedAddress: tx.trackedAddress || ''
+  };
+}
+
+function fromInternalTransactionRow(record: Record<string, string>): InternalTransaction {
+  return {
+    hash: record.hash,
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    ...(record.traceId ? { traceId: record.traceId } : {}),
+    type: record.type,
+    from: record.from,
+    to: record.to,
+    value: record.value,
+    contractAddress: record.contractAddress,
+    input: record.input,
+    gas: record.gas,
+    gasUsed: record.gasUsed,
+    isError: record.isError,
+    errCode: record.errCode,
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toTokenTransferRow(transfer: TokenTransfer): Record<string, string> {
+  return {
+    hash: transfer.hash,
+    blockNumber: transfer.blockNumber.toString(),
+    timeStamp: new Date(Number(transfer.timeStamp) * 1000).toISOString(),
+    from: transfer.from,
+    to: transfer.to,
+    value: transfer.value.toString(),
+    contractAddress: transfer.contractAddress,
+    tokenName: transfer.tokenName,
+    tokenSymbol: transfer.tokenSymbol,
+    tokenDecimal: transfer.tokenDecimal,
+    transactionIndex: transfer.transactionIndex?.toString() ?? '',
+    gas: transfer.gas?.toString() ?? '',
+    gasPrice: transfer.gasPrice?.toString() ?? '',
+    gasUsed: transfer.gasUsed?.toString() ?? '',
+    logIndex: transfer.logIndex?.toString() ?? '',
+    trackedAddress: transfer.trackedAddress ?? ''
+  };
+}
+
+function fromTokenTransferRow(record: Record<string, string>): TokenTransfer {
+  return {
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    hash: record.hash,
+    from: record.from,
+    to: record.to,
+    value: record.value,
+    contractAddress: record.contractAddress,
+    tokenName: record.tokenName,
+    tokenSymbol: record.tokenSymbol,
+    tokenDecimal: record.tokenDecimal,
+    transactionIndex: Number(record.transactionIndex),
+    gas: record.gas,
+    gasPrice: record.gasPrice,
+    gasUsed: record.gasUsed,
+    ...(record.logIndex !== '' ? { logIndex: Number(record.logIndex) } : {}),
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toNftTransferRow(transfer: NftTransfer): Record<string, string> {
+  return {
+    hash: transfer.hash,
+    blockNumber: transfer.blockNumber.toString(),
+    timeStamp: new Date(Number(transfer.timeStamp) * 1000).toISOString(),
+    from: transfer.from,
+    to: transfer.to,
+    contractAddress: transfer.contractAddress,
+    tokenStandard: transfer.tokenStandard,
+    tokenID: transfer.tokenID,
+    tokenValue: transfer.tokenValue,
+    tokenName: transfer.tokenName,
+    tokenSymbol: transfer.tokenSymbol,
+    transactionIndex: transfer.transactionIndex?.toString() ?? '',
+    gas: transfer.gas?.toString() ?? '',
+    gasPrice: transfer.gasPrice?.toString() ?? '',
+    gasUsed: transfer.gasUsed?.toString() ?? '',
+    logIndex: transfer.logIndex?.toString() ?? '',
+    trackedAddress: transfer.trackedAddress ?? ''
+  };
+}
+
+function fromNftTransferRow(record: Record<string, string>): NftTransfer {
+  return {
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    hash: record.hash,
+    from: record.from,
+    to: record.to,
+    contractAddress: record.contractAddress,
+    tokenStandard: record.tokenStandard === 'erc1155' ? 'erc1155' : 'erc721',
+    tokenID: record.tokenID,
+    tokenValue: record.tokenValue,
+    tokenName: record.tokenName,
+    tokenSymbol: record.tokenSymbol,
+    transactionIndex: Number(record.transactionIndex),
+    gas: record.gas,
+    gasPrice: record.gasPrice,
+    gasUsed: record.gasUsed,
+    ...(record.logIndex !== '' ? { logIndex: Number(record.logIndex) } : {}),
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toLogRow(log: LogEntry): Record<string, string> {
+  return {
+    hash: log.hash,
+    blockNumber: log.blockNumber.toString(),
+    timeStamp: new Date(Number(log.timeStamp) * 1000).toISOString(),
+    address: log.address,
+    topic0: log.topics[0] ?? '',
+    topic1: log.topics[1] ?? '',
+    topic2: log.topics[2] ?? '',
+    topic3: log.topics[3] ?? '',
+    data: log.data,
+    transactionIndex: log.transactionIndex.toString(),
+    logIndex: log.logIndex.toString(),
+    trackedAddress: log.trackedAddress ?? ''
+  };
+}
+
+function fromLogRow(record: Record<string, string>): LogEntry {
+  return {
+    address: record.address,
+    topics: [record.topic0, record.topic1, record.topic2, record.topic3].filter(topic => topic !== ''),
+    data: record.data,
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    hash: record.hash,
+    transactionIndex: Number(record.transactionIndex),
+    logIndex: Number(record.logIndex),
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toDecodedCallRow(call: DecodedCall): Record<string, string> {
+  return {
+    hash: call.hash,
+    blockNumber: call.blockNumber.toString(),
+    contractAddress: call.contractAddress,
+    selector: call.selector,
+    functionName: call.functionName,
+    signature: call.signature,
+    args: JSON.stringify(call.args),
+    abiSource: call.abiSource,
+    trackedAddress: call.trackedAddress ?? ''
+  };
+}
+
+function fromDecodedCallRow(record: Record<string, string>): DecodedCall {
+  return {
+    hash: record.hash,
+    blockNumber: Number(record.blockNumber),
+    contractAddress: record.contractAddress,
+    selector: record.selector,
+    functionName: record.functionName,
+    signature: record.signature,
+    args: JSON.parse(record.args || '{}'),
+    abiSource: record.abiSource as DecodedCall['abiSource'],
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toDecodedEventRow(event: DecodedEvent): Record<string, string> {
+  return {
+    hash: event.hash,
+    logIndex: event.logIndex.toString(),
+    blockNumber: event.blockNumber.toString(),
+    address: event.address,
+    topic0: event.topic0,
+    eventName: event.eventName,
+    signature: event.signature,
+    args: JSON.stringify(event.args),
+    abiSource: event.abiSource,
+    trackedAddress: event.trackedAddress ?? ''
+  };
+}
+
+function fromDecodedEventRow(record: Record<string, string>): DecodedEvent {
+  return {
+    hash: record.hash,
+    logIndex: Number(record.logIndex),
+    blockNumber: Number(record.blockNumber),
+    address: record.address,
+    topic0: record.topic0,
+    eventName: record.eventName,
+    signature: record.signature,
+    args: JSON.parse(record.args || '{}'),
+    abiSource: record.abiSource as DecodedEvent['abiSource'],
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toOptionalNumber(value: string): number | undefined {
+  return value !== '' ? Number(value) : undefined;
+}
+
+function toGovernanceProposalRow(proposal: GovernanceProposal): Record<string, string> {
+  return {
+    governor: proposal.governor,
+    proposalId: proposal.proposalId,
+    proposer: proposal.proposer,
+    status: proposal.status,
+    forVotes: proposal.forVotes,
+    againstVotes: proposal.againstVotes,
+    abstainVotes: proposal.abstainVotes,
+    voterCount: proposal.voterCount.toString(),
+    voteStart: proposal.voteStart,
+    voteEnd: proposal.voteEnd,
+    createdBlock: proposal.createdBlock.toString(),
+    createdAt: new Date(proposal.createdAt * 1000).toISOString(),
+    hash: proposal.hash,
+    queuedBlock: proposal.queuedBlock?.toString() ?? '',
+    eta: proposal.eta ?? '',
+    executedBlock: proposal.executedBlock?.toString() ?? '',
+    canceledBlock: proposal.canceledBlock?.toString() ?? '',
+    actions: JSON.stringify(proposal.actions),
+    description: proposal.description,
+    trackedAddress: proposal.trackedAddress ?? ''
+  };
+}
+
+function fromGovernanceProposalRow(record: Record<string, string>): GovernanceProposal {
+  const queuedBlock = toOptionalNumber(record.queuedBlock);
+  const executedBlock = toOptionalNumber(record.executedBlock);
+  const canceledBlock = toOptionalNumber(record.canceledBlock);
+  return {
+    governor: record.governor,
+    proposalId: record.proposalId,
+    proposer: record.proposer,
+    description: record.description,
+    actions: JSON.parse(record.actions || '[]'),
+    voteStart: record.voteStart,
+    voteEnd: record.voteEnd,
+    createdBlock: Number(record.createdBlock),
+    createdAt: toUnixSeconds(record.createdAt),
+    hash: record.hash,
+    forVotes: record.forVotes,
+    againstVotes: record.againstVotes,
+    abstainVotes: record.abstainVotes,
+    voterCount: Number(record.voterCount),
+    status: record.status as GovernanceProposal['status'],
+    ...(queuedBlock !== undefined ? { queuedBlock } : {}),
+    ...(record.eta ? { eta: record.eta } : {}),
+    ...(executedBlock !== undefined ? { executedBlock } : {}),
+    ...(canceledBlock !== undefined ? { canceledBlock } : {}),
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toGovernanceVoteRow(vote: GovernanceVote): Record<string, string> {
+  return {
+    governor: vote.governor,
+    proposalId: vote.proposalId,
+    voter: vote.voter,
+    support: vote.support,
+    weight: vote.weight,
+    reason: vote.reason,
+    blockNumber: vote.blockNumber.toString(),
+    timeStamp: new Date(vote.timeStamp * 1000).toISOString(),
+    hash: vote.hash,
+    logIndex: vote.logIndex.toString(),
+    trackedAddress: vote.trackedAddress ?? ''
+  };
+}
+
+function fromGovernanceVoteRow(record: Record<string, string>): GovernanceVote {
+  return {
+    governor: record.governor,
+    proposalId: record.proposalId,
+    voter: record.voter,
+    support: record.support as GovernanceVote['support'],
+    weight: record.weight,
+    reason: record.reason,
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    hash: record.hash,
+    logIndex: Number(record.logIndex),
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toSafeTransactionRow(tx: SafeTransaction): Record<string, string> {
+  return {
+    safe: tx.safe,
+    hash: tx.hash,
+    blockNumber: tx.blockNumber.toString(),
+    timeStamp: new Date(tx.timeStamp * 1000).toISOString(),
+    executor: tx.executor,
+    to: tx.to,
+    value: tx.value,
+    data: tx.data,
+    operation: tx.operation,
+    safeTxHash: tx.safeTxHash ?? '',
+    success: tx.success ? '1' : '0',
+    signers: JSON.stringify(tx.signers),
+    trackedAddress: tx.trackedAddress ?? ''
+  };
+}
+
+function fromSafeTransactionRow(record: Record<string, string>): SafeTransaction {
+  return {
+    safe: record.safe,
+    hash: record.hash,
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    executor: record.executor,
+    to: record.to,
+    value: record.value,
+    data: record.data,
+    operation: record.operation === 'delegatecall' ? 'delegatecall' : 'call',
+    ...(record.safeTxHash ? { safeTxHash: record.safeTxHash } : {}),
+    success: record.success === '1',
+    signers: JSON.parse(record.signers || '[]'),
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
   };
 }
 
+function toSafeOwnerChangeRow(change: SafeOwnerChange): Record<string, string> {
+  return {
+    safe: change.safe,
+    type: change.type,
+    owners: JSON.stringify(change.owners),
+    threshold: change.threshold?.toString() ?? '',
+    blockNumber: change.blockNumber.toString(),
+    timeStamp: new Date(change.timeStamp * 1000).toISOString(),
+    hash: change.hash,
+    logIndex: change.logIndex.toString(),
+    trackedAddress: change.trackedAddress ?? ''
+  };
+}
+
+function fromSafeOwnerChangeRow(record: Record<string, string>): SafeOwnerChange {
+  const threshold = toOptionalNumber(record.threshold);
+  return {
+    safe: record.safe,
+    type: record.type as SafeOwnerChange['type'],
+    owners: JSON.parse(record.owners || '[]'),
+    ...(threshold !== undefined ? { threshold } : {}),
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    hash: record.hash,
+    logIndex: Number(record.logIndex),
+    ...(record.trackedAddress ? { trackedAddress: record.trackedAddress } : {})
+  };
+}
+
+function toBalanceRow(point: BalancePoint): Record<string, string> {
+  return {
+    address: point.address,
+    asset: point.asset,
+    symbol: point.symbol,
+    decimals: point.decimals.toString(),
+    blockNumber: point.blockNumber.toString(),
+    timeStamp: new Date(point.timeStamp * 1000).toISOString(),
+    change: point.change,
+    balance: point.balance
+  };
+}
+
+function fromBalanceRow(record: Record<string, string>): BalancePoint {
+  return {
+    address: record.address,
+    asset: record.asset,
+    symbol: record.symbol,
+    decimals: Number(record.decimals),
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    change: record.change,
+    balance: record.balance
+  };
+}
+
+function toFundFlowRow(hop: FundFlowHop): Record<string, string> {
+  return {
+    root: hop.root,
+    asset: hop.asset,
+    symbol: hop.symbol,
+    decimals: hop.decimals.toString(),
+    depth: hop.depth.toString(),
+    from: hop.from,
+    to: hop.to,
+    hash: hop.hash,
+    blockNumber: hop.blockNumber.toString(),
+    timeStamp: new Date(hop.timeStamp * 1000).toISOString(),
+    value: hop.value,
+    attributed: hop.attributed,
+    terminal: hop.terminal ? '1' : '0',
+    tracedAt: hop.tracedAt
+  };
+}
+
+function fromFundFlowRow(record: Record<string, string>): FundFlowHop {
+  return {
+    root: record.root,
+    asset: record.asset,
+    symbol: record.symbol,
+    decimals: Number(record.decimals),
+    depth: Number(record.depth),
+    from: record.from,
+    to: record.to,
+    hash: record.hash,
+    blockNumber: Number(record.blockNumber),
+    timeStamp: toUnixSeconds(record.timeStamp),
+    value: record.value,
+    attributed: record.attributed,
+    terminal: record.terminal === '1',
+    tracedAt: record.tracedAt
+  };
+}
+
+function toValuationRow(valuation: Valuation): Record<string, string> {
+  return {
+    kind: valuation.kind,
+    recordKey: valuation.recordKey,
+    hash: valuation.hash,
+    timeStamp: new Date(valuation.timeStamp * 1000).toISOString(),
+    asset: valuation.asset,
+    symbol: valuation.symbol,
+    amount: valuation.amount,
+    price: valuation.price?.toString() ?? '',
+    usdValue: valuation.usdValue?.toString() ?? '',
+    source: valuation.source,
+    valuedAt: valuation.valuedAt
+  };
+}
+
+function fromValuationRow(record: Record<string, string>): Valuation {
+  return {
+    kind: record.kind as ValuationKind,
+    recordKey: record.recordKey,
+    hash: record.hash,
+    timeStamp: toUnixSeconds(record.timeStamp),
+    asset: record.asset,
+    symbol: record.symbol,
+    amount: record.amount,
+    ...(record.price ? { price: Number(record.price) } : {}),
+    ...(record.usdValue ? { usdValue: Number(record.usdValue) } : {}),
+    source: record.source,
+    valuedAt: record.valuedAt
+  };
+}
+
+function toLabelRow(label: AddressLabel): Record<string, string> {
+  return {
+    address: label.address,
+    name: label.name,
+    category: label.category ?? '',
+    source: label.source,
+    updatedAt: label.updatedAt
+  };
+}
+
+function fromLabelRow(record: Record<string, string>): AddressLabel {
+  return {
+    address: record.address,
+    name: record.name,
+    ...(record.category ? { category: record.category as LabelCategory } : {}),
+    source: record.source as LabelSource,
+    updatedAt: record.updatedAt
+  };
+}
+
+// Stable, so records of one block keep their stored order
+function sortByBlock<T extends { blockNumber: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber));
+}
+
+function uniqueBy<T>(items: T[], keyOf: (item: T) => string, seen: Set<string> = new Set()): T[] {
+  return items.filter(item => {
+    const key = keyOf(item);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
 export class FileSystemStorage implements IDataStorage {
   private readonly baseDir: string;
   private readonly organizationsDir: string;
+  private readonly registry: OrganizationRegistry;
+  // Uniqueness keys of the records already written, per CSV file
+  private readonly recordKeys = new Map<string, Set<string>>();
 
-  constructor() {
+  constructor(private readonly chainId: number = 1) {
     this.baseDir = path.join(process.cwd(), 'data');
     this.organizationsDir = path.join(this.baseDir, 'organizations');
+    this.registry = new OrganizationRegistry(path.join(this.baseDir, 'registry.json'), this.organizationsDir);
     this.initializeStorage();
   }
 
@@ -56,52 +898,109 @@ export class FileSystemStorage implements IDataStorage {
     return path.join(this.organizationsDir, this.sanitizeFileName(name));
   }
 
+  // Collected data is kept per chain so one organization can span several
+  private getChainDir(name: string): string {
+    return path.join(this.getOrganizationDir(name), 'chains', this.chainId.toString());
+  }
+
   private getStateFilePath(organizationName: string): string {
-    return path.join(this.getOrganizationDir(organizationName), 'state.json');
+    return path.join(this.getChainDir(organizationName), 'state.json');
+  }
+
+  private getTransactionsFilePath(organizationName: string, type: 'normal' | 'internal'): string {
+    return path.join(this.getChainDir(organizationName), 'transactions', `${type}.csv`);
+  }
+
+  private getTokenTransfersFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'transfers', 'token_transfers.csv');
+  }
+
+  private getNftTransfersFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'transfers', 'nft_transfers.csv');
+  }
+
+  private getLogsFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'events', 'logs.csv');
+  }
+
+  // Derived from the raw records, next to them
+  private getDecodedCallsFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'transactions', 'normal_decoded.csv');
+  }
+
+  private getDecodedEventsFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'events', 'logs_decoded.csv');
+  }
+
+  private getGovernanceFilePath(organizationName: string, dataset: 'proposals' | 'votes'): string {
+    return path.join(this.getChainDir(organizationName), 'governance', `${dataset}.csv`);
+  }
+
+  private getSafeFilePath(organizationName: string, dataset: 'transactions' | 'owner_changes'): string {
+    return path.join(this.getChainDir(organizationName), 'safe', `${dataset}.csv`);
+  }
+
+  private getBalanceFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'balances', 'history.csv');
+  }
+
+  private getFundFlowFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'traces', 'hops.csv');
+  }
+
+  private getValuationFilePath(organizationName: string): string {
+    return path.join(this.getChainDir(organizationName), 'valuations', 'values.csv');
   }
 
-  private getTransactionsFilePath(organizationName: string, type: string): string {
-    return path.join(this.getOrganizationDir(organizationName), `${type}_transactions.csv`);
+  // Labels are shared by the organizations of a chain
+  private getLabelsFilePath(): string {
+    return path.join(this.baseDir, 'labels', `${this.chainId}.csv`);
   }
 
   private sanitizeFileName(fileName: string): string {
     return fileName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
   }
 
+  // Organizations collected before multi-chain support kept their data
+  // directly in the organization folder; move it under its chain folder
+  private async migrateLegacyLayout(name: string): Promise<void> {
+    const orgDir = this.getOrganizationDir(name);
+    if (!await fs.pathExists(path.join(orgDir, 'state.json'))) {
+      return;
+    }
+
+    const organization = await this.registry.get(name);
+    const chainDir = path.join(orgDir, 'chains', (organization?.chainId ?? 1).toString());
+    await fs.ensureDir(chainDir);
+
+    for (const entry of ['state.json', 'transactions', 'transfers']) {
+      const source = path.join(orgDir, entry);
+      if (await fs.pathExists(source)) {
+        await fs.move(source, path.join(chainDir, entry));
+      }
+    }
+
+    logger.info(`Moved legacy data of ${name} to ${chainDir}`);
+  }
+
+  // Primary address of a registered organization, in lowercase like tracked
+  // addresses; records collected before attribution existed belong to it
+  private async getPrimaryAddress(name: string): Promise<string | undefined> {
+    return (await this.registry.get(name))?.address.toLowerCase();
+  }
+
   async saveOrganization(organization: Organization): Promise<void> {
     try {
-      const orgDir = this.getOrganizationDir(organization.name);
-      await fs.ensureDir(orgDir);
+      await fs.ensureDir(this.getOrganizationDir(organization.name));
+      await this.migrateLegacyLayout(organization.name);
+      await fs.ensureDir(this.getChainDir(organization.name));
 
-      // Save organization metadata
-      const metadataPath = path.join(orgDir, 'metadata.json');
-      await fs.writeJSON(metadataPath, organization, { spaces: 2 });
+      await this.registry.save(organization, this.chainId);
 
       // Initialize state if it doesn't exist
       const statePath = this.getStateFilePath(organization.name);
       if (!await fs.pathExists(statePath)) {
-        const initialState: StorageState = {
-          lastProcessedBlock: 0,
-          lastProcessedTimestamp: new Date().toISOString(),
-          totalTransactions: 0,
-          transactionTypes: {
-            normal: {
-              lastBlock: 0,
-              count: 0,
-              lastProcessedTimestamp: new Date().toISOString()
-            },
-            internal: {
-              lastBlock: 0,
-              count: 0,
-              lastProcessedTimestamp: new Date().toISOString()
-            },
-            tokenTransfers: {
-              lastBlock: 0,
-              count: 0,
-              lastProcessedTimestamp: new Date().toISOString()
-            }
-          }
-        };
+        const initialState = createInitialState();
         await fs.writeJSON(statePath, initialState, { spaces: 2 });
       }
 
@@ -114,29 +1013,50 @@ export class FileSystemStorage implements IDataStorage {
 
   async getOrganization(address: string): Promise<Organization | null> {
     try {
-      // Search through all organization directories
-      const orgs = await fs.readdir(this.organizationsDir);
-      for (const org of orgs) {
-        const metadataPath = path.join(this.organizationsDir, org, 'metadata.json');
-        if (await fs.pathExists(metadataPath)) {
-          const metadata = await fs.readJSON(metadataPath);
-          if (metadata.address === address) {
-            return metadata;
-          }
-        }
-      }
-      return null;
+      return await this.registry.findByAddress(address);
     } catch (error) {
       logger.error(`Failed to get organization for address ${address}`, error);
       throw error;
     }
   }
 
+  async getOrganizationByName(name: string): Promise<Organization | null> {
+    try {
+      return await this.registry.get(name);
+    } catch (error) {
+      logger.error(`Failed to get organization ${name}`, error);
+      throw error;
+    }
+  }
+
+  async listOrganizations(): Promise<Organization[]> {
+    try {
+      return await this.registry.list();
+    } catch (error) {
+      logger.error('Failed to list organizations', error);
+      throw error;
+    }
+  }
+
+  async removeOrganization(name: string): Promise<boolean> {
+    try {
+      const removed = await this.registry.remove(name);
+      if (removed) {
+        logger.info(`Organization ${name} removed from the registry`);
+      }
+      return removed;
+    } catch (error) {
+      logger.error(`Failed to remove organization ${name}`, error);
+      throw error;
+    }
+  }
+
   async getLastProcessedState(name: string): Promise<StorageState | null> {
     const statePath = this.getStateFilePath(name);
     try {
+      await this.migrateLegacyLayout(name);
       if (await fs.pathExists(statePath)) {
-        return await fs.readJSON(statePath);
+        return normalizeState(await fs.readJSON(statePath), await this.getPrimaryAddress(name));
       }
     } catch (error) {
       logger.warn(`Failed to read state file for ${name}`, error);
@@ -144,36 +1064,53 @@ export class FileSystemStorage implements IDataStorage {
     return null;
   }
 
+  async markRangeCovered(
+    organizationName: string,
+    type: DataType,
+    address: string,
+    range: BlockRange
+  ): Promise<void> {
+    try {
+      const state = await this.getLastProcessedState(organizationName) || createInitialState();
+      const coveredRanges = state.transactionTypes[type].coveredRanges ??= {};
+      const key = address.toLowerCase();
+      coveredRanges[key] = mergeRanges([...(coveredRanges[key] ?? []), range]);
+
+      await fs.ensureDir(this.getChainDir(organizationName));
+      await fs.writeJSON(this.getStateFilePath(organizationName), state, { spaces: 2 });
+    } catch (error) {
+      logger.error(`Failed to record covered blocks for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveResolvedDate(organizationName: string, resolved: ResolvedDate): Promise<void> {
+    try {
+      const state = await this.getLastProcessedState(organizationName) || createInitialState();
+      state.resolvedDates = [
+        ...(state.resolvedDates ?? []).filter(date =>
+          date.timestamp !== resolved.timestamp || date.closest !== resolved.closest
+        ),
+        resolved
+      ];
+
+      await fs.ensureDir(this.getChainDir(organizationName));
+      await fs.writeJSON(this.getStateFilePath(organizationName), state, { spaces: 2 });
+    } catch (error) {
+      logger.error(`Failed to record resolved date for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
   private async updateState(
     name: string,
-    type: keyof StorageState['transactionTypes'],
+    type: DataType,
     lastBlock: number,
     addedCount: number
   ): Promise<void> {
     const statePath = this.getStateFilePath(name);
     try {
-      const state = await this.getLastProcessedState(name) || {
-        lastProcessedBlock: 0,
-        lastProcessedTimestamp: new Date().toISOString(),
-        totalTransactions: 0,
-        transactionTypes: {
-          normal: {
-            lastBlock: 0,
-            count: 0,
-            lastProcessedTimestamp: new Date().toISOString()
-          },
-          internal: {
-            lastBlock: 0,
-            count: 0,
-            lastProcessedTimestamp: new Date().toISOString()
-          },
-          tokenTransfers: {
-            lastBlock: 0,
-            count: 0,
-            lastProcessedTimestamp: new Date().toISOString()
-          }
-        }
-      };
+      const state = await this.getLastProcessedState(name) || createInitialState();
 
       state.transactionTypes[type].lastBlock = Math.max(
         state.transactionTypes[type].lastBlock,
@@ -196,148 +1133,646 @@ export class FileSystemStorage implements IDataStorage {
     }
   }
 
+  private async writeCsv(
+    filePath: string,
+    columns: CsvColumn[],
+    rows: Record<string, string>[],
+    append: boolean
+  ): Promise<void> {
+    const csvWriter = createObjectCsvWriter({
+      path: filePath,
+      append,
+      header: columns,
+      fieldDelimiter: ',',
+      recordDelimiter: '\n',
+      alwaysQuote: true
+    });
+
+    // Write in batches to bound memory use on large rewrites
+    const BATCH_SIZE = 1000;
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      await csvWriter.writeRecords(rows.slice(i, i + BATCH_SIZE));
+    }
+  }
+
+  // Files written by older versions lack newer columns; rewrite them with
+  // the current header so appended rows line up
+  private async upgradeCsvHeader(filePath: string, columns: CsvColumn[]): Promise<void> {
+    const header = await readCsvHeader(filePath);
+    if (!header || header.join(',') === columns.map(c => c.title).join(',')) {
+      return;
+    }
+
+    const records = await readCsvRecords(filePath, columns);
+    await this.writeCsv(filePath, columns, records, false);
+    logger.info(`Upgraded CSV header of ${filePath}`);
+  }
+
+  private async getRecordKeys<T>(
+    filePath: string,
+    load: () => Promise<T[]>,
+    keyOf: (item: T) => string
+  ): Promise<Set<string>> {
+    let keys = this.recordKeys.get(filePath);
+    if (!keys) {
+      keys = new Set((await load()).map(keyOf));
+      this.recordKeys.set(filePath, keys);
+    }
+    return keys;
+  }
+
+  // Replaces the whole file; csv-writer writes nothing, not even the
+  // header, for no rows, so an empty result removes the file
+  private async replaceCsv(filePath: string, columns: CsvColumn[], rows: Record<string, string>[]): Promise<void> {
+    if (rows.length === 0) {
+      await fs.remove(filePath);
+      return;
+    }
+    await fs.ensureDir(path.dirname(filePath));
+    await this.writeCsv(filePath, columns, rows, false);
+  }
+
+  // Appends the records a CSV file does not hold yet and accounts for them
+  // in the sync state; returns how many were new
+  private async appendRecords<T extends { blockNumber: number }>(
+    organizationName: string,
+    type: DataType,
+    filePath: string,
+    columns: CsvColumn[],
+    records: T[],
+    load: () => Promise<T[]>,
+    keyOf: (record: T) => string,
+    toRow: (record: T) => Record<string, string>
+  ): Promise<{ saved: number; lastBlock: number }> {
+    await fs.ensureDir(path.dirname(filePath));
+    await this.upgradeCsvHeader(filePath, columns);
+
+    const keys = await this.getRecordKeys(filePath, load, keyOf);
+
+    // Sort records by block number and drop those already stored
+    const fresh = uniqueBy(sortByBlock(records), keyOf, keys);
+
+    await this.writeCsv(filePath, columns, fresh.map(toRow), await fs.pathExists(filePath));
+
+    const lastBlock = records.reduce((max, record) => Math.max(max, Number(record.blockNumber) || 0), 0);
+    await this.updateState(organizationName, type, lastBlock, fresh.length);
+    return { saved: fresh.length, lastBlock };
+  }
+
   async saveTransactions(
     organizationName: string,
-    transactions: Transaction[],
-    type: string
-): Promise<void> {
-    if (transactions.length === 0) return;
-
-    try {
-        const orgDir = this.getOrganizationDir(organizationName);
-        await fs.ensureDir(orgDir);
-        const txDir = path.join(orgDir, 'transactions');
-        await fs.ensureDir(txDir);
-
-        const filePath = path.join(txDir, `${type}.csv`);
-        const fileExists = await fs.pathExists(filePath);
-
-        // Sort transactions by block number
-        transactions.sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber));
-
-        const csvWriter = createObjectCsvWriter({
-            path: filePath,
-            append: fileExists,
-            header: [
-                { id: 'hash', title: 'Hash' },
-                { id: 'blockNumber', title: 'Block Number' },
-                { id: 'timeStamp', title: 'Timestamp' },
-                { id: 'from', title: 'From' },
-                { id: 'to', title: 'To' },
-                { id: 'value', title: 'Value' },
-                { id: 'gas', title: 'Gas' },
-                { id: 'gasPrice', title: 'Gas Price' },
-                { id: 'isError', title: 'Is Error' },
-                { id: 'txreceipt_status', title: 'Receipt Status' },
-                { id: 'input', title: 'Input Data' },
-                { id: 'contractAddress', title: 'Contract Address' },
-                { id: 'methodId', title: 'Method ID' },
-                { id: 'functionName', title: 'Function Name' }
-            ],
-            fieldDelimiter: ',',
-            recordDelimiter: '\n',
-            alwaysQuote: true
-        });
-
-        // Process transactions in batches and handle null/undefined values
-        const BATCH_SIZE = 1000;
-        for (let i = 0; i < transactions.length; i += BATCH_SIZE) {
-            const batch = transactions.slice(i, i + BATCH_SIZE);
-            await csvWriter.writeRecords(batch.map(tx => ({
-                hash: tx.hash || '',
-                blockNumber: tx.blockNumber?.toString() || '',
-                timeStamp: tx.timeStamp ? new Date(Number(tx.timeStamp) * 1000).toISOString() : '',
-                from: tx.from || '',
-                to: tx.to || '',
-                value: tx.value?.toString() || '0',
-                gas: tx.gas?.toString() || '0',
-                gasPrice: tx.gasPrice?.toString() || '0',
-                isError: tx.isError?.toString() || '0',
-                txreceipt_status: tx.txreceipt_status?.toString() || '',
-                input: tx.input || '',
-                contractAddress: tx.contractAddress || '',
-                methodId: tx.methodId || '',
-                functionName: tx.functionName || ''
-            })));
-        }
+    transactions: Transaction[]
+  ): Promise<number> {
+    if (transactions.length === 0) return 0;
 
-        const lastBlock = Math.max(...transactions.map(t => Number(t.blockNumber) || 0));
-        await this.updateState(
-            organizationName,
-            type === 'normal' ? 'normal' : 'internal',
-            lastBlock,
-            transactions.length
-        );
+    try {
+      const { saved, lastBlock } = await this.appendRecords(
+        organizationName,
+        'normal',
+        this.getTransactionsFilePath(organizationName, 'normal'),
+        TRANSACTION_CSV_COLUMNS,
+        transactions,
+        () => this.getTransactions(organizationName),
+        getTransactionKey,
+        toTransactionRow
+      );
 
-        logger.info(`Saved ${transactions.length} ${type} transactions for ${organizationName} (Last block: ${lastBlock})`);
+      const skipped = transactions.length - saved;
+      logger.info(`Saved ${saved} normal transactions for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
     } catch (error) {
-        logger.error(`Failed to save transactions for ${organizationName}`, error);
-        throw error;
+      logger.error(`Failed to save transactions for ${organizationName}`, error);
+      throw error;
     }
-}
+  }
 
-async saveTokenTransfers(
+  async saveInternalTransactions(
+    organizationName: string,
+    transactions: InternalTransaction[]
+  ): Promise<number> {
+    if (transactions.length === 0) return 0;
+
+    try {
+      const { saved, lastBlock } = await this.appendRecords(
+        organizationName,
+        'internal',
+        this.getTransactionsFilePath(organizationName, 'internal'),
+        INTERNAL_TRANSACTION_CSV_COLUMNS,
+        transactions,
+        () => this.getInternalTransactions(organizationName),
+        getInternalTransactionKey,
+        toInternalTransactionRow
+      );
+
+      const skipped = transactions.length - saved;
+      logger.info(`Saved ${saved} internal transactions for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save internal transactions for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveTokenTransfers(
     organizationName: string,
     transfers: TokenTransfer[]
-): Promise<void> {
-    if (transfers.length === 0) return;
-
-    try {
-        const orgDir = this.getOrganizationDir(organizationName);
-        await fs.ensureDir(orgDir);
-        const transfersDir = path.join(orgDir, 'transfers');
-        await fs.ensureDir(transfersDir);
-
-        const filePath = path.join(transfersDir, 'token_transfers.csv');
-        const fileExists = await fs.pathExists(filePath);
-
-        // Sort transfers by block number
-        transfers.sort((a, b) => Number(a.blockNumber) - Number(b.blockNumber));
-
-        const csvWriter = createObjectCsvWriter({
-            path: filePath,
-            append: fileExists,
-            header: [
-                { id: 'hash', title: 'Hash' },
-                { id: 'blockNumber', title: 'Block Number' },
-                { id: 'timeStamp', title: 'Timestamp' },
-                { id: 'from', title: 'From' },
-                { id: 'to', title: 'To' },
-                { id: 'value', title: 'Value' },
-                { id: 'contractAddress', title: 'Token Contract' },
-                { id: 'tokenName', title: 'Token Name' },
-                { id: 'tokenSymbol', title: 'Token Symbol' },
-                { id: 'tokenDecimal', title: 'Token Decimals' },
-                { id: 'transactionIndex', title: 'Transaction Index' },
-                { id: 'gas', title: 'Gas' },
-                { id: 'gasPrice', title: 'Gas Price' },
-                { id: 'gasUsed', title: 'Gas Used' }
-            ],
-            fieldDelimiter: ',',
-            recordDelimiter: '\n',
-            alwaysQuote: true
-        });
-
-        // Process transfers in batches
-        const BATCH_SIZE = 1000;
-        for (let i = 0; i < transfers.length; i += BATCH_SIZE) {
-            const batch = transfers.slice(i, i + BATCH_SIZE);
-            await csvWriter.writeRecords(batch.map(transfer => ({
-                ...transfer,
-                timeStamp: new Date(Number(transfer.timeStamp) * 1000).toISOString(),
-                value: transfer.value.toString(),
-                gasPrice: transfer.gasPrice.toString(),
-                gasUsed: transfer.gasUsed.toString()
-            })));
+  ): Promise<number> {
+    if (transfers.length === 0) return 0;
+
+    try {
+      const { saved, lastBlock } = await this.appendRecords(
+        organizationName,
+        'tokenTransfers',
+        this.getTokenTransfersFilePath(organizationName),
+        TOKEN_TRANSFER_CSV_COLUMNS,
+        transfers,
+        () => this.getTokenTransfers(organizationName),
+        getTokenTransferKey,
+        toTokenTransferRow
+      );
+
+      const skipped = transfers.length - saved;
+      logger.info(`Saved ${saved} token transfers for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save token transfers for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveNftTransfers(
+    organizationName: string,
+    transfers: NftTransfer[]
+  ): Promise<number> {
+    if (transfers.length === 0) return 0;
+
+    try {
+      const { saved, lastBlock } = await this.appendRecords(
+        organizationName,
+        'nftTransfers',
+        this.getNftTransfersFilePath(organizationName),
+        NFT_TRANSFER_CSV_COLUMNS,
+        transfers,
+        () => this.getNftTransfers(organizationName),
+        getNftTransferKey,
+        toNftTransferRow
+      );
+
+      const skipped = transfers.length - saved;
+      logger.info(`Saved ${saved} NFT transfers for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save NFT transfers for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveLogs(
+    organizationName: string,
+    logs: LogEntry[]
+  ): Promise<number> {
+    if (logs.length === 0) return 0;
+
+    try {
+      const { saved, lastBlock } = await this.appendRecords(
+        organizationName,
+        'logs',
+        this.getLogsFilePath(organizationName),
+        LOG_CSV_COLUMNS,
+        logs,
+        () => this.getLogs(organizationName),
+        getLogKey,
+        toLogRow
+      );
+
+      const skipped = logs.length - saved;
+      logger.info(`Saved ${saved} event logs for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save event logs for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveDecodedCalls(organizationName: string, calls: DecodedCall[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getDecodedCallsFilePath(organizationName),
+        DECODED_CALL_CSV_COLUMNS,
+        sortByBlock(calls).map(toDecodedCallRow)
+      );
+      logger.info(`Saved ${calls.length} decoded calls for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save decoded calls for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveDecodedEvents(organizationName: string, events: DecodedEvent[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getDecodedEventsFilePath(organizationName),
+        DECODED_EVENT_CSV_COLUMNS,
+        sortByBlock(events).map(toDecodedEventRow)
+      );
+      logger.info(`Saved ${events.length} decoded events for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save decoded events for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveGovernanceProposals(organizationName: string, proposals: GovernanceProposal[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getGovernanceFilePath(organizationName, 'proposals'),
+        GOVERNANCE_PROPOSAL_CSV_COLUMNS,
+        [...proposals].sort((a, b) => a.createdBlock - b.createdBlock).map(toGovernanceProposalRow)
+      );
+      logger.info(`Saved ${proposals.length} governance proposals for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save governance proposals for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveGovernanceVotes(organizationName: string, votes: GovernanceVote[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getGovernanceFilePath(organizationName, 'votes'),
+        GOVERNANCE_VOTE_CSV_COLUMNS,
+        sortByBlock(votes).map(toGovernanceVoteRow)
+      );
+      logger.info(`Saved ${votes.length} governance votes for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save governance votes for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveSafeTransactions(organizationName: string, transactions: SafeTransaction[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getSafeFilePath(organizationName, 'transactions'),
+        SAFE_TRANSACTION_CSV_COLUMNS,
+        sortByBlock(transactions).map(toSafeTransactionRow)
+      );
+      logger.info(`Saved ${transactions.length} Safe transactions for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save Safe transactions for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveSafeOwnerChanges(organizationName: string, changes: SafeOwnerChange[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getSafeFilePath(organizationName, 'owner_changes'),
+        SAFE_OWNER_CHANGE_CSV_COLUMNS,
+        sortByBlock(changes).map(toSafeOwnerChangeRow)
+      );
+      logger.info(`Saved ${changes.length} Safe owner changes for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save Safe owner changes for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveBalanceHistory(organizationName: string, points: BalancePoint[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getBalanceFilePath(organizationName),
+        BALANCE_CSV_COLUMNS,
+        sortByBlock(points).map(toBalanceRow)
+      );
+      logger.info(`Saved ${points.length} balance points for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save balance history for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveFundFlowHops(organizationName: string, root: string, asset: string, hops: FundFlowHop[]): Promise<void> {
+    try {
+      const kept = (await this.getFundFlowHops(organizationName))
+        .filter(hop => hop.root !== root.toLowerCase() || hop.asset !== asset.toLowerCase());
+      await this.replaceCsv(
+        this.getFundFlowFilePath(organizationName),
+        FUND_FLOW_CSV_COLUMNS,
+        [...kept, ...hops].map(toFundFlowRow)
+      );
+      logger.info(`Saved ${hops.length} fund flow hops from ${root} for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save fund flow hops for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveValuations(organizationName: string, valuations: Valuation[]): Promise<void> {
+    try {
+      await this.replaceCsv(
+        this.getValuationFilePath(organizationName),
+        VALUATION_CSV_COLUMNS,
+        valuations.map(toValuationRow)
+      );
+      logger.info(`Saved ${valuations.length} valuations for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save valuations for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async saveAddressLabels(labels: AddressLabel[]): Promise<void> {
+    try {
+      const merged = new Map((await this.getAddressLabels()).map(label => [label.address, label]));
+      for (const label of labels) {
+        merged.set(label.address.toLowerCase(), { ...label, address: label.address.toLowerCase() });
+      }
+      await this.replaceCsv(
+        this.getLabelsFilePath(),
+        LABEL_CSV_COLUMNS,
+        [...merged.values()].sort((a, b) => a.address.localeCompare(b.address)).map(toLabelRow)
+      );
+      logger.info(`Saved ${labels.length} address labels for chain ${this.chainId}`);
+    } catch (error) {
+      logger.error(`Failed to save address labels for chain ${this.chainId}`, error);
+      throw error;
+    }
+  }
+
+  async getTransactions(organizationName: string): Promise<Transaction[]> {
+    try {
+      await this.migrateLegacyLayout(organizationName);
+      const records = await readCsvRecords(
+        this.getTransactionsFilePath(organizationName, 'normal'),
+        TRANSACTION_CSV_COLUMNS
+      );
+      const primaryAddress = await this.getPrimaryAddress(organizationName);
+      return records.map(record => ({ trackedAddress: primaryAddress, ...fromTransactionRow(record) }));
+    } catch (error) {
+      logger.error(`Failed to read normal transactions for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getInternalTransactions(organizationName: string): Promise<InternalTransaction[]> {
+    try {
+      await this.migrateLegacyLayout(organizationName);
+      const records = await readCsvRecords(
+        this.getTransactionsFilePath(organizationName, 'internal'),
+        INTERNAL_TRANSACTION_CSV_COLUMNS
+      );
+      const primaryAddress = await this.getPrimaryAddress(organizationName);
+      return records.map(record => ({ trackedAddress: primaryAddress, ...fromInternalTransactionRow(record) }));
+    } catch (error) {
+      logger.error(`Failed to read internal transactions for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getTokenTransfers(organizationName: string): Promise<TokenTransfer[]> {
+    try {
+      await this.migrateLegacyLayout(organizationName);
+      const records = await readCsvRecords(
+        this.getTokenTransfersFilePath(organizationName),
+        TOKEN_TRANSFER_CSV_COLUMNS
+      );
+      const primaryAddress = await this.getPrimaryAddress(organizationName);
+      return records.map(record => ({ trackedAddress: primaryAddress, ...fromTokenTransferRow(record) }));
+    } catch (error) {
+      logger.error(`Failed to read token transfers for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getNftTransfers(organizationName: string): Promise<NftTransfer[]> {
+    try {
+      await this.migrateLegacyLayout(organizationName);
+      const records = await readCsvRecords(
+        this.getNftTransfersFilePath(organizationName),
+        NFT_TRANSFER_CSV_COLUMNS
+      );
+      const primaryAddress = await this.getPrimaryAddress(organizationName);
+      return records.map(record => ({ trackedAddress: primaryAddress, ...fromNftTransferRow(record) }));
+    } catch (error) {
+      logger.error(`Failed to read NFT transfers for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getLogs(organizationName: string): Promise<LogEntry[]> {
+    try {
+      await this.migrateLegacyLayout(organizationName);
+      const records = await readCsvRecords(
+        this.getLogsFilePath(organizationName),
+        LOG_CSV_COLUMNS
+      );
+      const primaryAddress = await this.getPrimaryAddress(organizationName);
+      return records.map(record => ({ trackedAddress: primaryAddress, ...fromLogRow(record) }));
+    } catch (error) {
+      logger.error(`Failed to read event logs for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getDecodedCalls(organizationName: string): Promise<DecodedCall[]> {
+    try {
+      const records = await readCsvRecords(
+        this.getDecodedCallsFilePath(organizationName),
+        DECODED_CALL_CSV_COLUMNS
+      );
+      return records.map(fromDecodedCallRow);
+    } catch (error) {
+      logger.error(`Failed to read decoded calls for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getDecodedEvents(organizationName: string): Promise<DecodedEvent[]> {
+    try {
+      const records = await readCsvRecords(
+        this.getDecodedEventsFilePath(organizationName),
+        DECODED_EVENT_CSV_COLUMNS
+      );
+      return records.map(fromDecodedEventRow);
+    } catch (error) {
+      logger.error(`Failed to read decoded events for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getGovernanceProposals(organizationName: string): Promise<GovernanceProposal[]> {
+    try {
+      const records = await readCsvRecords(
+        this.getGovernanceFilePath(organizationName, 'proposals'),
+        GOVERNANCE_PROPOSAL_CSV_COLUMNS
+      );
+      return records.map(fromGovernanceProposalRow);
+    } catch (error) {
+      logger.error(`Failed to read governance proposals for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getGovernanceVotes(organizationName: string): Promise<GovernanceVote[]> {
+    try {
+      const records = await readCsvRecords(
+        this.getGovernanceFilePath(organizationName, 'votes'),
+        GOVERNANCE_VOTE_CSV_COLUMNS
+      );
+      return records.map(fromGovernanceVoteRow);
+    } catch (error) {
+      logger.error(`Failed to read governance votes for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getSafeTransactions(organizationName: string): Promise<SafeTransaction[]> {
+    try {
+      const records = await readCsvRecords(
+        this.getSafeFilePath(organizationName, 'transactions'),
+        SAFE_TRANSACTION_CSV_COLUMNS
+      );
+      return records.map(fromSafeTransactionRow);
+    } catch (error) {
+      logger.error(`Failed to read Safe transactions for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getSafeOwnerChanges(organizationName: string): Promise<SafeOwnerChange[]> {
+    try {
+      const records = await readCsvRecords(
+        this.getSafeFilePath(organizationName, 'owner_changes'),
+        SAFE_OWNER_CHANGE_CSV_COLUMNS
+      );
+      return records.map(fromSafeOwnerChangeRow);
+    } catch (error) {
+      logger.error(`Failed to read Safe owner changes for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getBalanceHistory(organizationName: string): Promise<BalancePoint[]> {
+    try {
+      const records = await readCsvRecords(this.getBalanceFilePath(organizationName), BALANCE_CSV_COLUMNS);
+      return records.map(fromBalanceRow);
+    } catch (error) {
+      logger.error(`Failed to read balance history for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getFundFlowHops(organizationName: string): Promise<FundFlowHop[]> {
+    try {
+      const records = await readCsvRecords(this.getFundFlowFilePath(organizationName), FUND_FLOW_CSV_COLUMNS);
+      return records.map(fromFundFlowRow);
+    } catch (error) {
+      logger.error(`Failed to read fund flow hops for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getValuations(organizationName: string): Promise<Valuation[]> {
+    try {
+      const records = await readCsvRecords(this.getValuationFilePath(organizationName), VALUATION_CSV_COLUMNS);
+      return records.map(fromValuationRow);
+    } catch (error) {
+      logger.error(`Failed to read valuations for ${organizationName}`, error);
+      throw error;
+    }
+  }
+
+  async getAddressLabels(): Promise<AddressLabel[]> {
+    try {
+      const records = await readCsvRecords(this.getLabelsFilePath(), LABEL_CSV_COLUMNS);
+      return records.map(fromLabelRow);
+    } catch (error) {
+      logger.error(`Failed to read address labels for chain ${this.chainId}`, error);
+      throw error;
+    }
+  }
+
+  async deduplicate(organizationName: string): Promise<DeduplicationResult> {
+    try {
+      const state = await this.getLastProcessedState(organizationName) || createInitialState();
+      const result: DeduplicationResult = { normal: 0, internal: 0, tokenTransfers: 0, nftTransfers: 0, logs: 0 };
+
+      // Rewrites a file with its unique records in block order
+      const rewrite = async <T extends { blockNumber: number }>(
+        type: DataType,
+        filePath: string,
+        columns: CsvColumn[],
+        records: T[],
+        keyOf: (record: T) => string,
+        toRow: (record: T) => Record<string, string>
+      ): Promise<void> => {
+        const unique = sortByBlock(uniqueBy(records, keyOf));
+        if (await fs.pathExists(filePath)) {
+          await this.writeCsv(filePath, columns, unique.map(toRow), false);
         }
+        result[type] = records.length - unique.length;
+        state.transactionTypes[type].count = unique.length;
+      };
 
-        const lastBlock = Math.max(...transfers.map(t => Number(t.blockNumber)));
-        await this.updateState(organizationName, 'tokenTransfers', lastBlock, transfers.length);
+      await rewrite(
+        'normal',
+        this.getTransactionsFilePath(organizationName, 'normal'),
+        TRANSACTION_CSV_COLUMNS,
+        await this.getTransactions(organizationName),
+        getTransactionKey,
+        toTransactionRow
+      );
+      await rewrite(
+        'internal',
+        this.getTransactionsFilePath(organizationName, 'internal'),
+        INTERNAL_TRANSACTION_CSV_COLUMNS,
+        await this.getInternalTransactions(organizationName),
+        getInternalTransactionKey,
+        toInternalTransactionRow
+      );
+      await rewrite(
+        'tokenTransfers',
+        this.getTokenTransfersFilePath(organizationName),
+        TOKEN_TRANSFER_CSV_COLUMNS,
+        await this.getTokenTransfers(organizationName),
+        getTokenTransferKey,
+        toTokenTransferRow
+      );
+      await rewrite(
+        'nftTransfers',
+        this.getNftTransfersFilePath(organizationName),
+        NFT_TRANSFER_CSV_COLUMNS,
+        await this.getNftTransfers(organizationName),
+        getNftTransferKey,
+        toNftTransferRow
+      );
+      await rewrite(
+        'logs',
+        this.getLogsFilePath(organizationName),
+        LOG_CSV_COLUMNS,
+        await this.getLogs(organizationName),
+        getLogKey,
+        toLogRow
+      );
 
-        logger.info(`Saved ${transfers.length} token transfers for ${organizationName} (Last block: ${lastBlock})`);
+      state.totalTransactions = Object.values(state.transactionTypes)
+        .reduce((total, typeState) => total + typeState.count, 0);
+      await fs.ensureDir(this.getChainDir(organizationName));
+      await fs.writeJSON(this.getStateFilePath(organizationName), state, { spaces: 2 });
+
+      // Cached keys may still hold records of the old files
+      for (const filePath of [...this.recordKeys.keys()]) {
+        if (filePath.startsWith(this.getChainDir(organizationName))) {
+          this.recordKeys.delete(filePath);
+        }
+      }
+
+      logger.info(`Deduplicated ${organizationName}`, result);
+      return result;
     } catch (error) {
-        logger.error(`Failed to save token transfers for ${organizationName}`, error);
-        throw error;
+      logger.error(`Failed to deduplicate ${organizationName}`, error);
+      throw error;
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,124 @@
+// src/infrastructure/persistence/OrganizationRegistry.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { Organization } from '../../core/entities';
+import { createLogger } from '../logging/logger';
+import { hasAddress, mergeOrganization } from '../../utils/organizations';
+
+const logger = createLogger('OrganizationRegistry');
+
+// Organizations keyed by name, as stored in registry.json
+type RegistryContents = Record<string, Organization>;
+
+// Updates of one registry file are chained, so storages of different chains
+// working in the same process don't overwrite each other's changes
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+// Import of legacy metadata, run once per registry file
+const legacyImports = new Map<string, Promise<void>>();
+
+export class OrganizationRegistry {
+  constructor(
+    private readonly filePath: string,
+    private readonly organizationsDir: string
+  ) {}
+
+  private async read(): Promise<RegistryContents> {
+    await this.importLegacyMetadata();
+    await pendingUpdates.get(this.filePath)?.catch(() => undefined);
+    return await fs.pathExists(this.filePath) ? await fs.readJSON(this.filePath) : {};
+  }
+
+  private async update<T>(change: (registry: RegistryContents) => T): Promise<T> {
+    const previous = pendingUpdates.get(this.filePath) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const registry: RegistryContents = await fs.pathExists(this.filePath) ?
+        await fs.readJSON(this.filePath) :
+        {};
+      const result = change(registry);
+      await fs.ensureDir(path.dirname(this.filePath));
+      await fs.writeJSON(this.filePath, registry, { spaces: 2 });
+      return result;
+    });
+    pendingUpdates.set(this.filePath, next);
+    return next;
+  }
+
+  private importLegacyMetadata(): Promise<void> {
+    let pending = legacyImports.get(this.filePath);
+    if (!pending) {
+      pending = this.registerLegacyMetadata();
+      legacyImports.set(this.filePath, pending);
+    }
+    return pending;
+  }
+
+  // Organizations analyzed before the registry was used kept their metadata
+  // in a metadata.json of their folder; register them and drop those files
+  private async registerLegacyMetadata(): Promise<void> {
+    if (!await fs.pathExists(this.organizationsDir)) {
+      return;
+    }
+
+    const metadataFiles: string[] = [];
+    for (const folder of await fs.readdir(this.organizationsDir)) {
+      const metadataPath = path.join(this.organizationsDir, folder, 'metadata.json');
+      if (await fs.pathExists(metadataPath)) {
+        metadataFiles.push(metadataPath);
+      }
+    }
+    if (metadataFiles.length === 0) {
+      return;
+    }
+
+    const organizations: Organization[] = await Promise.all(metadataFiles.map(file => fs.readJSON(file)));
+    await this.update(registry => {
+      for (const organization of organizations) {
+        registry[organization.name] = mergeOrganization(
+          registry[organization.name] ?? null,
+          organization,
+          organization.chainId
+        );
+      }
+    });
+
+    for (const file of metadataFiles) {
+      await fs.remove(file);
+    }
+    logger.info(`Registered ${organizations.length} organizations from their legacy metadata files`);
+  }
+
+  async list(): Promise<Organization[]> {
+    const registry = await this.read();
+    return Object.values(registry).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<Organization | null> {
+    const registry = await this.read();
+    return registry[name] ?? null;
+  }
+
+  async findByAddress(address: string): Promise<Organization | null> {
+    return (await this.list()).find(organization => hasAddress(organization, address)) ?? null;
+  }
+
+  async save(organization: Organization, chainId: number): Promise<Organization> {
+    await this.importLegacyMetadata();
+    return this.update(registry => {
+      const merged = mergeOrganization(registry[organization.name] ?? null, organization, chainId);
+      registry[organization.name] = merged;
+      return merged;
+    });
+  }
+
+  async remove(name: string): Promise<boolean> {
+    await this.importLegacyMetadata();
+    return this.update(registry => {
+      if (!registry[name]) {
+        return false;
+      }
+      delete registry[name];
+      return true;
+    });
+  }
+}
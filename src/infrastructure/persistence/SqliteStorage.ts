@@ -0,0 +1,2136 @@
+// src/infrastructure/persistence/SqliteStorage.ts
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  BlockRange,
+  DataType,
+  DeduplicationResult,
+  IDataStorage,
+  ResolvedDate,
+  StorageState
+} from '../../core/interfaces/IDataStorage';
+import { BlockClosest } from '../../core/interfaces/IBlockchainDataProvider';
+import {
+  AddressLabel,
+  BalancePoint,
+  DecodedCall,
+  DecodedEvent,
+  FundFlowHop,
+  GovernanceProposal,
+  GovernanceVote,
+  InternalTransaction,
+  LabelCategory,
+  LabelSource,
+  LogEntry,
+  NftTransfer,
+  Organization,
+  SafeOwnerChange,
+  SafeTransaction,
+  Transaction,
+  TokenTransfer,
+  Valuation,
+  ValuationKind
+} from '../../core/entities';
+import { StorageError } from '../../core/errors';
+import { createLogger } from '../logging/logger';
+import { getInternalTransactionKey, getLogKey, getNftTransferKey, getTokenTransferKey, getTransactionKey } from '../../utils/recordKeys';
+import { mergeRanges } from '../../utils/blockRanges';
+import { hasAddress, mergeOrganization } from '../../utils/organizations';
+
+const logger = createLogger('SqliteStorage');
+
+const TRANSACTION_COLUMNS = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  organization TEXT NOT NULL,
+  chain_id INTEGER NOT NULL,
+  hash TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  time_stamp INTEGER NOT NULL,
+  from_address TEXT NOT NULL,
+  to_address TEXT NOT NULL,
+  value TEXT NOT NULL,
+  gas TEXT NOT NULL,
+  gas_price TEXT NOT NULL,
+  gas_used TEXT NOT NULL,
+  tx_type TEXT NOT NULL,
+  max_fee_per_gas TEXT NOT NULL,
+  max_priority_fee_per_gas TEXT NOT NULL,
+  base_fee_per_gas TEXT NOT NULL,
+  is_error TEXT NOT NULL,
+  txreceipt_status TEXT NOT NULL,
+  input TEXT NOT NULL,
+  contract_address TEXT NOT NULL,
+  method_id TEXT NOT NULL,
+  function_name TEXT NOT NULL,
+  tracked_address TEXT NOT NULL DEFAULT '',
+  record_key TEXT NOT NULL
+`;
+
+// hash is the normal transaction that made the call, indexed for joins
+const INTERNAL_TRANSACTIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS internal_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    trace_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    input TEXT NOT NULL,
+    gas TEXT NOT NULL,
+    gas_used TEXT NOT NULL,
+    is_error TEXT NOT NULL,
+    err_code TEXT NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT '',
+    record_key TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_internal_transactions_block
+    ON internal_transactions (organization, chain_id, block_number);
+  CREATE INDEX IF NOT EXISTS idx_internal_transactions_parent
+    ON internal_transactions (chain_id, hash);
+`;
+
+const NFT_TRANSFERS_TABLE = `
+  CREATE TABLE IF NOT EXISTS nft_transfers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    token_standard TEXT NOT NULL,
+    token_id TEXT NOT NULL,
+    token_value TEXT NOT NULL,
+    token_name TEXT NOT NULL,
+    token_symbol TEXT NOT NULL,
+    transaction_index INTEGER NOT NULL,
+    gas TEXT NOT NULL,
+    gas_price TEXT NOT NULL,
+    gas_used TEXT NOT NULL,
+    log_index INTEGER,
+    tracked_address TEXT NOT NULL DEFAULT '',
+    record_key TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_nft_transfers_block
+    ON nft_transfers (organization, chain_id, block_number);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_nft_transfers_key
+    ON nft_transfers (organization, chain_id, record_key);
+`;
+
+// Topics get a column each, so events can be selected by signature (topic0)
+const EVENT_LOGS_TABLE = `
+  CREATE TABLE IF NOT EXISTS event_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    topic0 TEXT,
+    topic1 TEXT,
+    topic2 TEXT,
+    topic3 TEXT,
+    data TEXT NOT NULL,
+    transaction_index INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT '',
+    record_key TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_event_logs_block
+    ON event_logs (organization, chain_id, block_number);
+  CREATE INDEX IF NOT EXISTS idx_event_logs_topic0
+    ON event_logs (organization, chain_id, topic0);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_event_logs_key
+    ON event_logs (organization, chain_id, record_key);
+`;
+
+// Derived from normal_transactions and event_logs by the decode command and
+// replaced as a whole on every run; arguments are JSON objects keyed by
+// parameter name, for json_extract
+const DECODED_TABLES = `
+  CREATE TABLE IF NOT EXISTS decoded_calls (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    contract_address TEXT NOT NULL,
+    selector TEXT NOT NULL,
+    function_name TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    args TEXT NOT NULL,
+    abi_source TEXT NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS idx_decoded_calls_function
+    ON decoded_calls (organization, chain_id, function_name);
+
+  CREATE TABLE IF NOT EXISTS decoded_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    topic0 TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    args TEXT NOT NULL,
+    abi_source TEXT NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS idx_decoded_events_event
+    ON decoded_events (organization, chain_id, event_name);
+`;
+
+// Derived from event_logs by the governance command, replaced on every run.
+// Vote weights and tallies are token amounts, kept as decimal strings.
+const GOVERNANCE_TABLES = `
+  CREATE TABLE IF NOT EXISTS governance_proposals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    governor TEXT NOT NULL,
+    proposal_id TEXT NOT NULL,
+    proposer TEXT NOT NULL,
+    status TEXT NOT NULL,
+    for_votes TEXT NOT NULL,
+    against_votes TEXT NOT NULL,
+    abstain_votes TEXT NOT NULL,
+    voter_count INTEGER NOT NULL,
+    vote_start TEXT NOT NULL,
+    vote_end TEXT NOT NULL,
+    created_block INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    queued_block INTEGER,
+    eta TEXT,
+    executed_block INTEGER,
+    canceled_block INTEGER,
+    actions TEXT NOT NULL,
+    description TEXT NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS idx_governance_proposals_id
+    ON governance_proposals (organization, chain_id, governor, proposal_id);
+
+  CREATE TABLE IF NOT EXISTS governance_votes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    governor TEXT NOT NULL,
+    proposal_id TEXT NOT NULL,
+    voter TEXT NOT NULL,
+    support TEXT NOT NULL,
+    weight TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS idx_governance_votes_proposal
+    ON governance_votes (organization, chain_id, governor, proposal_id);
+  CREATE INDEX IF NOT EXISTS idx_governance_votes_voter
+    ON governance_votes (organization, chain_id, voter);
+`;
+
+// Derived from normal_transactions and event_logs by the safe command,
+// replaced on every run; signers and owners are JSON arrays
+const SAFE_TABLES = `
+  CREATE TABLE IF NOT EXISTS safe_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    safe TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    executor TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    data TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    safe_tx_hash TEXT,
+    success INTEGER NOT NULL,
+    signers TEXT NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS idx_safe_transactions_safe
+    ON safe_transactions (organization, chain_id, safe, block_number);
+
+  CREATE TABLE IF NOT EXISTS safe_owner_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    safe TEXT NOT NULL,
+    type TEXT NOT NULL,
+    owners TEXT NOT NULL,
+    threshold INTEGER,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    tracked_address TEXT NOT NULL DEFAULT ''
+  );
+  CREATE INDEX IF NOT EXISTS idx_safe_owner_changes_safe
+    ON safe_owner_changes (organization, chain_id, safe, block_number);
+`;
+
+// Derived from the transfer tables by the balances command, replaced on
+// every run; amounts are base-unit integers as text
+const BALANCE_HISTORY_TABLE = `
+  CREATE TABLE IF NOT EXISTS balance_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    decimals INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    change TEXT NOT NULL,
+    balance TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_balance_history_asset
+    ON balance_history (organization, chain_id, address, asset, block_number);
+`;
+
+// Written by the trace command, replaced per root address and asset;
+// amounts are base-unit integers as text
+const FUND_FLOW_HOPS_TABLE = `
+  CREATE TABLE IF NOT EXISTS fund_flow_hops (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    root TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    decimals INTEGER NOT NULL,
+    depth INTEGER NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    value TEXT NOT NULL,
+    attributed TEXT NOT NULL,
+    terminal INTEGER NOT NULL,
+    traced_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_fund_flow_hops_root
+    ON fund_flow_hops (organization, chain_id, root, asset);
+`;
+
+// Written by the value command, replaced as a whole; amounts are exact
+// decimal strings in whole units, prices and values USD
+const VALUATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS valuations (
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    record_key TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    asset TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    price REAL,
+    usd_value REAL,
+    source TEXT NOT NULL,
+    valued_at TEXT NOT NULL,
+    PRIMARY KEY (organization, chain_id, kind, record_key)
+  );
+`;
+
+// Names of addresses, per chain rather than per organization
+const ADDRESS_LABELS_TABLE = `
+  CREATE TABLE IF NOT EXISTS address_labels (
+    chain_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    name TEXT NOT NULL,
+    category TEXT,
+    source TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (chain_id, address)
+  );
+`;
+
+const RESOLVED_DATES_TABLE = `
+  CREATE TABLE IF NOT EXISTS resolved_dates (
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    closest TEXT NOT NULL,
+    input TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    resolved_at TEXT NOT NULL,
+    PRIMARY KEY (organization, chain_id, timestamp, closest)
+  );
+`;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS organizations (
+    name TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    chains TEXT NOT NULL DEFAULT '[]',
+    addresses TEXT NOT NULL DEFAULT '[]',
+    tags TEXT,
+    description TEXT,
+    date_added TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS normal_transactions (${TRANSACTION_COLUMNS});
+  CREATE INDEX IF NOT EXISTS idx_normal_transactions_block
+    ON normal_transactions (organization, chain_id, block_number);
+
+  ${INTERNAL_TRANSACTIONS_TABLE}
+
+  CREATE TABLE IF NOT EXISTS token_transfers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    hash TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    time_stamp INTEGER NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    token_name TEXT NOT NULL,
+    token_symbol TEXT NOT NULL,
+    token_decimal TEXT NOT NULL,
+    transaction_index INTEGER NOT NULL,
+    gas TEXT NOT NULL,
+    gas_price TEXT NOT NULL,
+    gas_used TEXT NOT NULL,
+    log_index INTEGER,
+    tracked_address TEXT NOT NULL DEFAULT '',
+    record_key TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_token_transfers_block
+    ON token_transfers (organization, chain_id, block_number);
+
+  ${NFT_TRANSFERS_TABLE}
+
+  ${EVENT_LOGS_TABLE}
+
+  ${DECODED_TABLES}
+
+  ${GOVERNANCE_TABLES}
+
+  ${SAFE_TABLES}
+  ${BALANCE_HISTORY_TABLE}
+  ${ADDRESS_LABELS_TABLE}
+  ${FUND_FLOW_HOPS_TABLE}
+  ${VALUATIONS_TABLE}
+
+  CREATE TABLE IF NOT EXISTS sync_state (
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    last_block INTEGER NOT NULL DEFAULT 0,
+    count INTEGER NOT NULL DEFAULT 0,
+    last_processed_timestamp TEXT NOT NULL,
+    PRIMARY KEY (organization, chain_id, type)
+  );
+
+  CREATE TABLE IF NOT EXISTS covered_ranges (
+    organization TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    address TEXT NOT NULL DEFAULT '',
+    from_block INTEGER NOT NULL,
+    to_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_covered_ranges_type
+    ON covered_ranges (organization, chain_id, type);
+
+  ${RESOLVED_DATES_TABLE}
+
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_normal_transactions_key
+    ON normal_transactions (organization, chain_id, record_key);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_internal_transactions_key
+    ON internal_transactions (organization, chain_id, record_key);
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_token_transfers_key
+    ON token_transfers (organization, chain_id, record_key);
+`;
+
+// Layout of SCHEMA, recorded in user_version so a later layout can tell
+// which databases to upgrade
+const SCHEMA_VERSION = 1;
+
+interface OrganizationRow {
+  name: string;
+  address: string;
+  chain_id: number;
+  chains: string;
+  addresses: string;
+  tags: string | null;
+  description: string | null;
+  date_added: string;
+}
+
+interface TransactionRow {
+  hash: string;
+  block_number: number;
+  time_stamp: number;
+  from_address: string;
+  to_address: string;
+  value: string;
+  gas: string;
+  gas_price: string;
+  gas_used: string;
+  tx_type: string;
+  max_fee_per_gas: string;
+  max_priority_fee_per_gas: string;
+  base_fee_per_gas: string;
+  is_error: string;
+  txreceipt_status: string;
+  input: string;
+  contract_address: string;
+  method_id: string;
+  function_name: string;
+  tracked_address?: string;
+}
+
+interface InternalTransactionRow {
+  hash: string;
+  block_number: number;
+  time_stamp: number;
+  trace_id: string;
+  type: string;
+  from_address: string;
+  to_address: string;
+  value: string;
+  contract_address: string;
+  input: string;
+  gas: string;
+  gas_used: string;
+  is_error: string;
+  err_code: string;
+  tracked_address?: string;
+}
+
+interface TokenTransferRow {
+  hash: string;
+  block_number: number;
+  time_stamp: number;
+  from_address: string;
+  to_address: string;
+  value: string;
+  contract_address: string;
+  token_name: string;
+  token_symbol: string;
+  token_decimal: string;
+  transaction_index: number;
+  gas: string;
+  gas_price: string;
+  gas_used: string;
+  log_index: number | null;
+  tracked_address?: string;
+}
+
+interface NftTransferRow {
+  hash: string;
+  block_number: number;
+  time_stamp: number;
+  from_address: string;
+  to_address: string;
+  contract_address: string;
+  token_standard: string;
+  token_id: string;
+  token_value: string;
+  token_name: string;
+  token_symbol: string;
+  transaction_index: number;
+  gas: string;
+  gas_price: string;
+  gas_used: string;
+  log_index: number | null;
+  tracked_address: string;
+}
+
+interface EventLogRow {
+  hash: string;
+  block_number: number;
+  time_stamp: number;
+  address: string;
+  topic0: string | null;
+  topic1: string | null;
+  topic2: string | null;
+  topic3: string | null;
+  data: string;
+  transaction_index: number;
+  log_index: number;
+  tracked_address: string;
+}
+
+interface DecodedCallRow {
+  hash: string;
+  block_number: number;
+  contract_address: string;
+  selector: string;
+  function_name: string;
+  signature: string;
+  args: string;
+  abi_source: DecodedCall['abiSource'];
+  tracked_address: string;
+}
+
+interface DecodedEventRow {
+  hash: string;
+  log_index: number;
+  block_number: number;
+  address: string;
+  topic0: string;
+  event_name: string;
+  signature: string;
+  args: string;
+  abi_source: DecodedEvent['abiSource'];
+  tracked_address: string;
+}
+
+interface GovernanceProposalRow {
+  governor: string;
+  proposal_id: string;
+  proposer: string;
+  status: GovernanceProposal['status'];
+  for_votes: string;
+  against_votes: string;
+  abstain_votes: string;
+  voter_count: number;
+  vote_start: string;
+  vote_end: string;
+  created_block: number;
+  created_at: number;
+  hash: string;
+  queued_block: number | null;
+  eta: string | null;
+  executed_block: number | null;
+  canceled_block: number | null;
+  actions: string;
+  description: string;
+  tracked_address: string;
+}
+
+interface GovernanceVoteRow {
+  governor: string;
+  proposal_id: string;
+  voter: string;
+  support: GovernanceVote['support'];
+  weight: string;
+  reason: string;
+  block_number: number;
+  time_stamp: number;
+  hash: string;
+  log_index: number;
+  tracked_address: string;
+}
+
+interface SafeTransactionRow {
+  safe: string;
+  hash: string;
+  block_number: number;
+  time_stamp: number;
+  executor: string;
+  to_address: string;
+  value: string;
+  data: string;
+  operation: SafeTransaction['operation'];
+  safe_tx_hash: string | null;
+  success: number;
+  signers: string;
+  tracked_address: string;
+}
+
+interface SafeOwnerChangeRow {
+  safe: string;
+  type: SafeOwnerChange['type'];
+  owners: string;
+  threshold: number | null;
+  block_number: number;
+  time_stamp: number;
+  hash: string;
+  log_index: number;
+  tracked_address: string;
+}
+
+interface BalancePointRow {
+  address: string;
+  asset: string;
+  symbol: string;
+  decimals: number;
+  block_number: number;
+  time_stamp: number;
+  change: string;
+  balance: string;
+}
+
+interface FundFlowHopRow {
+  root: string;
+  asset: string;
+  symbol: string;
+  decimals: number;
+  depth: number;
+  from_address: string;
+  to_address: string;
+  hash: string;
+  block_number: number;
+  time_stamp: number;
+  value: string;
+  attributed: string;
+  terminal: number;
+  traced_at: string;
+}
+
+interface ValuationRow {
+  kind: string;
+  record_key: string;
+  hash: string;
+  time_stamp: number;
+  asset: string;
+  symbol: string;
+  amount: string;
+  price: number | null;
+  usd_value: number | null;
+  source: string;
+  valued_at: string;
+}
+
+interface AddressLabelRow {
+  address: string;
+  name: string;
+  category: string | null;
+  source: string;
+  updated_at: string;
+}
+
+interface CoveredRangeRow {
+  type: DataType;
+  address: string;
+  from_block: number;
+  to_block: number;
+}
+
+interface ResolvedDateRow {
+  input: string;
+  timestamp: number;
+  closest: BlockClosest;
+  block_number: number;
+  resolved_at: string;
+}
+
+interface SyncStateRow {
+  type: DataType;
+  last_block: number;
+  count: number;
+  last_processed_timestamp: string;
+}
+
+// One connection per database file, shared by the per-chain storage instances
+const connections = new Map<string, Database.Database>();
+
+const SYNC_TABLES: Record<keyof DeduplicationResult, string> = {
+  normal: 'normal_transactions',
+  internal: 'internal_transactions',
+  tokenTransfers: 'token_transfers',
+  nftTransfers: 'nft_transfers',
+  logs: 'event_logs'
+};
+
+// Keeps the first stored copy of every record and recounts sync state
+function removeDuplicates(db: Database.Database, organization?: string, chainId?: number): DeduplicationResult {
+  const result: DeduplicationResult = { normal: 0, internal: 0, tokenTransfers: 0, nftTransfers: 0, logs: 0 };
+  const scope = organization !== undefined ? 'AND organization = @organization AND chain_id = @chainId' : '';
+  const params = organization !== undefined ? { organization, chainId } : {};
+
+  for (const [type, table] of Object.entries(SYNC_TABLES) as Array<[keyof DeduplicationResult, string]>) {
+    result[type] = db.prepare(`
+      DELETE FROM ${table} WHERE id NOT IN (
+        SELECT MIN(id) FROM ${table} GROUP BY organization, chain_id, record_key
+      ) ${scope}
+    `).run(params).changes;
+
+    db.prepare(`
+      UPDATE sync_state SET count = (
+        SELECT COUNT(*) FROM ${table} t
+        WHERE t.organization = sync_state.organization AND t.chain_id = sync_state.chain_id
+      ) WHERE type = '${type}' ${scope}
+    `).run(params);
+  }
+
+  return result;
+}
+
+function openDatabase(filePath: string): Database.Database {
+  const resolved = path.resolve(filePath);
+  let db = connections.get(resolved);
+  if (!db) {
+    fs.ensureDirSync(path.dirname(resolved));
+    db = new Database(resolved);
+    db.pragma('journal_mode = WAL');
+
+    // SCHEMA only creates what is missing, so it also completes tables
+    // created without it
+    if (db.pragma('user_version', { simple: true }) === 0) {
+      db.exec(SCHEMA);
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+
+    connections.set(resolved, db);
+  }
+  return db;
+}
+
+function toTransaction(row: TransactionRow): Transaction {
+  return {
+    hash: row.hash,
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    from: row.from_address,
+    to: row.to_address,
+    value: row.value,
+    gas: row.gas,
+    gasPrice: row.gas_price,
+    gasUsed: row.gas_used,
+    txType: row.tx_type,
+    maxFeePerGas: row.max_fee_per_gas,
+    maxPriorityFeePerGas: row.max_priority_fee_per_gas,
+    baseFeePerGas: row.base_fee_per_gas,
+    isError: row.is_error,
+    txreceipt_status: row.txreceipt_status,
+    input: row.input,
+    contractAddress: row.contract_address,
+    methodId: row.method_id,
+    functionName: row.function_name,
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toInternalTransaction(row: InternalTransactionRow): InternalTransaction {
+  return {
+    hash: row.hash,
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    ...(row.trace_id ? { traceId: row.trace_id } : {}),
+    type: row.type,
+    from: row.from_address,
+    to: row.to_address,
+    value: row.value,
+    contractAddress: row.contract_address,
+    input: row.input,
+    gas: row.gas,
+    gasUsed: row.gas_used,
+    isError: row.is_error,
+    errCode: row.err_code,
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toTokenTransfer(row: TokenTransferRow): TokenTransfer {
+  return {
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    hash: row.hash,
+    from: row.from_address,
+    to: row.to_address,
+    value: row.value,
+    contractAddress: row.contract_address,
+    tokenName: row.token_name,
+    tokenSymbol: row.token_symbol,
+    tokenDecimal: row.token_decimal,
+    transactionIndex: row.transaction_index,
+    gas: row.gas,
+    gasPrice: row.gas_price,
+    gasUsed: row.gas_used,
+    ...(row.log_index !== null && row.log_index !== undefined ? { logIndex: row.log_index } : {}),
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toNftTransfer(row: NftTransferRow): NftTransfer {
+  return {
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    hash: row.hash,
+    from: row.from_address,
+    to: row.to_address,
+    contractAddress: row.contract_address,
+    tokenStandard: row.token_standard === 'erc1155' ? 'erc1155' : 'erc721',
+    tokenID: row.token_id,
+    tokenValue: row.token_value,
+    tokenName: row.token_name,
+    tokenSymbol: row.token_symbol,
+    transactionIndex: row.transaction_index,
+    gas: row.gas,
+    gasPrice: row.gas_price,
+    gasUsed: row.gas_used,
+    ...(row.log_index !== null ? { logIndex: row.log_index } : {}),
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toLogEntry(row: EventLogRow): LogEntry {
+  return {
+    address: row.address,
+    topics: [row.topic0, row.topic1, row.topic2, row.topic3].filter((topic): topic is string => topic !== null),
+    data: row.data,
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    hash: row.hash,
+    transactionIndex: row.transaction_index,
+    logIndex: row.log_index,
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toDecodedCall(row: DecodedCallRow): DecodedCall {
+  return {
+    hash: row.hash,
+    blockNumber: row.block_number,
+    contractAddress: row.contract_address,
+    selector: row.selector,
+    functionName: row.function_name,
+    signature: row.signature,
+    args: JSON.parse(row.args),
+    abiSource: row.abi_source,
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toDecodedEvent(row: DecodedEventRow): DecodedEvent {
+  return {
+    hash: row.hash,
+    logIndex: row.log_index,
+    blockNumber: row.block_number,
+    address: row.address,
+    topic0: row.topic0,
+    eventName: row.event_name,
+    signature: row.signature,
+    args: JSON.parse(row.args),
+    abiSource: row.abi_source,
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toGovernanceProposal(row: GovernanceProposalRow): GovernanceProposal {
+  return {
+    governor: row.governor,
+    proposalId: row.proposal_id,
+    proposer: row.proposer,
+    description: row.description,
+    actions: JSON.parse(row.actions),
+    voteStart: row.vote_start,
+    voteEnd: row.vote_end,
+    createdBlock: row.created_block,
+    createdAt: row.created_at,
+    hash: row.hash,
+    forVotes: row.for_votes,
+    againstVotes: row.against_votes,
+    abstainVotes: row.abstain_votes,
+    voterCount: row.voter_count,
+    status: row.status,
+    ...(row.queued_block !== null ? { queuedBlock: row.queued_block } : {}),
+    ...(row.eta !== null ? { eta: row.eta } : {}),
+    ...(row.executed_block !== null ? { executedBlock: row.executed_block } : {}),
+    ...(row.canceled_block !== null ? { canceledBlock: row.canceled_block } : {}),
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toGovernanceVote(row: GovernanceVoteRow): GovernanceVote {
+  return {
+    governor: row.governor,
+    proposalId: row.proposal_id,
+    voter: row.voter,
+    support: row.support,
+    weight: row.weight,
+    reason: row.reason,
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    hash: row.hash,
+    logIndex: row.log_index,
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toSafeTransaction(row: SafeTransactionRow): SafeTransaction {
+  return {
+    safe: row.safe,
+    hash: row.hash,
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    executor: row.executor,
+    to: row.to_address,
+    value: row.value,
+    data: row.data,
+    operation: row.operation,
+    ...(row.safe_tx_hash !== null ? { safeTxHash: row.safe_tx_hash } : {}),
+    success: row.success === 1,
+    signers: JSON.parse(row.signers),
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toSafeOwnerChange(row: SafeOwnerChangeRow): SafeOwnerChange {
+  return {
+    safe: row.safe,
+    type: row.type,
+    owners: JSON.parse(row.owners),
+    ...(row.threshold !== null ? { threshold: row.threshold } : {}),
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    hash: row.hash,
+    logIndex: row.log_index,
+    ...(row.tracked_address ? { trackedAddress: row.tracked_address } : {})
+  };
+}
+
+function toBalancePoint(row: BalancePointRow): BalancePoint {
+  return {
+    address: row.address,
+    asset: row.asset,
+    symbol: row.symbol,
+    decimals: row.decimals,
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    change: row.change,
+    balance: row.balance
+  };
+}
+
+function toFundFlowHop(row: FundFlowHopRow): FundFlowHop {
+  return {
+    root: row.root,
+    asset: row.asset,
+    symbol: row.symbol,
+    decimals: row.decimals,
+    depth: row.depth,
+    from: row.from_address,
+    to: row.to_address,
+    hash: row.hash,
+    blockNumber: row.block_number,
+    timeStamp: row.time_stamp,
+    value: row.value,
+    attributed: row.attributed,
+    terminal: row.terminal === 1,
+    tracedAt: row.traced_at
+  };
+}
+
+function toValuation(row: ValuationRow): Valuation {
+  return {
+    kind: row.kind as ValuationKind,
+    recordKey: row.record_key,
+    hash: row.hash,
+    timeStamp: row.time_stamp,
+    asset: row.asset,
+    symbol: row.symbol,
+    amount: row.amount,
+    ...(row.price !== null ? { price: row.price } : {}),
+    ...(row.usd_value !== null ? { usdValue: row.usd_value } : {}),
+    source: row.source,
+    valuedAt: row.valued_at
+  };
+}
+
+function toAddressLabel(row: AddressLabelRow): AddressLabel {
+  return {
+    address: row.address,
+    name: row.name,
+    ...(row.category ? { category: row.category as LabelCategory } : {}),
+    source: row.source as LabelSource,
+    updatedAt: row.updated_at
+  };
+}
+
+function toOrganization(row: OrganizationRow): Organization {
+  const addresses = JSON.parse(row.addresses ?? '[]');
+  return {
+    address: row.address,
+    ...(addresses.length > 0 ? { addresses } : {}),
+    name: row.name,
+    chainId: row.chain_id,
+    chains: JSON.parse(row.chains),
+    ...(row.tags ? { tags: JSON.parse(row.tags) } : {}),
+    ...(row.description ? { description: row.description } : {}),
+    dateAdded: row.date_added
+  };
+}
+
+export class SqliteStorage implements IDataStorage {
+  private readonly db: Database.Database;
+
+  constructor(
+    private readonly chainId: number = 1,
+    filePath: string = path.join(process.cwd(), 'data', 'analyzer.db')
+  ) {
+    this.db = openDatabase(filePath);
+  }
+
+  private initializeSyncState(name: string): void {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO sync_state (organization, chain_id, type, last_processed_timestamp)
+      VALUES (?, ?, ?, ?)
+    `);
+    const now = new Date().toISOString();
+    for (const type of Object.keys(SYNC_TABLES)) {
+      insert.run(name, this.chainId, type, now);
+    }
+  }
+
+  // Must run inside the transaction that wrote the records it accounts for
+  private updateSyncState(name: string, type: DataType, lastBlock: number, addedCount: number): void {
+    this.db.prepare(`
+      INSERT INTO sync_state (organization, chain_id, type, last_block, count, last_processed_timestamp)
+      VALUES (@name, @chainId, @type, @lastBlock, @addedCount, @now)
+      ON CONFLICT (organization, chain_id, type) DO UPDATE SET
+        last_block = MAX(last_block, excluded.last_block),
+        count = count + excluded.count,
+        last_processed_timestamp = excluded.last_processed_timestamp
+    `).run({ name, chainId: this.chainId, type, lastBlock, addedCount, now: new Date().toISOString() });
+  }
+
+  async saveOrganization(organization: Organization): Promise<void> {
+    try {
+      this.db.transaction(() => {
+        const existing = this.db
+          .prepare('SELECT * FROM organizations WHERE name = ?')
+          .get(organization.name) as OrganizationRow | undefined;
+
+        const merged = mergeOrganization(existing ? toOrganization(existing) : null, organization, this.chainId);
+
+        this.db.prepare(`
+          INSERT OR REPLACE INTO organizations (name, address, chain_id, chains, addresses, tags, description, date_added)
+          VALUES (@name, @address, @chainId, @chains, @addresses, @tags, @description, @dateAdded)
+        `).run({
+          name: merged.name,
+          address: merged.address,
+          chainId: merged.chainId,
+          chains: JSON.stringify(merged.chains),
+          addresses: JSON.stringify(merged.addresses),
+          tags: merged.tags ? JSON.stringify(merged.tags) : null,
+          description: merged.description ?? null,
+          dateAdded: merged.dateAdded
+        });
+
+        this.initializeSyncState(organization.name);
+      })();
+
+      logger.info(`Organization ${organization.name} saved successfully`);
+    } catch (error) {
+      logger.error(`Failed to save organization ${organization.name}`, error);
+      throw new StorageError(`Failed to save organization ${organization.name}`, error);
+    }
+  }
+
+  async getOrganization(address: string): Promise<Organization | null> {
+    const organizations = await this.listOrganizations();
+    return organizations.find(organization => hasAddress(organization, address)) ?? null;
+  }
+
+  async getOrganizationByName(name: string): Promise<Organization | null> {
+    const row = this.db
+      .prepare('SELECT * FROM organizations WHERE name = ?')
+      .get(name) as OrganizationRow | undefined;
+    return row ? toOrganization(row) : null;
+  }
+
+  async listOrganizations(): Promise<Organization[]> {
+    const rows = this.db.prepare('SELECT * FROM organizations ORDER BY name').all() as OrganizationRow[];
+    return rows.map(toOrganization);
+  }
+
+  async removeOrganization(name: string): Promise<boolean> {
+    try {
+      const removed = this.db.prepare('DELETE FROM organizations WHERE name = ?').run(name).changes > 0;
+      if (removed) {
+        logger.info(`Organization ${name} removed from the registry`);
+      }
+      return removed;
+    } catch (error) {
+      logger.error(`Failed to remove organization ${name}`, error);
+      throw new StorageError(`Failed to remove organization ${name}`, error);
+    }
+  }
+
+  async getLastProcessedState(name: string): Promise<StorageState | null> {
+    const rows = this.db
+      .prepare('SELECT type, last_block, count, last_processed_timestamp FROM sync_state WHERE organization = ? AND chain_id = ?')
+      .all(name, this.chainId) as SyncStateRow[];
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const state: StorageState = {
+      lastProcessedBlock: 0,
+      lastProcessedTimestamp: now,
+      totalTransactions: 0,
+      transactionTypes: {
+        normal: { lastBlock: 0, count: 0, lastProcessedTimestamp: now },
+        internal: { lastBlock: 0, count: 0, lastProcessedTimestamp: now },
+        tokenTransfers: { lastBlock: 0, count: 0, lastProcessedTimestamp: now },
+        nftTransfers: { lastBlock: 0, count: 0, lastProcessedTimestamp: now },
+        logs: { lastBlock: 0, count: 0, lastProcessedTimestamp: now }
+      }
+    };
+
+    const ranges = this.db
+      .prepare('SELECT type, address, from_block, to_block FROM covered_ranges WHERE organization = ? AND chain_id = ? ORDER BY from_block')
+      .all(name, this.chainId) as CoveredRangeRow[];
+
+    for (const row of rows) {
+      const coveredRanges: Record<string, BlockRange[]> = {};
+      for (const range of ranges.filter(range => range.type === row.type)) {
+        (coveredRanges[range.address] ??= []).push({ fromBlock: range.from_block, toBlock: range.to_block });
+      }
+
+      state.transactionTypes[row.type] = {
+        lastBlock: row.last_block,
+        count: row.count,
+        lastProcessedTimestamp: row.last_processed_timestamp,
+        coveredRanges
+      };
+      state.totalTransactions += row.count;
+      state.lastProcessedBlock = Math.max(state.lastProcessedBlock, row.last_block);
+    }
+    state.lastProcessedTimestamp = rows
+      .map(row => row.last_processed_timestamp)
+      .sort()
+      .reverse()[0];
+
+    const resolvedDates = this.db
+      .prepare('SELECT * FROM resolved_dates WHERE organization = ? AND chain_id = ? ORDER BY resolved_at')
+      .all(name, this.chainId) as ResolvedDateRow[];
+    if (resolvedDates.length > 0) {
+      state.resolvedDates = resolvedDates.map(row => ({
+        input: row.input,
+        timestamp: row.timestamp,
+        closest: row.closest,
+        blockNumber: row.block_number,
+        resolvedAt: row.resolved_at
+      }));
+    }
+
+    return state;
+  }
+
+  async markRangeCovered(
+    organizationName: string,
+    type: DataType,
+    address: string,
+    range: BlockRange
+  ): Promise<void> {
+    try {
+      this.db.transaction(() => {
+        const scope = { organization: organizationName, chainId: this.chainId, type, address: address.toLowerCase() };
+        const existing = this.db.prepare(`
+          SELECT type, address, from_block, to_block FROM covered_ranges
+          WHERE organization = @organization AND chain_id = @chainId AND type = @type AND address = @address
+        `).all(scope) as CoveredRangeRow[];
+
+        const merged = mergeRanges([
+          ...existing.map(row => ({ fromBlock: row.from_block, toBlock: row.to_block })),
+          range
+        ]);
+
+        this.db.prepare(`
+          DELETE FROM covered_ranges
+          WHERE organization = @organization AND chain_id = @chainId AND type = @type AND address = @address
+        `).run(scope);
+
+        const insert = this.db.prepare(`
+          INSERT INTO covered_ranges (organization, chain_id, type, address, from_block, to_block)
+          VALUES (@organization, @chainId, @type, @address, @fromBlock, @toBlock)
+        `);
+        for (const covered of merged) {
+          insert.run({ ...scope, ...covered });
+        }
+      })();
+    } catch (error) {
+      logger.error(`Failed to record covered blocks for ${organizationName}`, error);
+      throw new StorageError(`Failed to record covered blocks for ${organizationName}`, error);
+    }
+  }
+
+  async saveResolvedDate(organizationName: string, resolved: ResolvedDate): Promise<void> {
+    try {
+      this.db.prepare(`
+        INSERT OR REPLACE INTO resolved_dates
+          (organization, chain_id, timestamp, closest, input, block_number, resolved_at)
+        VALUES (@organization, @chainId, @timestamp, @closest, @input, @blockNumber, @resolvedAt)
+      `).run({ organization: organizationName, chainId: this.chainId, ...resolved });
+    } catch (error) {
+      logger.error(`Failed to record resolved date for ${organizationName}`, error);
+      throw new StorageError(`Failed to record resolved date for ${organizationName}`, error);
+    }
+  }
+
+  async saveTransactions(
+    organizationName: string,
+    transactions: Transaction[]
+  ): Promise<number> {
+    if (transactions.length === 0) return 0;
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO normal_transactions (
+        organization, chain_id, hash, block_number, time_stamp, from_address, to_address, value,
+        gas, gas_price, gas_used, tx_type, max_fee_per_gas, max_priority_fee_per_gas, base_fee_per_gas,
+        is_error, txreceipt_status, input, contract_address, method_id, function_name, tracked_address, record_key
+      ) VALUES (
+        @organization, @chainId, @hash, @blockNumber, @timeStamp, @from, @to, @value,
+        @gas, @gasPrice, @gasUsed, @txType, @maxFeePerGas, @maxPriorityFeePerGas, @baseFeePerGas,
+        @isError, @txreceipt_status, @input, @contractAddress, @methodId, @functionName, @trackedAddress, @recordKey
+      )
+    `);
+
+    try {
+      const lastBlock = transactions.reduce((max, t) => Math.max(max, Number(t.blockNumber) || 0), 0);
+
+      const saved = this.db.transaction(() => {
+        let inserted = 0;
+        for (const tx of transactions) {
+          inserted += insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            hash: tx.hash || '',
+            blockNumber: Number(tx.blockNumber) || 0,
+            timeStamp: Number(tx.timeStamp) || 0,
+            from: tx.from || '',
+            to: tx.to || '',
+            value: tx.value?.toString() || '0',
+            gas: tx.gas?.toString() || '0',
+            gasPrice: tx.gasPrice?.toString() || '0',
+            gasUsed: tx.gasUsed?.toString() || '',
+            txType: tx.txType ?? '',
+            maxFeePerGas: tx.maxFeePerGas ?? '',
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? '',
+            baseFeePerGas: tx.baseFeePerGas ?? '',
+            isError: tx.isError?.toString() || '0',
+            txreceipt_status: tx.txreceipt_status?.toString() || '',
+            input: tx.input || '',
+            contractAddress: tx.contractAddress || '',
+            methodId: tx.methodId || '',
+            functionName: tx.functionName || '',
+            trackedAddress: tx.trackedAddress || '',
+            recordKey: getTransactionKey(tx)
+          }).changes;
+        }
+        this.updateSyncState(organizationName, 'normal', lastBlock, inserted);
+        return inserted;
+      })();
+
+      const skipped = transactions.length - saved;
+      logger.info(`Saved ${saved} normal transactions for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save transactions for ${organizationName}`, error);
+      throw new StorageError(`Failed to save normal transactions for ${organizationName}`, error);
+    }
+  }
+
+  async saveInternalTransactions(
+    organizationName: string,
+    transactions: InternalTransaction[]
+  ): Promise<number> {
+    if (transactions.length === 0) return 0;
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO internal_transactions (
+        organization, chain_id, hash, block_number, time_stamp, trace_id, type, from_address, to_address,
+        value, contract_address, input, gas, gas_used, is_error, err_code, tracked_address, record_key
+      ) VALUES (
+        @organization, @chainId, @hash, @blockNumber, @timeStamp, @traceId, @type, @from, @to,
+        @value, @contractAddress, @input, @gas, @gasUsed, @isError, @errCode, @trackedAddress, @recordKey
+      )
+    `);
+
+    try {
+      const lastBlock = transactions.reduce((max, t) => Math.max(max, Number(t.blockNumber) || 0), 0);
+
+      const saved = this.db.transaction(() => {
+        let inserted = 0;
+        for (const tx of transactions) {
+          inserted += insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            hash: tx.hash || '',
+            blockNumber: Number(tx.blockNumber) || 0,
+            timeStamp: Number(tx.timeStamp) || 0,
+            traceId: tx.traceId || '',
+            type: tx.type || '',
+            from: tx.from || '',
+            to: tx.to || '',
+            value: tx.value?.toString() || '0',
+            contractAddress: tx.contractAddress || '',
+            input: tx.input || '',
+            gas: tx.gas?.toString() || '0',
+            gasUsed: tx.gasUsed?.toString() || '',
+            isError: tx.isError?.toString() || '0',
+            errCode: tx.errCode || '',
+            trackedAddress: tx.trackedAddress || '',
+            recordKey: getInternalTransactionKey(tx)
+          }).changes;
+        }
+        this.updateSyncState(organizationName, 'internal', lastBlock, inserted);
+        return inserted;
+      })();
+
+      const skipped = transactions.length - saved;
+      logger.info(`Saved ${saved} internal transactions for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save internal transactions for ${organizationName}`, error);
+      throw new StorageError(`Failed to save internal transactions for ${organizationName}`, error);
+    }
+  }
+
+  async saveTokenTransfers(
+    organizationName: string,
+    transfers: TokenTransfer[]
+  ): Promise<number> {
+    if (transfers.length === 0) return 0;
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO token_transfers (
+        organization, chain_id, hash, block_number, time_stamp, from_address, to_address, value,
+        contract_address, token_name, token_symbol, token_decimal, transaction_index, gas, gas_price, gas_used,
+        log_index, tracked_address, record_key
+      ) VALUES (
+        @organization, @chainId, @hash, @blockNumber, @timeStamp, @from, @to, @value,
+        @contractAddress, @tokenName, @tokenSymbol, @tokenDecimal, @transactionIndex, @gas, @gasPrice, @gasUsed,
+        @logIndex, @trackedAddress, @recordKey
+      )
+    `);
+
+    try {
+      const lastBlock = transfers.reduce((max, t) => Math.max(max, Number(t.blockNumber) || 0), 0);
+
+      const saved = this.db.transaction(() => {
+        let inserted = 0;
+        for (const transfer of transfers) {
+          inserted += insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            hash: transfer.hash,
+            blockNumber: Number(transfer.blockNumber),
+            timeStamp: Number(transfer.timeStamp),
+            from: transfer.from,
+            to: transfer.to,
+            value: transfer.value.toString(),
+            contractAddress: transfer.contractAddress,
+            tokenName: transfer.tokenName ?? '',
+            tokenSymbol: transfer.tokenSymbol ?? '',
+            tokenDecimal: transfer.tokenDecimal ?? '',
+            transactionIndex: Number(transfer.transactionIndex) || 0,
+            gas: transfer.gas?.toString() ?? '',
+            gasPrice: transfer.gasPrice?.toString() ?? '',
+            gasUsed: transfer.gasUsed?.toString() ?? '',
+            logIndex: transfer.logIndex ?? null,
+            trackedAddress: transfer.trackedAddress ?? '',
+            recordKey: getTokenTransferKey(transfer)
+          }).changes;
+        }
+        this.updateSyncState(organizationName, 'tokenTransfers', lastBlock, inserted);
+        return inserted;
+      })();
+
+      const skipped = transfers.length - saved;
+      logger.info(`Saved ${saved} token transfers for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save token transfers for ${organizationName}`, error);
+      throw new StorageError(`Failed to save token transfers for ${organizationName}`, error);
+    }
+  }
+
+  async saveNftTransfers(
+    organizationName: string,
+    transfers: NftTransfer[]
+  ): Promise<number> {
+    if (transfers.length === 0) return 0;
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO nft_transfers (
+        organization, chain_id, hash, block_number, time_stamp, from_address, to_address, contract_address,
+        token_standard, token_id, token_value, token_name, token_symbol, transaction_index, gas, gas_price, gas_used,
+        log_index, tracked_address, record_key
+      ) VALUES (
+        @organization, @chainId, @hash, @blockNumber, @timeStamp, @from, @to, @contractAddress,
+        @tokenStandard, @tokenID, @tokenValue, @tokenName, @tokenSymbol, @transactionIndex, @gas, @gasPrice, @gasUsed,
+        @logIndex, @trackedAddress, @recordKey
+      )
+    `);
+
+    try {
+      const lastBlock = transfers.reduce((max, t) => Math.max(max, Number(t.blockNumber) || 0), 0);
+
+      const saved = this.db.transaction(() => {
+        let inserted = 0;
+        for (const transfer of transfers) {
+          inserted += insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            hash: transfer.hash,
+            blockNumber: Number(transfer.blockNumber),
+            timeStamp: Number(transfer.timeStamp),
+            from: transfer.from,
+            to: transfer.to,
+            contractAddress: transfer.contractAddress,
+            tokenStandard: transfer.tokenStandard,
+            tokenID: transfer.tokenID,
+            tokenValue: transfer.tokenValue,
+            tokenName: transfer.tokenName ?? '',
+            tokenSymbol: transfer.tokenSymbol ?? '',
+            transactionIndex: Number(transfer.transactionIndex) || 0,
+            gas: transfer.gas?.toString() ?? '',
+            gasPrice: transfer.gasPrice?.toString() ?? '',
+            gasUsed: transfer.gasUsed?.toString() ?? '',
+            logIndex: transfer.logIndex ?? null,
+            trackedAddress: transfer.trackedAddress ?? '',
+            recordKey: getNftTransferKey(transfer)
+          }).changes;
+        }
+        this.updateSyncState(organizationName, 'nftTransfers', lastBlock, inserted);
+        return inserted;
+      })();
+
+      const skipped = transfers.length - saved;
+      logger.info(`Saved ${saved} NFT transfers for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save NFT transfers for ${organizationName}`, error);
+      throw new StorageError(`Failed to save NFT transfers for ${organizationName}`, error);
+    }
+  }
+
+  async saveLogs(
+    organizationName: string,
+    logs: LogEntry[]
+  ): Promise<number> {
+    if (logs.length === 0) return 0;
+
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO event_logs (
+        organization, chain_id, hash, block_number, time_stamp, address, topic0, topic1, topic2, topic3,
+        data, transaction_index, log_index, tracked_address, record_key
+      ) VALUES (
+        @organization, @chainId, @hash, @blockNumber, @timeStamp, @address, @topic0, @topic1, @topic2, @topic3,
+        @data, @transactionIndex, @logIndex, @trackedAddress, @recordKey
+      )
+    `);
+
+    try {
+      const lastBlock = logs.reduce((max, log) => Math.max(max, Number(log.blockNumber) || 0), 0);
+
+      const saved = this.db.transaction(() => {
+        let inserted = 0;
+        for (const log of logs) {
+          inserted += insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            hash: log.hash,
+            blockNumber: Number(log.blockNumber),
+            timeStamp: Number(log.timeStamp),
+            address: log.address,
+            topic0: log.topics[0] ?? null,
+            topic1: log.topics[1] ?? null,
+            topic2: log.topics[2] ?? null,
+            topic3: log.topics[3] ?? null,
+            data: log.data,
+            transactionIndex: Number(log.transactionIndex),
+            logIndex: Number(log.logIndex),
+            trackedAddress: log.trackedAddress ?? '',
+            recordKey: getLogKey(log)
+          }).changes;
+        }
+        this.updateSyncState(organizationName, 'logs', lastBlock, inserted);
+        return inserted;
+      })();
+
+      const skipped = logs.length - saved;
+      logger.info(`Saved ${saved} event logs for ${organizationName} (Last block: ${lastBlock}${skipped ? `, ${skipped} duplicates skipped` : ''})`);
+      return saved;
+    } catch (error) {
+      logger.error(`Failed to save event logs for ${organizationName}`, error);
+      throw new StorageError(`Failed to save event logs for ${organizationName}`, error);
+    }
+  }
+
+  async saveDecodedCalls(organizationName: string, calls: DecodedCall[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO decoded_calls (
+        organization, chain_id, hash, block_number, contract_address, selector, function_name,
+        signature, args, abi_source, tracked_address
+      ) VALUES (
+        @organization, @chainId, @hash, @blockNumber, @contractAddress, @selector, @functionName,
+        @signature, @args, @abiSource, @trackedAddress
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM decoded_calls WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const call of calls) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            hash: call.hash,
+            blockNumber: call.blockNumber,
+            contractAddress: call.contractAddress,
+            selector: call.selector,
+            functionName: call.functionName,
+            signature: call.signature,
+            args: JSON.stringify(call.args),
+            abiSource: call.abiSource,
+            trackedAddress: call.trackedAddress ?? ''
+          });
+        }
+      })();
+
+      logger.info(`Saved ${calls.length} decoded calls for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save decoded calls for ${organizationName}`, error);
+      throw new StorageError(`Failed to save decoded calls for ${organizationName}`, error);
+    }
+  }
+
+  async saveDecodedEvents(organizationName: string, events: DecodedEvent[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO decoded_events (
+        organization, chain_id, hash, log_index, block_number, address, topic0, event_name,
+        signature, args, abi_source, tracked_address
+      ) VALUES (
+        @organization, @chainId, @hash, @logIndex, @blockNumber, @address, @topic0, @eventName,
+        @signature, @args, @abiSource, @trackedAddress
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM decoded_events WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const event of events) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            hash: event.hash,
+            logIndex: event.logIndex,
+            blockNumber: event.blockNumber,
+            address: event.address,
+            topic0: event.topic0,
+            eventName: event.eventName,
+            signature: event.signature,
+            args: JSON.stringify(event.args),
+            abiSource: event.abiSource,
+            trackedAddress: event.trackedAddress ?? ''
+          });
+        }
+      })();
+
+      logger.info(`Saved ${events.length} decoded events for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save decoded events for ${organizationName}`, error);
+      throw new StorageError(`Failed to save decoded events for ${organizationName}`, error);
+    }
+  }
+
+  async saveGovernanceProposals(organizationName: string, proposals: GovernanceProposal[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO governance_proposals (
+        organization, chain_id, governor, proposal_id, proposer, status, for_votes, against_votes,
+        abstain_votes, voter_count, vote_start, vote_end, created_block, created_at, hash, queued_block,
+        eta, executed_block, canceled_block, actions, description, tracked_address
+      ) VALUES (
+        @organization, @chainId, @governor, @proposalId, @proposer, @status, @forVotes, @againstVotes,
+        @abstainVotes, @voterCount, @voteStart, @voteEnd, @createdBlock, @createdAt, @hash, @queuedBlock,
+        @eta, @executedBlock, @canceledBlock, @actions, @description, @trackedAddress
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM governance_proposals WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const proposal of [...proposals].sort((a, b) => a.createdBlock - b.createdBlock)) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            governor: proposal.governor,
+            proposalId: proposal.proposalId,
+            proposer: proposal.proposer,
+            status: proposal.status,
+            forVotes: proposal.forVotes,
+            againstVotes: proposal.againstVotes,
+            abstainVotes: proposal.abstainVotes,
+            voterCount: proposal.voterCount,
+            voteStart: proposal.voteStart,
+            voteEnd: proposal.voteEnd,
+            createdBlock: proposal.createdBlock,
+            createdAt: proposal.createdAt,
+            hash: proposal.hash,
+            queuedBlock: proposal.queuedBlock ?? null,
+            eta: proposal.eta ?? null,
+            executedBlock: proposal.executedBlock ?? null,
+            canceledBlock: proposal.canceledBlock ?? null,
+            actions: JSON.stringify(proposal.actions),
+            description: proposal.description,
+            trackedAddress: proposal.trackedAddress ?? ''
+          });
+        }
+      })();
+
+      logger.info(`Saved ${proposals.length} governance proposals for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save governance proposals for ${organizationName}`, error);
+      throw new StorageError(`Failed to save governance proposals for ${organizationName}`, error);
+    }
+  }
+
+  async saveGovernanceVotes(organizationName: string, votes: GovernanceVote[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO governance_votes (
+        organization, chain_id, governor, proposal_id, voter, support, weight, reason,
+        block_number, time_stamp, hash, log_index, tracked_address
+      ) VALUES (
+        @organization, @chainId, @governor, @proposalId, @voter, @support, @weight, @reason,
+        @blockNumber, @timeStamp, @hash, @logIndex, @trackedAddress
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM governance_votes WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const vote of votes) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            governor: vote.governor,
+            proposalId: vote.proposalId,
+            voter: vote.voter,
+            support: vote.support,
+            weight: vote.weight,
+            reason: vote.reason,
+            blockNumber: vote.blockNumber,
+            timeStamp: vote.timeStamp,
+            hash: vote.hash,
+            logIndex: vote.logIndex,
+            trackedAddress: vote.trackedAddress ?? ''
+          });
+        }
+      })();
+
+      logger.info(`Saved ${votes.length} governance votes for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save governance votes for ${organizationName}`, error);
+      throw new StorageError(`Failed to save governance votes for ${organizationName}`, error);
+    }
+  }
+
+  async saveSafeTransactions(organizationName: string, transactions: SafeTransaction[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO safe_transactions (
+        organization, chain_id, safe, hash, block_number, time_stamp, executor, to_address,
+        value, data, operation, safe_tx_hash, success, signers, tracked_address
+      ) VALUES (
+        @organization, @chainId, @safe, @hash, @blockNumber, @timeStamp, @executor, @to,
+        @value, @data, @operation, @safeTxHash, @success, @signers, @trackedAddress
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM safe_transactions WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const tx of transactions) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            safe: tx.safe,
+            hash: tx.hash,
+            blockNumber: tx.blockNumber,
+            timeStamp: tx.timeStamp,
+            executor: tx.executor,
+            to: tx.to,
+            value: tx.value,
+            data: tx.data,
+            operation: tx.operation,
+            safeTxHash: tx.safeTxHash ?? null,
+            success: tx.success ? 1 : 0,
+            signers: JSON.stringify(tx.signers),
+            trackedAddress: tx.trackedAddress ?? ''
+          });
+        }
+      })();
+
+      logger.info(`Saved ${transactions.length} Safe transactions for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save Safe transactions for ${organizationName}`, error);
+      throw new StorageError(`Failed to save Safe transactions for ${organizationName}`, error);
+    }
+  }
+
+  async saveSafeOwnerChanges(organizationName: string, changes: SafeOwnerChange[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO safe_owner_changes (
+        organization, chain_id, safe, type, owners, threshold, block_number, time_stamp,
+        hash, log_index, tracked_address
+      ) VALUES (
+        @organization, @chainId, @safe, @type, @owners, @threshold, @blockNumber, @timeStamp,
+        @hash, @logIndex, @trackedAddress
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM safe_owner_changes WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const change of changes) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            safe: change.safe,
+            type: change.type,
+            owners: JSON.stringify(change.owners),
+            threshold: change.threshold ?? null,
+            blockNumber: change.blockNumber,
+            timeStamp: change.timeStamp,
+            hash: change.hash,
+            logIndex: change.logIndex,
+            trackedAddress: change.trackedAddress ?? ''
+          });
+        }
+      })();
+
+      logger.info(`Saved ${changes.length} Safe owner changes for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save Safe owner changes for ${organizationName}`, error);
+      throw new StorageError(`Failed to save Safe owner changes for ${organizationName}`, error);
+    }
+  }
+
+  async saveBalanceHistory(organizationName: string, points: BalancePoint[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO balance_history (
+        organization, chain_id, address, asset, symbol, decimals, block_number, time_stamp, change, balance
+      ) VALUES (
+        @organization, @chainId, @address, @asset, @symbol, @decimals, @blockNumber, @timeStamp, @change, @balance
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM balance_history WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const point of points) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            address: point.address,
+            asset: point.asset,
+            symbol: point.symbol,
+            decimals: point.decimals,
+            blockNumber: point.blockNumber,
+            timeStamp: point.timeStamp,
+            change: point.change,
+            balance: point.balance
+          });
+        }
+      })();
+
+      logger.info(`Saved ${points.length} balance points for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save balance history for ${organizationName}`, error);
+      throw new StorageError(`Failed to save balance history for ${organizationName}`, error);
+    }
+  }
+
+  async getTransactions(organizationName: string): Promise<Transaction[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM normal_transactions
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as TransactionRow[];
+
+    return rows.map(toTransaction);
+  }
+
+  async getInternalTransactions(organizationName: string): Promise<InternalTransaction[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM internal_transactions
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as InternalTransactionRow[];
+
+    return rows.map(toInternalTransaction);
+  }
+
+  async getTokenTransfers(organizationName: string): Promise<TokenTransfer[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM token_transfers
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as TokenTransferRow[];
+
+    return rows.map(toTokenTransfer);
+  }
+
+  async getNftTransfers(organizationName: string): Promise<NftTransfer[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM nft_transfers
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as NftTransferRow[];
+
+    return rows.map(toNftTransfer);
+  }
+
+  async getLogs(organizationName: string): Promise<LogEntry[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM event_logs
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as EventLogRow[];
+
+    return rows.map(toLogEntry);
+  }
+
+  async getDecodedCalls(organizationName: string): Promise<DecodedCall[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM decoded_calls
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as DecodedCallRow[];
+
+    return rows.map(toDecodedCall);
+  }
+
+  async getDecodedEvents(organizationName: string): Promise<DecodedEvent[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM decoded_events
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as DecodedEventRow[];
+
+    return rows.map(toDecodedEvent);
+  }
+
+  async getGovernanceProposals(organizationName: string): Promise<GovernanceProposal[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM governance_proposals
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY created_block, id
+    `).all(organizationName, this.chainId) as GovernanceProposalRow[];
+
+    return rows.map(toGovernanceProposal);
+  }
+
+  async getGovernanceVotes(organizationName: string): Promise<GovernanceVote[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM governance_votes
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as GovernanceVoteRow[];
+
+    return rows.map(toGovernanceVote);
+  }
+
+  async getSafeTransactions(organizationName: string): Promise<SafeTransaction[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM safe_transactions
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as SafeTransactionRow[];
+
+    return rows.map(toSafeTransaction);
+  }
+
+  async getSafeOwnerChanges(organizationName: string): Promise<SafeOwnerChange[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM safe_owner_changes
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, log_index, id
+    `).all(organizationName, this.chainId) as SafeOwnerChangeRow[];
+
+    return rows.map(toSafeOwnerChange);
+  }
+
+  async getBalanceHistory(organizationName: string): Promise<BalancePoint[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM balance_history
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY block_number, id
+    `).all(organizationName, this.chainId) as BalancePointRow[];
+
+    return rows.map(toBalancePoint);
+  }
+
+  async saveFundFlowHops(organizationName: string, root: string, asset: string, hops: FundFlowHop[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO fund_flow_hops (
+        organization, chain_id, root, asset, symbol, decimals, depth, from_address, to_address,
+        hash, block_number, time_stamp, value, attributed, terminal, traced_at
+      ) VALUES (
+        @organization, @chainId, @root, @asset, @symbol, @decimals, @depth, @from, @to,
+        @hash, @blockNumber, @timeStamp, @value, @attributed, @terminal, @tracedAt
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM fund_flow_hops WHERE organization = ? AND chain_id = ? AND root = ? AND asset = ?')
+          .run(organizationName, this.chainId, root.toLowerCase(), asset.toLowerCase());
+        for (const hop of hops) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            root: hop.root,
+            asset: hop.asset,
+            symbol: hop.symbol,
+            decimals: hop.decimals,
+            depth: hop.depth,
+            from: hop.from,
+            to: hop.to,
+            hash: hop.hash,
+            blockNumber: hop.blockNumber,
+            timeStamp: hop.timeStamp,
+            value: hop.value,
+            attributed: hop.attributed,
+            terminal: hop.terminal ? 1 : 0,
+            tracedAt: hop.tracedAt
+          });
+        }
+      })();
+
+      logger.info(`Saved ${hops.length} fund flow hops from ${root} for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save fund flow hops for ${organizationName}`, error);
+      throw new StorageError(`Failed to save fund flow hops for ${organizationName}`, error);
+    }
+  }
+
+  async getFundFlowHops(organizationName: string): Promise<FundFlowHop[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM fund_flow_hops
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY root, asset, depth, block_number, id
+    `).all(organizationName, this.chainId) as FundFlowHopRow[];
+
+    return rows.map(toFundFlowHop);
+  }
+
+  async saveValuations(organizationName: string, valuations: Valuation[]): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO valuations (
+        organization, chain_id, kind, record_key, hash, time_stamp, asset, symbol, amount,
+        price, usd_value, source, valued_at
+      ) VALUES (
+        @organization, @chainId, @kind, @recordKey, @hash, @timeStamp, @asset, @symbol, @amount,
+        @price, @usdValue, @source, @valuedAt
+      )
+    `);
+
+    try {
+      this.db.transaction(() => {
+        this.db.prepare('DELETE FROM valuations WHERE organization = ? AND chain_id = ?')
+          .run(organizationName, this.chainId);
+        for (const valuation of valuations) {
+          insert.run({
+            organization: organizationName,
+            chainId: this.chainId,
+            kind: valuation.kind,
+            recordKey: valuation.recordKey,
+            hash: valuation.hash,
+            timeStamp: valuation.timeStamp,
+            asset: valuation.asset,
+            symbol: valuation.symbol,
+            amount: valuation.amount,
+            price: valuation.price ?? null,
+            usdValue: valuation.usdValue ?? null,
+            source: valuation.source,
+            valuedAt: valuation.valuedAt
+          });
+        }
+      })();
+
+      logger.info(`Saved ${valuations.length} valuations for ${organizationName}`);
+    } catch (error) {
+      logger.error(`Failed to save valuations for ${organizationName}`, error);
+      throw new StorageError(`Failed to save valuations for ${organizationName}`, error);
+    }
+  }
+
+  async getValuations(organizationName: string): Promise<Valuation[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM valuations
+      WHERE organization = ? AND chain_id = ?
+      ORDER BY time_stamp, kind, record_key
+    `).all(organizationName, this.chainId) as ValuationRow[];
+
+    return rows.map(toValuation);
+  }
+
+  async saveAddressLabels(labels: AddressLabel[]): Promise<void> {
+    const upsert = this.db.prepare(`
+      INSERT OR REPLACE INTO address_labels (chain_id, address, name, category, source, updated_at)
+      VALUES (@chainId, @address, @name, @category, @source, @updatedAt)
+    `);
+
+    try {
+      this.db.transaction(() => {
+        for (const label of labels) {
+          upsert.run({
+            chainId: this.chainId,
+            address: label.address.toLowerCase(),
+            name: label.name,
+            category: label.category ?? null,
+            source: label.source,
+            updatedAt: label.updatedAt
+          });
+        }
+      })();
+
+      logger.info(`Saved ${labels.length} address labels for chain ${this.chainId}`);
+    } catch (error) {
+      logger.error(`Failed to save address labels for chain ${this.chainId}`, error);
+      throw new StorageError(`Failed to save address labels for chain ${this.chainId}`, error);
+    }
+  }
+
+  async getAddressLabels(): Promise<AddressLabel[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM address_labels WHERE chain_id = ? ORDER BY address
+    `).all(this.chainId) as AddressLabelRow[];
+
+    return rows.map(toAddressLabel);
+  }
+
+  // Unique keys already keep duplicates out, so this only recounts sync state
+  async deduplicate(organizationName: string): Promise<DeduplicationResult> {
+    try {
+      return this.db.transaction(() => removeDuplicates(this.db, organizationName, this.chainId))();
+    } catch (error) {
+      logger.error(`Failed to deduplicate ${organizationName}`, error);
+      throw new StorageError(`Failed to deduplicate ${organizationName}`, error);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+// src/infrastructure/persistence/createStorage.ts
+import { IDataStorage } from '../../core/interfaces/IDataStorage';
+import { config } from '../../config/config';
+import { FileSystemStorage } from './FileSystemStorage';
+import { SqliteStorage } from './SqliteStorage';
+
+export type StorageBackend = 'filesystem' | 'sqlite';
+
+export function createStorage(
+  chainId: number,
+  backend: StorageBackend = config.storage.backend
+): IDataStorage {
+  return backend === 'sqlite' ?
+    new SqliteStorage(chainId, config.storage.sqliteFile) :
+    new FileSystemStorage(chainId);
+}
@@ -0,0 +1,104 @@
+// src/infrastructure/persistence/csv.ts
+import fs from 'fs-extra';
+
+export interface CsvColumn {
+  id: string;
+  title: string;
+  // Titles the column had in files written by older versions
+  legacyTitles?: string[];
+}
+
+// Parses RFC 4180 CSV as written by csv-writer: quoted fields may contain
+// delimiters, escaped quotes and line breaks; empty fields may be unquoted
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Reads only the header row, without loading the whole file
+export async function readCsvHeader(filePath: string): Promise<string[] | null> {
+  if (!await fs.pathExists(filePath)) {
+    return null;
+  }
+
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    const { bytesRead } = await fs.read(handle, buffer, 0, buffer.length, 0);
+    const firstLine = buffer.toString('utf8', 0, bytesRead).split(/\r?\n/)[0];
+    return firstLine ? parseCsv(firstLine)[0] : null;
+  } finally {
+    await fs.close(handle);
+  }
+}
+
+// Reads a CSV file into records keyed by column id, matching columns by title
+export async function readCsvRecords(
+  filePath: string,
+  columns: CsvColumn[]
+): Promise<Record<string, string>[]> {
+  if (!await fs.pathExists(filePath)) {
+    return [];
+  }
+
+  const [header, ...rows] = parseCsv(await fs.readFile(filePath, 'utf8'));
+  if (!header) {
+    return [];
+  }
+
+  const indexes = columns.map(column => ({
+    id: column.id,
+    index: [column.title, ...(column.legacyTitles ?? [])]
+      .map(title => header.indexOf(title))
+      .find(index => index >= 0) ?? -1
+  }));
+  return rows.map(row => {
+    const record: Record<string, string> = {};
+    for (const { id, index } of indexes) {
+      record[id] = index >= 0 ? row[index] ?? '' : '';
+    }
+    return record;
+  });
+}
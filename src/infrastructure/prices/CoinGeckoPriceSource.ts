@@ -0,0 +1,104 @@
+// src/infrastructure/prices/CoinGeckoPriceSource.ts
+import axios, { AxiosInstance } from 'axios';
+import { IPriceSource } from '../../core/interfaces';
+import { DataProviderError, ValidationError } from '../../core/errors';
+import { ChainConfig } from '../../config/chains';
+import { createLogger } from '../logging/logger';
+import { RateLimiter } from '../utils/RateLimiter';
+import { getPeriodLabel } from '../../utils/dates';
+
+const logger = createLogger('CoinGeckoPriceSource');
+
+const DAY = 24 * 60 * 60;
+
+// market_chart/range answer: [milliseconds, price] pairs, hourly or finer
+// for short ranges and one per day at midnight UTC beyond 90 days
+interface MarketChart {
+  prices: Array<[number, number]>;
+}
+
+export interface CoinGeckoOptions {
+  baseUrl: string;
+  // Sent as x-cg-demo-api-key; a local mock needs none
+  apiKey?: string;
+  rateLimiter: RateLimiter;
+}
+
+// Prices from the CoinGecko API, or any server answering its
+// /coins/{id}/market_chart/range and
+// /coins/{platform}/contract/{address}/market_chart/range endpoints
+export class CoinGeckoPriceSource implements IPriceSource {
+  readonly name = 'coingecko';
+  private readonly client: AxiosInstance;
+  private readonly MAX_RETRIES = 3;
+  private readonly INITIAL_RETRY_DELAY = 5000;
+
+  constructor(
+    private readonly chain: ChainConfig,
+    private readonly options: CoinGeckoOptions
+  ) {
+    if (!chain.coingecko) {
+      throw new ValidationError(`CoinGecko prices are not configured for ${chain.name}, use price CSVs instead`);
+    }
+
+    this.client = axios.create({
+      baseURL: options.baseUrl,
+      timeout: 60000,
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'blockchain-data-analyzer',
+        ...(options.apiKey ? { 'x-cg-demo-api-key': options.apiKey } : {})
+      },
+      validateStatus: status => status >= 200 && status < 300
+    });
+  }
+
+  async getDailyPrices(asset: string, fromTime: number, toTime: number): Promise<Map<string, number>> {
+    const ids = this.chain.coingecko;
+    const url = asset === 'native' ?
+      `/coins/${ids?.nativeCoin}/market_chart/range` :
+      `/coins/${ids?.platform}/contract/${asset.toLowerCase()}/market_chart/range`;
+    // Whole days, so that the first point of each day is its midnight price
+    const from = Math.floor(fromTime / DAY) * DAY;
+    const to = Math.ceil((toTime + 1) / DAY) * DAY;
+
+    const chart = await this.request(url, { vs_currency: 'usd', from: from.toString(), to: to.toString() });
+    const prices = new Map<string, number>();
+    for (const [milliseconds, price] of chart?.prices ?? []) {
+      const day = getPeriodLabel(Math.floor(milliseconds / 1000), 'day');
+      if (!prices.has(day) && Number.isFinite(price)) {
+        prices.set(day, price);
+      }
+    }
+
+    logger.debug(`Fetched ${prices.size} daily prices of ${asset} on ${this.chain.name}`);
+    return prices;
+  }
+
+  // null for assets CoinGecko does not know
+  private async request(url: string, params: Record<string, string>, retryCount = 0): Promise<MarketChart | null> {
+    await this.options.rateLimiter.acquire();
+    try {
+      const response = await this.client.get<MarketChart>(url, { params });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          logger.warn(`No CoinGecko prices at ${url}`);
+          return null;
+        }
+
+        const retryable = error.response?.status === 429 || error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT';
+        if (retryable && retryCount < this.MAX_RETRIES) {
+          const delay = this.INITIAL_RETRY_DELAY * Math.pow(2, retryCount);
+          logger.warn(`CoinGecko request failed (${error.response?.status ?? error.code}), retrying in ${delay}ms...`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          return this.request(url, params, retryCount + 1);
+        }
+
+        throw new DataProviderError(`CoinGecko request ${url} failed: ${error.message}`, error.response?.data);
+      }
+      throw new DataProviderError(`CoinGecko request ${url} failed`, error);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// src/infrastructure/prices/CsvPriceSource.ts
+import fs from 'fs-extra';
+import path from 'path';
+import { ethers } from 'ethers';
+import { IPriceSource } from '../../core/interfaces';
+import { ValidationError } from '../../core/errors';
+import { createLogger } from '../logging/logger';
+import { parseCsv } from '../persistence/csv';
+import { getPeriodLabel } from '../../utils/dates';
+
+const logger = createLogger('CsvPriceSource');
+
+// Reads daily prices supplied by the user, one CSV per asset with a header
+// naming a `date` column (YYYY-MM-DD, UTC) and a `price` column in USD:
+// <dir>/<chainId>.csv for the native currency and
+// <dir>/<chainId>/<token address>.csv for tokens
+export class CsvPriceSource implements IPriceSource {
+  readonly name = 'csv';
+  private readonly prices = new Map<string, Promise<Map<string, number>>>();
+  private tokenFiles?: Promise<Map<string, string>>;
+
+  constructor(
+    private readonly dir: string,
+    private readonly chainId: number
+  ) {}
+
+  async getDailyPrices(asset: string, fromTime: number, toTime: number): Promise<Map<string, number>> {
+    const key = asset.toLowerCase();
+    let pending = this.prices.get(key);
+    if (!pending) {
+      pending = this.loadPrices(key);
+      this.prices.set(key, pending);
+    }
+
+    const fromDay = getPeriodLabel(fromTime, 'day');
+    const toDay = getPeriodLabel(toTime, 'day');
+    return new Map([...(await pending).entries()].filter(([day]) => day >= fromDay && day <= toDay));
+  }
+
+  // Token files by lowercase address, whatever the case of their names
+  private getTokenFiles(): Promise<Map<string, string>> {
+    if (!this.tokenFiles) {
+      this.tokenFiles = (async (): Promise<Map<string, string>> => {
+        const files = new Map<string, string>();
+        const tokenDir = path.join(this.dir, this.chainId.toString());
+        if (await fs.pathExists(tokenDir)) {
+          for (const file of await fs.readdir(tokenDir)) {
+            const name = path.basename(file, '.csv');
+            if (file.endsWith('.csv') && ethers.isAddress(name)) {
+              files.set(name.toLowerCase(), path.join(tokenDir, file));
+            }
+          }
+        }
+        return files;
+      })();
+    }
+    return this.tokenFiles;
+  }
+
+  private async loadPrices(asset: string): Promise<Map<string, number>> {
+    const file = asset === 'native' ?
+      path.join(this.dir, `${this.chainId}.csv`) :
+      (await this.getTokenFiles()).get(asset);
+    if (!file || !await fs.pathExists(file)) {
+      logger.debug(`No price file for ${asset} on chain ${this.chainId}`);
+      return new Map();
+    }
+
+    const [header, ...rows] = parseCsv(await fs.readFile(file, 'utf8')).filter(row => row.some(field => field.trim()));
+    const columns = (header ?? []).map(title => title.trim().toLowerCase());
+    const dateColumn = columns.indexOf('date');
+    const priceColumn = columns.indexOf('price');
+    if (dateColumn < 0 || priceColumn < 0) {
+      throw new ValidationError(`Price file ${file} needs a header with date and price columns`);
+    }
+
+    const prices = new Map<string, number>();
+    for (const [index, row] of rows.entries()) {
+      const date = row[dateColumn]?.trim() ?? '';
+      const price = Number(row[priceColumn]);
+      const time = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00Z` : date);
+      if (Number.isNaN(time) || !row[priceColumn]?.trim() || !Number.isFinite(price) || price < 0) {
+        throw new ValidationError(`Invalid price in row ${index + 1} of ${file}: ${row.join(',')}`);
+      }
+      prices.set(getPeriodLabel(Math.floor(time / 1000), 'day'), price);
+    }
+
+    logger.debug(`Read ${prices.size} daily prices of ${asset} from ${file}`);
+    return prices;
+  }
+}
@@ -1,43 +1,56 @@
+// Token bucket: up to `burst` requests may go out at once, after which tokens
+// refill at requestsPerSecond per timeWindow. Waiters are served in order.
 export class RateLimiter {
-    private queue: Array<() => Promise<any>> = [];
-    private processing = false;
-    private lastRequestTime = 0;
-  
-    constructor(private requestsPerSecond: number, private timeWindow: number = 1000) {}
-  
-    async schedule<T>(fn: () => Promise<T>): Promise<T> {
-      return new Promise<T>((resolve, reject) => {
-        this.queue.push(async () => {
-          try {
-            const result = await fn();
-            resolve(result);
-          } catch (error) {
-            reject(error);
-          }
-        });
-  
-        if (!this.processing) {
-          this.processQueue();
-        }
-      });
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly requestsPerSecond: number,
+    private readonly timeWindow: number = 1000,
+    private readonly burst: number = 1
+  ) {
+    this.tokens = burst;
+  }
+
+  // Resolves once a request may be made
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  async schedule<T>(fn: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    return fn();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const refilled = (now - this.lastRefill) * this.requestsPerSecond / this.timeWindow;
+    this.tokens = Math.min(this.burst, this.tokens + refilled);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return;
     }
-  
-    private async processQueue(): Promise<void> {
-      this.processing = true;
-  
-      while (this.queue.length > 0) {
-        const now = Date.now();
-        const timeToWait = Math.max(0, this.lastRequestTime + (this.timeWindow / this.requestsPerSecond) - now);
-  
-        if (timeToWait > 0) {
-          await new Promise(resolve => setTimeout(resolve, timeToWait));
-        }
-  
-        const fn = this.queue.shift()!;
-        this.lastRequestTime = Date.now();
-        await fn();
-      }
-  
-      this.processing = false;
+
+    this.refill();
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.queue.shift()!();
     }
-  }
\ No newline at end of file
+
+    if (this.queue.length > 0) {
+      const wait = Math.ceil((1 - this.tokens) * this.timeWindow / this.requestsPerSecond);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, wait);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { ValidationError } from '../../core/errors';
+
+// YAML manifests are read with the failsafe schema, which keeps every scalar
+// a string: unquoted addresses would otherwise be read as hex numbers and
+// dates as Date objects. Numbers and booleans are converted back here.
+const blockNumber = z.coerce.number().int().nonnegative();
+const flag = z.preprocess(
+  value => value === 'true' ? true : value === 'false' ? false : value,
+  z.boolean()
+);
+
+const entryOptionsSchema = z.object({
+  chain: z.string().optional(),
+  provider: z.string().optional(),
+  rpcUrl: z.string().url().optional(),
+  startBlock: blockNumber.optional(),
+  endBlock: blockNumber.optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  includeInternal: flag.optional(),
+  includeTokens: flag.optional(),
+  includeNfts: flag.optional(),
+  // true for every event, or the event signatures / topic0 hashes to keep
+  logs: z.union([flag, z.array(z.string())]).optional(),
+  resume: flag.optional(),
+  // true for the default depth, or the deployments followed at most
+  discoverContracts: z.union([flag, z.coerce.number().int().positive()]).optional()
+});
+
+const entrySchema = entryOptionsSchema.extend({
+  name: z.string().min(1),
+  addresses: z.array(
+    z.string().refine(address => ethers.isAddress(address), address => ({ message: `Invalid address: ${address}` }))
+  ).optional()
+});
+
+const manifestSchema = z.union([
+  z.array(entrySchema),
+  z.object({
+    concurrency: z.coerce.number().int().positive().optional(),
+    // Applied to every organization that does not set the option itself
+    defaults: entryOptionsSchema.optional(),
+    organizations: z.array(entrySchema)
+  })
+]);
+
+export type ManifestEntry = z.infer<typeof entrySchema>;
+
+export interface BatchManifest {
+  concurrency?: number;
+  organizations: ManifestEntry[];
+}
+
+function parseContent(file: string, content: string): unknown {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.yaml' || extension === '.yml') {
+    return yaml.load(content, { schema: yaml.FAILSAFE_SCHEMA });
+  }
+  return JSON.parse(content);
+}
+
+export async function loadBatchManifest(file: string): Promise<BatchManifest> {
+  let raw: unknown;
+  try {
+    raw = parseContent(file, await fs.readFile(file, 'utf8'));
+  } catch (error) {
+    throw new ValidationError(`Could not read manifest ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = manifestSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ValidationError(`Invalid manifest ${file}: ${issues}`);
+  }
+
+  if (Array.isArray(parsed.data)) {
+    return { organizations: parsed.data };
+  }
+
+  const { concurrency, defaults, organizations } = parsed.data;
+  return {
+    concurrency,
+    organizations: organizations.map(entry => ({ ...defaults, ...entry }))
+  };
+}
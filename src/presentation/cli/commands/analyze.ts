@@ -1,46 +1,67 @@
-import { Command } from 'commander';
-import { BlockchainService } from '../../../application/services/BlockchainService';
-import { EtherscanClient } from '../../../infrastructure/api/etherscan/EtherscanClient';
-import { FileSystemStorage } from '../../../infrastructure/persistence/FileSystemStorage';
+import { Command, Option } from 'commander';
+import { BlockchainService, DEFAULT_DISCOVERY_DEPTH } from '../../../application/services/BlockchainService';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
 import { createLogger } from '../../../infrastructure/logging/logger';
 import { config } from '../../../config/config';
-import { validateApiKey } from '../../../utils/validateApiKey';
+import { getChain } from '../../../config/chains';
+import { createDataProvider, PROVIDERS } from '../createDataProvider';
+import { parseEventTopic } from '../../../utils/eventTopics';
 
 const logger = createLogger('CLI:Analyze');
 
 export function createAnalyzeCommand(): Command {
     const command = new Command('analyze')
       .description('Analyze an organization\'s blockchain activity')
-      .requiredOption('-a, --address <address>', 'Ethereum address to analyze')
+      .option('-a, --address <address>', 'Only analyze this address, adding it to the organization if new (defaults to every registered address)')
       .requiredOption('-n, --name <name>', 'Organization name')
       .option('-s, --start-block <block>', 'Starting block number')
       .option('-e, --end-block <block>', 'Ending block number')
+      .option('--from <date>', 'Start date, ISO (2023-01-01) or relative to now (90d, 12h, 4w)')
+      .option('--to <date>', 'End date, ISO (2023-03-31, inclusive) or relative to now')
       .option('--include-internal', 'Include internal transactions')
       .option('--include-tokens', 'Include token transfers')
+      .option('--include-nfts', 'Include ERC-721 and ERC-1155 transfers')
+      .option('--logs [events...]', 'Include event logs emitted by the addresses, optionally only these event signatures or topic0 hashes')
+      .option('--discover-contracts [depth]', `Also register and collect the contracts the addresses deployed, directly or through their own factories, up to this many deployments deep (default ${DEFAULT_DISCOVERY_DEPTH})`)
       .option('--resume', 'Resume from last processed block')
+      .addOption(
+        new Option('-p, --provider <provider>', 'Data provider to collect from')
+          .choices(PROVIDERS)
+          .default('etherscan')
+      )
+      .option('-c, --chain <chain>', 'Chain name or chainId to analyze', config.chain)
+      .option('--rpc-url <url>', 'JSON-RPC endpoint for the rpc provider (defaults to RPC_URL, then the chain\'s public RPC)')
+      .option('--offline', 'Serve every provider response from the on-disk cache, failing on anything not cached')
       .action(async (options) => {
         try {
           logger.info('Starting analysis with options:', options);
   
-          if (!config.etherscan.apiKey) {
-            throw new Error('ETHERSCAN_API_KEY is not set in environment variables');
+          const logTopics = Array.isArray(options.logs) ? options.logs.map(parseEventTopic) : undefined;
+          const discoverContracts = options.discoverContracts === true ?
+            DEFAULT_DISCOVERY_DEPTH :
+            options.discoverContracts !== undefined ? parseInt(options.discoverContracts) : undefined;
+          if (discoverContracts !== undefined && (!Number.isInteger(discoverContracts) || discoverContracts < 1)) {
+            throw new ValidationError(`Invalid --discover-contracts depth: ${options.discoverContracts}`);
           }
+          const chain = getChain(options.chain);
+          const dataProvider = await createDataProvider(options.provider, chain, options.rpcUrl, { offline: options.offline });
+          const storage = createStorage(chain.chainId);
+          const service = new BlockchainService(dataProvider, storage, chain);
   
-          const isValidKey = await validateApiKey();
-          if (!isValidKey) {
-            throw new Error('Invalid or expired Etherscan API key');
-          }
-  
-          const etherscanClient = new EtherscanClient(config.etherscan.apiKey, config.etherscan.network);
-          const storage = new FileSystemStorage();
-          const service = new BlockchainService(etherscanClient, storage);
-  
-          await service.analyzeOrganization(options.address, options.name, {
+          await service.analyzeOrganization(options.name, {
+            address: options.address,
             startBlock: options.startBlock ? parseInt(options.startBlock) : undefined,
             endBlock: options.endBlock ? parseInt(options.endBlock) : undefined,
+            from: options.from,
+            to: options.to,
             includeInternalTransactions: options.includeInternal,
             includeTokenTransfers: options.includeTokens,
-            resume: options.resume
+            includeNftTransfers: options.includeNfts,
+            includeLogs: options.logs !== undefined,
+            logTopics,
+            resume: options.resume,
+            discoverContracts
           });
   
           logger.info('Analysis completed successfully');
@@ -0,0 +1,126 @@
+import { Command, Option } from 'commander';
+import { BatchAnalysisService, BatchEntry, BatchResult } from '../../../application/services/BatchAnalysisService';
+import { BlockchainService, DEFAULT_DISCOVERY_DEPTH } from '../../../application/services/BlockchainService';
+import { IBlockchainDataProvider } from '../../../core/interfaces';
+import { IDataStorage } from '../../../core/interfaces/IDataStorage';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { createDataProvider, PROVIDERS } from '../createDataProvider';
+import { loadBatchManifest, ManifestEntry } from '../batchManifest';
+import { formatTable } from '../formatTable';
+import { parseEventTopic } from '../../../utils/eventTopics';
+
+const logger = createLogger('CLI:AnalyzeBatch');
+
+const DEFAULT_CONCURRENCY = 2;
+
+function toBatchEntry(entry: ManifestEntry, options: { provider: string; rpcUrl?: string }): BatchEntry {
+  const provider = entry.provider ?? options.provider;
+  if (!PROVIDERS.includes(provider)) {
+    throw new ValidationError(`${entry.name}: unknown provider ${provider}, expected one of ${PROVIDERS.join(', ')}`);
+  }
+
+  return {
+    name: entry.name,
+    addresses: entry.addresses,
+    chain: getChain(entry.chain ?? config.chain),
+    provider,
+    rpcUrl: entry.rpcUrl ?? options.rpcUrl,
+    options: {
+      startBlock: entry.startBlock,
+      endBlock: entry.endBlock,
+      from: entry.from,
+      to: entry.to,
+      includeInternalTransactions: entry.includeInternal,
+      includeTokenTransfers: entry.includeTokens,
+      includeNftTransfers: entry.includeNfts,
+      includeLogs: entry.logs !== undefined && entry.logs !== false,
+      logTopics: Array.isArray(entry.logs) ? entry.logs.map(parseEventTopic) : undefined,
+      resume: entry.resume,
+      discoverContracts: entry.discoverContracts === true ? DEFAULT_DISCOVERY_DEPTH : entry.discoverContracts || undefined
+    }
+  };
+}
+
+function logSummary(results: BatchResult[]): void {
+  const rows = [
+    ['Organization', 'Chain', 'Status', 'Normal', 'Internal', 'Tokens', 'NFTs', 'Logs', 'Duration', 'Error'],
+    ...results.map(result => [
+      result.name,
+      result.chain,
+      result.succeeded ? 'ok' : 'failed',
+      result.records.normal.toString(),
+      result.records.internal.toString(),
+      result.records.tokenTransfers.toString(),
+      result.records.nftTransfers.toString(),
+      result.records.logs.toString(),
+      `${(result.durationMs / 1000).toFixed(1)}s`,
+      result.error ?? ''
+    ])
+  ];
+
+  for (const line of formatTable(rows)) {
+    logger.info(line);
+  }
+}
+
+export function createAnalyzeBatchCommand(): Command {
+  return new Command('analyze-batch')
+    .description('Analyze the organizations of a manifest file, a few at a time')
+    .requiredOption('-m, --manifest <file>', 'JSON or YAML manifest listing the organizations to analyze')
+    .option('--concurrency <n>', `Organizations analyzed at the same time (defaults to the manifest's, then ${DEFAULT_CONCURRENCY})`)
+    .addOption(
+      new Option('-p, --provider <provider>', 'Data provider for organizations that do not set one')
+        .choices(PROVIDERS)
+        .default('etherscan')
+    )
+    .option('--rpc-url <url>', 'JSON-RPC endpoint for the rpc provider (defaults to RPC_URL, then the chain\'s public RPC)')
+    .option('--offline', 'Serve every provider response from the on-disk cache, failing on anything not cached')
+    .action(async (options) => {
+      try {
+        const manifest = await loadBatchManifest(options.manifest);
+        const entries = manifest.organizations.map(entry => toBatchEntry(entry, options));
+
+        const concurrency = options.concurrency ? parseInt(options.concurrency) : manifest.concurrency ?? DEFAULT_CONCURRENCY;
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+          throw new ValidationError(`Invalid concurrency: ${options.concurrency}`);
+        }
+
+        const providers = new Map<string, Promise<IBlockchainDataProvider>>();
+        const storages = new Map<number, IDataStorage>();
+
+        const service = new BatchAnalysisService(async (entry) => {
+          const providerKey = `${entry.provider}:${entry.chain.chainId}:${entry.rpcUrl ?? ''}`;
+          if (!providers.has(providerKey)) {
+            providers.set(providerKey, createDataProvider(entry.provider, entry.chain, entry.rpcUrl, { offline: options.offline }));
+          }
+          if (!storages.has(entry.chain.chainId)) {
+            storages.set(entry.chain.chainId, createStorage(entry.chain.chainId));
+          }
+
+          const storage = storages.get(entry.chain.chainId)!;
+          return {
+            service: new BlockchainService(await providers.get(providerKey)!, storage, entry.chain),
+            storage
+          };
+        });
+
+        const results = await service.run(entries, concurrency);
+        logSummary(results);
+
+        const failed = results.filter(result => !result.succeeded).length;
+        if (failed > 0) {
+          logger.error(`${failed} of ${results.length} organizations failed`);
+          process.exitCode = 1;
+        } else {
+          logger.info(`All ${results.length} organizations analyzed successfully`);
+        }
+      } catch (error) {
+        logger.error('Batch analysis failed', error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,93 @@
+import { Command, Option } from 'commander';
+import { BALANCE_INTERVALS, BalanceReport, BalanceService } from '../../../application/services/BalanceService';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { createDataProvider, PROVIDERS } from '../createDataProvider';
+import { formatTable } from '../formatTable';
+
+const logger = createLogger('CLI:Balances');
+
+function printReport(report: BalanceReport): void {
+  console.log(`Balances of ${report.organization} replayed up to block ${report.lastBlock}`);
+
+  console.log('');
+  console.log('Totals');
+  formatTable([
+    ['Asset', 'Contract', 'Balance'],
+    ...report.totals.map(total => [total.symbol || '?', total.asset, `${total.balance}${total.negative ? ' (went negative)' : ''}`])
+  ]).forEach(line => console.log(`  ${line}`));
+
+  console.log('');
+  console.log('Per address');
+  formatTable([
+    ['Address', 'Asset', 'Balance'],
+    ...report.balances.map(entry => [entry.address, entry.symbol || entry.asset, `${entry.balance}${entry.negative ? ' (went negative)' : ''}`])
+  ]).forEach(line => console.log(`  ${line}`));
+
+  if (report.reconciliation) {
+    console.log('');
+    console.log('Reconciliation with live balances');
+    formatTable([
+      ['Address', 'Asset', 'Computed', 'Live', 'Difference'],
+      ...report.reconciliation.map(entry => [
+        entry.address, entry.symbol || entry.asset, entry.computed, entry.live, entry.matches ? 'match' : entry.difference
+      ])
+    ]).forEach(line => console.log(`  ${line}`));
+  }
+}
+
+export function createBalancesCommand(): Command {
+  return new Command('balances')
+    .description('Rebuild the balance history of an organization per asset from its stored transfers and reconcile it with live balances')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to rebuild', config.chain)
+    .addOption(
+      new Option('--interval <interval>', 'One balance point per UTC day or per block with activity')
+        .choices(BALANCE_INTERVALS)
+        .default('day')
+    )
+    .option('--no-reconcile', 'Skip the comparison with live balances')
+    .addOption(
+      new Option('-p, --provider <provider>', 'Data provider to fetch live balances from')
+        .choices(PROVIDERS)
+        .default('etherscan')
+    )
+    .option('--rpc-url <url>', 'JSON-RPC endpoint for the rpc provider (defaults to RPC_URL, then the chain\'s public RPC)')
+    .option('--offline', 'Serve live balances from the on-disk cache, failing on anything not cached')
+    .option('--json', 'Print the report as JSON')
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const provider = options.reconcile ?
+          await createDataProvider(options.provider, chain, options.rpcUrl, { offline: options.offline }) :
+          undefined;
+        const service = new BalanceService(createStorage(chain.chainId), provider);
+        const report = await service.analyzeOrganization(options.name, {
+          interval: options.interval,
+          nativeSymbol: chain.nativeSymbol
+        });
+
+        if (report.points === 0) {
+          logger.warn(`No stored transfers of ${options.name} on ${chain.name}; collect them with analyze --include-internal --include-tokens first`);
+        }
+        if (report.missingFees > 0) {
+          logger.warn(`${report.missingFees} transactions sent by ${options.name} were collected before gas used was stored; their fees are not deducted`);
+        }
+        const mismatches = report.reconciliation?.filter(entry => !entry.matches).length ?? 0;
+        if (mismatches > 0) {
+          logger.warn(`${mismatches} computed balances differ from the live ones`);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          printReport(report);
+        }
+      } catch (error) {
+        logger.error('Balance reconstruction failed', error);
+        process.exit(1);
+      }
+    });
+}
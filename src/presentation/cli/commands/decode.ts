@@ -0,0 +1,45 @@
+import { Command } from 'commander';
+import { DecodingService } from '../../../application/services/DecodingService';
+import { AbiRegistry } from '../../../infrastructure/abi/AbiRegistry';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { createAbiProvider } from '../createDataProvider';
+
+const logger = createLogger('CLI:Decode');
+
+export function createDecodeCommand(): Command {
+  const command = new Command('decode')
+    .description('Decode collected transaction inputs and event logs with contract ABIs')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to decode', config.chain)
+    .option('--abi-dir <dir>', 'Directory of user ABI files named <contract address>.json and signatures.txt', config.abi.dir)
+    .option('--offline', 'Use local and cached ABIs only, without fetching verified ABIs')
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const fetcher = await createAbiProvider(chain, { offline: options.offline });
+        if (!fetcher && !options.offline) {
+          logger.warn(`Verified ABIs cannot be fetched for ${chain.name}, decoding with local ABIs and known signatures only`);
+        }
+
+        const abis = new AbiRegistry({
+          chainId: chain.chainId,
+          userDir: options.abiDir,
+          cacheDir: config.abi.cacheDir,
+          fetcher
+        });
+        const service = new DecodingService(abis, createStorage(chain.chainId));
+        const result = await service.decodeOrganization(options.name);
+
+        logger.info(`Decoded ${result.calls} transaction inputs of ${options.name} on ${chain.name}${result.undecodedCalls ? `, ${result.undecodedCalls} without a matching ABI` : ''}`);
+        logger.info(`Decoded ${result.events} event logs of ${options.name} on ${chain.name}${result.undecodedEvents ? `, ${result.undecodedEvents} without a matching ABI` : ''}`);
+      } catch (error) {
+        logger.error('Decoding failed', error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
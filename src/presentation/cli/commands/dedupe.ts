@@ -0,0 +1,38 @@
+import { Command } from 'commander';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+
+const logger = createLogger('CLI:Dedupe');
+
+export function createDedupeCommand(): Command {
+  const command = new Command('dedupe')
+    .description('Remove duplicate records from stored organizations, restore block order and fix their counts')
+    .option('-n, --name <name...>', 'Only deduplicate the given organizations')
+    .action(async (options) => {
+      try {
+        const organizations = await createStorage(1).listOrganizations();
+        const selected = options.name ?
+          organizations.filter(org => options.name.includes(org.name)) :
+          organizations;
+
+        if (selected.length === 0) {
+          throw new Error('No matching organizations found');
+        }
+
+        for (const organization of selected) {
+          for (const chainId of organization.chains ?? [organization.chainId]) {
+            const removed = await createStorage(chainId).deduplicate(organization.name);
+            logger.info(`${organization.name} (chain ${chainId}): removed ${removed.normal} normal, ` +
+              `${removed.internal} internal, ${removed.tokenTransfers} token transfer, ${removed.nftTransfers} NFT transfer, ${removed.logs} event log duplicates`);
+          }
+        }
+
+        logger.info('Deduplication completed successfully');
+      } catch (error) {
+        logger.error('Deduplication failed', error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,64 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { Command, Option } from 'commander';
+import { GraphService } from '../../../application/services/GraphService';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { parseDateInput } from '../../../utils/dates';
+import { GRAPH_FORMATS, serializeGraph } from '../graphFormats';
+
+const logger = createLogger('CLI:ExportGraph');
+
+export function createExportGraphCommand(): Command {
+  return new Command('export-graph')
+    .description('Export the stored transfers of an organization as a directed, weighted counterparty graph')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to export', config.chain)
+    .addOption(
+      new Option('--format <format>', 'Graph file format')
+        .choices(GRAPH_FORMATS)
+        .default('graphml')
+    )
+    .option('-o, --output <file>', 'File to write the graph to, instead of stdout')
+    .option('--min-weight <n>', 'Minimum number of transfers for an edge to be kept', '1')
+    .option('--from <date>', 'Start date, ISO (2023-01-01) or relative to now (90d, 12h, 4w)')
+    .option('--to <date>', 'End date, ISO (2023-03-31, inclusive) or relative to now')
+    .option('--asset <asset>', 'Keep a single asset: "native", a token contract address or symbol')
+    .action(async (options) => {
+      try {
+        const minWeight = parseInt(options.minWeight);
+        if (!Number.isInteger(minWeight) || minWeight < 1) {
+          throw new ValidationError(`Invalid --min-weight: ${options.minWeight}`);
+        }
+        const fromTime = options.from ? parseDateInput(options.from, 'start') : undefined;
+        const toTime = options.to ? parseDateInput(options.to, 'end') : undefined;
+        if (fromTime !== undefined && toTime !== undefined && fromTime > toTime) {
+          throw new ValidationError(`--from ${options.from} is after --to ${options.to}`);
+        }
+
+        const chain = getChain(options.chain);
+        const service = new GraphService(createStorage(chain.chainId));
+        const graph = await service.buildGraph(options.name, chain.nativeSymbol, {
+          fromTime,
+          toTime,
+          minWeight,
+          asset: options.asset
+        });
+        const output = serializeGraph(graph, options.format);
+
+        if (options.output) {
+          await fs.ensureDir(path.dirname(options.output));
+          await fs.writeFile(options.output, `${output}\n`);
+          logger.info(`Wrote ${graph.nodes.length} addresses and ${graph.edges.length} edges to ${options.output}`);
+        } else {
+          console.log(output);
+        }
+      } catch (error) {
+        logger.error('Graph export failed', error);
+        process.exit(1);
+      }
+    });
+}
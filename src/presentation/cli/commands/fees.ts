@@ -0,0 +1,101 @@
+import { Command, Option } from 'commander';
+import { FeeBreakdown, FeeReport, FeeService } from '../../../application/services/FeeService';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { REPORT_PERIODS } from '../../../utils/dates';
+import { formatTable } from '../formatTable';
+
+const logger = createLogger('CLI:Fees');
+
+const DEFAULT_TOP = 10;
+
+function printBreakdown(title: string, heading: string, rows: FeeBreakdown[], nativeSymbol: string): void {
+  console.log('');
+  console.log(title);
+  if (rows.length === 0) {
+    console.log('  none');
+    return;
+  }
+  // Senders and contracts are addresses, which may be labeled
+  const labeled = rows.some(row => row.label);
+  const valued = rows.some(row => row.feesUsd !== undefined);
+  formatTable([
+    [heading, ...(labeled ? ['Label'] : []), `Fees (${nativeSymbol})`, ...(valued ? ['Fees (USD)'] : []), 'Transactions'],
+    ...rows.map(row => [
+      row.key,
+      ...(labeled ? [row.label ?? ''] : []),
+      row.fees,
+      ...(valued ? [row.feesUsd ?? ''] : []),
+      row.transactions.toString()
+    ])
+  ]).forEach(line => console.log(`  ${line}`));
+}
+
+function printReport(report: FeeReport, nativeSymbol: string): void {
+  console.log(`Fees paid by ${report.organization}: ${report.totalFees} ${nativeSymbol} over ${report.transactions} transactions`);
+  if (report.totalFeesUsd !== undefined) {
+    const unpriced = report.unpricedFees ? `, ${report.unpricedFees} fees without a price left out` : '';
+    console.log(`In USD at the price of each day: ${report.totalFeesUsd}${unpriced}`);
+  }
+  console.log(`Average gas price ${report.averageGasPrice} gwei, priority fees ${report.priorityFees} ${nativeSymbol}`);
+
+  printBreakdown(`Fees by ${report.period}`, 'Period', report.byPeriod, nativeSymbol);
+  printBreakdown('Fees by sender', 'Sender', report.bySender, nativeSymbol);
+  printBreakdown('Top functions', 'Function', report.byFunction, nativeSymbol);
+  printBreakdown('Top contracts called', 'Contract', report.byContract, nativeSymbol);
+
+  console.log('');
+  const failedUsd = report.failed.feesUsd !== undefined ? ` (${report.failed.feesUsd} USD)` : '';
+  console.log(`Failed transactions that burned gas: ${report.failed.transactions}, ${report.failed.fees} ${nativeSymbol}${failedUsd}`);
+  if (report.failed.list.length > 0) {
+    const valued = report.failed.feesUsd !== undefined;
+    formatTable([
+      ['Hash', 'Block', 'To', 'Function', `Fee (${nativeSymbol})`, ...(valued ? ['Fee (USD)'] : [])],
+      ...report.failed.list.map(tx => [
+        tx.hash, tx.blockNumber.toString(), tx.to, tx.function, tx.fee, ...(valued ? [tx.feeUsd ?? 'no price'] : [])
+      ])
+    ]).forEach(line => console.log(`  ${line}`));
+  }
+}
+
+export function createFeesCommand(): Command {
+  return new Command('fees')
+    .description('Analyze the gas fees an organization paid per period, sender, function and contract, and those burned by failed transactions')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to analyze', config.chain)
+    .addOption(
+      new Option('--period <period>', 'Period to group fees by')
+        .choices(REPORT_PERIODS)
+        .default('month')
+    )
+    .option('--top <n>', 'Functions and contracts listed', DEFAULT_TOP.toString())
+    .option('--json', 'Print the report as JSON')
+    .action(async (options) => {
+      try {
+        const top = parseInt(options.top);
+        if (!Number.isInteger(top) || top < 1) {
+          throw new ValidationError(`Invalid --top: ${options.top}`);
+        }
+
+        const chain = getChain(options.chain);
+        const service = new FeeService(createStorage(chain.chainId));
+        const report = await service.analyzeOrganization(options.name, { period: options.period, top });
+
+        if (report.withoutGasUsed > 0) {
+          logger.warn(`${report.withoutGasUsed} transactions sent by ${options.name} were collected before gas used was stored and are left out`);
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          printReport(report, chain.nativeSymbol);
+        }
+      } catch (error) {
+        logger.error('Fee analysis failed', error);
+        process.exit(1);
+      }
+    });
+}
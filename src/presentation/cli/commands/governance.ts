@@ -0,0 +1,53 @@
+import { Command, Option } from 'commander';
+import { GovernanceService } from '../../../application/services/GovernanceService';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { createDataProvider, PROVIDERS } from '../createDataProvider';
+
+const logger = createLogger('CLI:Governance');
+
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+export function createGovernanceCommand(): Command {
+  const command = new Command('governance')
+    .description('Extract Governor proposals and votes from collected event logs and measure participation')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to analyze', config.chain)
+    .addOption(
+      new Option('-p, --provider <provider>', 'Data provider to fetch the time of the last collected block from, for governors on a timestamp clock')
+        .choices(PROVIDERS)
+    )
+    .option('--rpc-url <url>', 'JSON-RPC endpoint for the rpc provider (defaults to RPC_URL, then the chain\'s public RPC)')
+    .option('--offline', 'Serve block times from the on-disk cache, failing on anything not cached')
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const provider = options.provider ?
+          await createDataProvider(options.provider, chain, options.rpcUrl, { offline: options.offline }) :
+          undefined;
+        const service = new GovernanceService(createStorage(chain.chainId), provider);
+        const { governors, metrics } = await service.analyzeOrganization(options.name);
+
+        if (governors.length === 0) {
+          logger.warn(`No governor events found for ${options.name} on ${chain.name}; collect the governor's logs with analyze --logs first`);
+          return;
+        }
+
+        logger.info(`Governors: ${governors.join(', ')}`);
+        const statuses = Object.entries(metrics.proposalsByStatus).map(([status, count]) => `${count} ${status}`).join(', ');
+        logger.info(`${metrics.proposals} proposals by ${metrics.proposers} proposers${statuses ? ` (${statuses})` : ''}`);
+        logger.info(`${metrics.votes} votes by ${metrics.uniqueVoters} voters, ${metrics.averageVotersPerProposal.toFixed(1)} per proposal`);
+        logger.info(`Average participation: ${formatShare(metrics.averageParticipation)} of all voters`);
+        logger.info(`Voting power: Gini ${metrics.votingPowerGini.toFixed(3)}, top 10 voters hold ${formatShare(metrics.top10VotingPowerShare)}, Nakamoto coefficient ${metrics.nakamotoCoefficient}`);
+      } catch (error) {
+        logger.error('Governance analysis failed', error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import { StorageMigrationService } from '../../../application/services/StorageMigrationService';
+import { FileSystemStorage } from '../../../infrastructure/persistence/FileSystemStorage';
+import { SqliteStorage } from '../../../infrastructure/persistence/SqliteStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+
+const logger = createLogger('CLI:Import');
+
+export function createImportCommand(): Command {
+  const command = new Command('import')
+    .description('Import organizations collected as CSV files into the SQLite storage')
+    .option('-n, --name <name...>', 'Only import the given organizations')
+    .option('--sqlite-file <file>', 'SQLite database to import into', config.storage.sqliteFile)
+    .action(async (options) => {
+      try {
+        const service = new StorageMigrationService(
+          chainId => new FileSystemStorage(chainId),
+          chainId => new SqliteStorage(chainId, options.sqliteFile)
+        );
+
+        const results = await service.migrateAll(options.name);
+        for (const result of results) {
+          logger.info(`${result.organization} (chain ${result.chainId}): ${result.normal} normal, ` +
+            `${result.internal} internal, ${result.tokenTransfers} token transfers, ${result.nftTransfers} NFT transfers, ${result.logs} event logs imported, ` +
+            `${result.coveredRanges} covered block ranges and ${result.resolvedDates} resolved dates copied`);
+        }
+
+        logger.info(`Import completed: ${results.length} organization datasets processed`);
+      } catch (error) {
+        logger.error('Import failed', error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
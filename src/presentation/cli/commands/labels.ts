@@ -0,0 +1,127 @@
+import { Command, Option } from 'commander';
+import { ethers } from 'ethers';
+import { LabelService } from '../../../application/services/LabelService';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { LABEL_CATEGORIES, LABEL_SOURCES, parseLabelCategory } from '../../../utils/labels';
+import { createContractNameProvider } from '../createDataProvider';
+import { loadLabelPack } from '../labelPacks';
+import { formatTable } from '../formatTable';
+
+const logger = createLogger('CLI:Labels');
+
+function createImportCommand(): Command {
+  return new Command('import')
+    .description('Import address labels from label packs, registered organizations or verified contract names')
+    .argument('[packs...]', 'CSV (address,name,category columns) or JSON label packs')
+    .option('-c, --chain <chain>', 'Chain name or chainId the labels apply to', config.chain)
+    .option('--organizations', 'Label the addresses of every registered organization')
+    .option('--contract-names <name>', 'Look up the verified contract names of an organization\'s unlabeled counterparties')
+    .option('--limit <n>', 'Contract names looked up at most, the most active counterparties first')
+    .action(async (packs: string[], options) => {
+      try {
+        if (packs.length === 0 && !options.organizations && !options.contractNames) {
+          throw new ValidationError('Give label packs, --organizations or --contract-names <name>');
+        }
+        const limit = options.limit !== undefined ? parseInt(options.limit) : undefined;
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+          throw new ValidationError(`Invalid --limit: ${options.limit}`);
+        }
+
+        const chain = getChain(options.chain);
+        const nameProvider = options.contractNames ? await createContractNameProvider(chain) : undefined;
+        const service = new LabelService(createStorage(chain.chainId), nameProvider);
+
+        for (const pack of packs) {
+          const result = await service.importLabels(await loadLabelPack(pack));
+          logger.info(`Imported ${result.saved} labels from ${pack}${result.kept ? `, kept ${result.kept} set by hand or by organizations` : ''}`);
+        }
+
+        if (options.organizations) {
+          const result = await service.importOrganizations();
+          logger.info(`Labeled ${result.saved} organization addresses${result.kept ? `, kept ${result.kept} set by hand` : ''}`);
+        }
+
+        if (options.contractNames) {
+          const result = await service.lookupContractNames(options.contractNames, limit);
+          logger.info(`Looked up ${result.looked} counterparties of ${options.contractNames}: ${result.saved} named, ` +
+            `${result.unnamed} without verified source${result.failed ? `, ${result.failed} failed` : ''}`);
+        }
+      } catch (error) {
+        logger.error('Label import failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+function createListCommand(): Command {
+  return new Command('list')
+    .description('List the address labels of a chain')
+    .option('-c, --chain <chain>', 'Chain name or chainId to list', config.chain)
+    .addOption(new Option('--category <category>', 'Only list labels of this category').choices(LABEL_CATEGORIES))
+    .addOption(new Option('--source <source>', 'Only list labels from this source').choices(LABEL_SOURCES))
+    .option('--json', 'Print the labels as JSON')
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const labels = await new LabelService(createStorage(chain.chainId))
+          .listLabels({ category: options.category, source: options.source });
+
+        if (options.json) {
+          console.log(JSON.stringify(labels, null, 2));
+          return;
+        }
+        if (labels.length === 0) {
+          logger.info(`No address labels on ${chain.name}`);
+          return;
+        }
+        formatTable([
+          ['Address', 'Name', 'Category', 'Source'],
+          ...labels.map(label => [label.address, label.name, label.category ?? '', label.source])
+        ]).forEach(line => console.log(line));
+      } catch (error) {
+        logger.error('Listing labels failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+function createSetCommand(): Command {
+  return new Command('set')
+    .description('Label an address by hand, replacing any other label')
+    .requiredOption('-a, --address <address>', 'Address to label')
+    .requiredOption('-l, --label <name>', 'Name of the address')
+    .option('--category <category>', `What the address is: ${LABEL_CATEGORIES.join(', ')}`)
+    .option('-c, --chain <chain>', 'Chain name or chainId the label applies to', config.chain)
+    .action(async (options) => {
+      try {
+        if (!ethers.isAddress(options.address)) {
+          throw new ValidationError(`Invalid address: ${options.address}`);
+        }
+        const category = options.category ? parseLabelCategory(options.category) : undefined;
+
+        const chain = getChain(options.chain);
+        await new LabelService(createStorage(chain.chainId)).setLabel({
+          address: options.address,
+          name: options.label,
+          category
+        });
+
+        logger.info(`Labeled ${options.address} ${options.label}${category ? ` (${category})` : ''} on ${chain.name}`);
+      } catch (error) {
+        logger.error('Setting label failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+export function createLabelsCommand(): Command {
+  return new Command('labels')
+    .description('Manage the address labels applied to reports and exports')
+    .addCommand(createImportCommand())
+    .addCommand(createListCommand())
+    .addCommand(createSetCommand());
+}
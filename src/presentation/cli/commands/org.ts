@@ -0,0 +1,205 @@
+import { Command } from 'commander';
+import { ethers } from 'ethers';
+import { Organization } from '../../../core/entities';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { findChain, getChain } from '../../../config/chains';
+import { getOrganizationAddresses, hasAddress } from '../../../utils/organizations';
+import { parseCoverageKey } from '../../../utils/eventTopics';
+import { formatCoverageTarget, formatRanges } from './verify';
+
+const logger = createLogger('CLI:Org');
+
+function validateAddress(address: string): string {
+  if (!ethers.isAddress(address)) {
+    throw new ValidationError(`Invalid address: ${address}`);
+  }
+  return address;
+}
+
+async function getRegisteredOrganization(name: string): Promise<Organization> {
+  const organization = await createStorage(getChain(config.chain).chainId).getOrganizationByName(name);
+  if (!organization) {
+    throw new ValidationError(`Organization ${name} is not registered`);
+  }
+  return organization;
+}
+
+function formatChains(organization: Organization): string {
+  return (organization.chains ?? [organization.chainId])
+    .map(chainId => findChain(chainId)?.name ?? chainId.toString())
+    .join(', ');
+}
+
+function createAddCommand(): Command {
+  return new Command('add')
+    .description('Register an organization with its primary address')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .requiredOption('-a, --address <address>', 'Primary address, e.g. the treasury')
+    .option('-l, --label <label>', 'What the address is to the organization')
+    .option('-t, --tags <tags...>', 'Tags to group organizations by')
+    .option('-d, --description <description>', 'Description of the organization')
+    .option('-c, --chain <chain>', 'Chain name or chainId the organization is analyzed on', config.chain)
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const storage = createStorage(chain.chainId);
+        const address = validateAddress(options.address);
+
+        if (await storage.getOrganizationByName(options.name)) {
+          throw new ValidationError(`Organization ${options.name} is already registered, use org add-address to extend it`);
+        }
+
+        await storage.saveOrganization({
+          address,
+          addresses: [{ address, ...(options.label ? { label: options.label } : {}) }],
+          name: options.name,
+          chainId: chain.chainId,
+          ...(options.tags ? { tags: options.tags } : {}),
+          ...(options.description ? { description: options.description } : {}),
+          dateAdded: new Date().toISOString()
+        });
+
+        logger.info(`Registered ${options.name} on ${chain.name} with address ${address}`);
+      } catch (error) {
+        logger.error('Adding organization failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+function createAddAddressCommand(): Command {
+  return new Command('add-address')
+    .description('Add an address, such as a multisig or vesting contract, to an organization')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .requiredOption('-a, --address <address>', 'Address to add')
+    .option('-l, --label <label>', 'What the address is to the organization')
+    .action(async (options) => {
+      try {
+        const organization = await getRegisteredOrganization(options.name);
+        const address = validateAddress(options.address);
+
+        if (hasAddress(organization, address) && !options.label) {
+          logger.info(`${address} already belongs to ${options.name}`);
+          return;
+        }
+
+        await createStorage(organization.chainId).saveOrganization({
+          ...organization,
+          addresses: [{ address, ...(options.label ? { label: options.label } : {}) }]
+        });
+
+        logger.info(`Added ${address} to ${options.name}; the next analyze -n ${options.name} collects it`);
+      } catch (error) {
+        logger.error('Adding address failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+function createListCommand(): Command {
+  return new Command('list')
+    .description('List the registered organizations')
+    .option('-t, --tag <tag>', 'Only list organizations with this tag')
+    .action(async (options) => {
+      try {
+        const organizations = (await createStorage(getChain(config.chain).chainId).listOrganizations())
+          .filter(organization => !options.tag || organization.tags?.includes(options.tag));
+
+        if (organizations.length === 0) {
+          logger.info('No organizations registered');
+          return;
+        }
+
+        for (const organization of organizations) {
+          const tags = organization.tags?.length ? `, tags: ${organization.tags.join(', ')}` : '';
+          logger.info(`${organization.name}: ${getOrganizationAddresses(organization).length} addresses, ` +
+            `chains: ${formatChains(organization)}${tags}`);
+        }
+      } catch (error) {
+        logger.error('Listing organizations failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+function createShowCommand(): Command {
+  return new Command('show')
+    .description('Show an organization\'s addresses and the data collected for them')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .action(async (options) => {
+      try {
+        const organization = await getRegisteredOrganization(options.name);
+
+        logger.info(`${organization.name} (registered ${organization.dateAdded})`);
+        if (organization.description) {
+          logger.info(`Description: ${organization.description}`);
+        }
+        if (organization.tags?.length) {
+          logger.info(`Tags: ${organization.tags.join(', ')}`);
+        }
+        logger.info(`Chains: ${formatChains(organization)}`);
+
+        for (const entry of getOrganizationAddresses(organization)) {
+          const primary = entry.address.toLowerCase() === organization.address.toLowerCase() ? ' (primary)' : '';
+          logger.info(`Address ${entry.address}${entry.label ? ` [${entry.label}]` : ''}${primary}`);
+          if (entry.provenance) {
+            const { deployer, method, transactionHash, blockNumber, chainId } = entry.provenance;
+            const chainName = findChain(chainId)?.name ?? chainId.toString();
+            logger.info(`  deployed by ${deployer}${method === 'create' ? ' from its code' : ''} in ${transactionHash} ` +
+              `(${chainName} block ${blockNumber})`);
+          }
+        }
+
+        for (const chainId of organization.chains ?? [organization.chainId]) {
+          const state = await createStorage(chainId).getLastProcessedState(organization.name);
+          if (!state) {
+            continue;
+          }
+
+          const chainName = findChain(chainId)?.name ?? chainId.toString();
+          for (const [type, typeState] of Object.entries(state.transactionTypes)) {
+            logger.info(`${chainName} ${type}: ${typeState.count} records`);
+            for (const [key, ranges] of Object.entries(typeState.coveredRanges ?? {})) {
+              if (ranges.length === 0) continue;
+              const { address, topics } = parseCoverageKey(key);
+              logger.info(`${chainName} ${type}: ${formatCoverageTarget(address, topics)} covered blocks ${formatRanges(ranges)}`);
+            }
+          }
+        }
+      } catch (error) {
+        logger.error('Showing organization failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+function createRemoveCommand(): Command {
+  return new Command('remove')
+    .description('Unregister an organization; its collected data is kept')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .action(async (options) => {
+      try {
+        const removed = await createStorage(getChain(config.chain).chainId).removeOrganization(options.name);
+        if (!removed) {
+          throw new ValidationError(`Organization ${options.name} is not registered`);
+        }
+        logger.info(`Removed ${options.name} from the registry`);
+      } catch (error) {
+        logger.error('Removing organization failed', error);
+        process.exit(1);
+      }
+    });
+}
+
+export function createOrgCommand(): Command {
+  return new Command('org')
+    .description('Manage registered organizations and their addresses')
+    .addCommand(createAddCommand())
+    .addCommand(createAddAddressCommand())
+    .addCommand(createListCommand())
+    .addCommand(createShowCommand())
+    .addCommand(createRemoveCommand());
+}
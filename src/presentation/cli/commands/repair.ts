@@ -0,0 +1,67 @@
+import { Command, Option } from 'commander';
+import { BlockchainService, MissingRanges } from '../../../application/services/BlockchainService';
+import { DataIntegrityService } from '../../../application/services/DataIntegrityService';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { createDataProvider, PROVIDERS } from '../createDataProvider';
+import { formatCoverageTarget, formatRanges } from './verify';
+
+const logger = createLogger('CLI:Repair');
+
+export function createRepairCommand(): Command {
+  const command = new Command('repair')
+    .description('Fetch only the block ranges missing from an organization\'s collected data')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-a, --address <address>', 'Only repair this address (defaults to every address of the organization)')
+    .option('-s, --start-block <block>', 'Expect coverage from this block')
+    .option('-e, --end-block <block>', 'Expect coverage up to this block')
+    .addOption(
+      new Option('-p, --provider <provider>', 'Data provider to collect from')
+        .choices(PROVIDERS)
+        .default('etherscan')
+    )
+    .option('-c, --chain <chain>', 'Chain name or chainId to repair', config.chain)
+    .option('--rpc-url <url>', 'JSON-RPC endpoint for the rpc provider (defaults to RPC_URL, then the chain\'s public RPC)')
+    .option('--offline', 'Serve every provider response from the on-disk cache, failing on anything not cached')
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const storage = createStorage(chain.chainId);
+
+        const integrity = new DataIntegrityService(storage);
+        const report = await integrity.verify(options.name, {
+          startBlock: options.startBlock ? parseInt(options.startBlock) : undefined,
+          endBlock: options.endBlock ? parseInt(options.endBlock) : undefined
+        });
+
+        const gaps: MissingRanges[] = [];
+        for (const result of report.types) {
+          for (const { address, logTopics, gaps: ranges } of result.addresses) {
+            if (ranges.length === 0 || (options.address && address !== options.address.toLowerCase())) {
+              continue;
+            }
+            gaps.push({ address, type: result.type, ranges, logTopics });
+            logger.info(`${result.type}: repairing blocks ${formatRanges(ranges)} of ${formatCoverageTarget(address, logTopics)}`);
+          }
+        }
+
+        if (gaps.length === 0) {
+          logger.info(`No gaps found for ${options.name} on ${chain.name}`);
+          return;
+        }
+
+        const dataProvider = await createDataProvider(options.provider, chain, options.rpcUrl, { offline: options.offline });
+        const service = new BlockchainService(dataProvider, storage, chain);
+        await service.repairGaps(options.name, gaps);
+
+        logger.info('Repair completed successfully');
+      } catch (error) {
+        logger.error('Repair failed', error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,130 @@
+import { Command, Option } from 'commander';
+import { FiatFlow, OrganizationReport, ReportService } from '../../../application/services/ReportService';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { REPORT_PERIODS } from '../../../utils/dates';
+import { formatTable } from '../formatTable';
+
+const logger = createLogger('CLI:Report');
+
+const DEFAULT_TOP = 10;
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+// USD columns, only once the organization was valued
+function fiatColumns(flow: FiatFlow & { transfers: number }, valued: boolean): string[] {
+  if (!valued) {
+    return [];
+  }
+  const flag = flow.unpriced === 0 ? '' : flow.unpriced === flow.transfers ? 'no price' : `${flow.unpriced} unpriced`;
+  return [flow.inflowUsd ?? '', flow.outflowUsd ?? '', flow.netUsd ?? '', flag];
+}
+
+function printReport(report: OrganizationReport, nativeSymbol: string): void {
+  const valued = report.fiat !== undefined;
+  const fiatTitles = valued ? ['Inflow (USD)', 'Outflow (USD)', 'Net (USD)', ''] : [];
+  const sections: Array<{ title: string; rows: string[][] }> = [
+    {
+      title: `${nativeSymbol} flows by ${report.period}`,
+      rows: [
+        ['Period', 'Inflow', 'Outflow', 'Net', 'Transfers', ...fiatTitles],
+        ...report.periods.map(flow => [
+          flow.period, flow.inflow, flow.outflow, flow.net, flow.transfers.toString(), ...fiatColumns(flow, valued)
+        ]),
+        ['Total', report.native.inflow, report.native.outflow, report.native.net, report.native.transfers.toString(),
+          ...fiatColumns(report.native, valued)]
+      ]
+    },
+    {
+      title: 'Token volumes',
+      rows: [
+        ['Token', 'Contract', 'Inflow', 'Outflow', 'Net', 'Transfers', ...fiatTitles],
+        ...report.tokens.map(token => [
+          token.symbol || '?', token.contractAddress, token.inflow, token.outflow, token.net, token.transfers.toString(),
+          ...fiatColumns(token, valued)
+        ])
+      ]
+    },
+    {
+      title: `Top counterparties by ${nativeSymbol} volume`,
+      rows: [
+        ['Address', 'Label', 'Volume', 'Interactions'],
+        ...report.topCounterpartiesByVolume.map(entry => [entry.address, entry.label ?? '', entry.volume, entry.interactions.toString()])
+      ]
+    },
+    {
+      title: 'Top counterparties by interactions',
+      rows: [
+        ['Address', 'Label', 'Interactions', 'Volume'],
+        ...report.topCounterpartiesByCount.map(entry => [entry.address, entry.label ?? '', entry.interactions.toString(), entry.volume])
+      ]
+    },
+    {
+      title: 'Failed transactions',
+      rows: [
+        ['Sender', 'Sent', 'Failed', 'Rate'],
+        ...report.failures.byAddress.map(entry => [
+          entry.address, entry.sent.toString(), entry.failed.toString(), formatRate(entry.failureRate)
+        ]),
+        ['All transactions', report.failures.transactions.toString(), report.failures.failed.toString(), formatRate(report.failures.failureRate)],
+        ['Internal calls', report.failures.internalCalls.toString(), report.failures.failedInternalCalls.toString(),
+          formatRate(report.failures.internalCalls > 0 ? report.failures.failedInternalCalls / report.failures.internalCalls : 0)]
+      ]
+    }
+  ];
+
+  console.log(`Report of ${report.organization}`);
+  if (report.fiat) {
+    console.log(`USD inflow ${report.fiat.inflowUsd}, outflow ${report.fiat.outflowUsd}, net ${report.fiat.netUsd}` +
+      (report.fiat.unpriced > 0 ? `, leaving out ${report.fiat.unpriced} transfers without a price` : ''));
+  }
+  for (const section of sections) {
+    console.log('');
+    console.log(section.title);
+    if (section.rows.length === 1) {
+      console.log('  none');
+      continue;
+    }
+    formatTable(section.rows).forEach(line => console.log(`  ${line}`));
+  }
+}
+
+export function createReportCommand(): Command {
+  return new Command('report')
+    .description('Summarize the stored data of an organization: native flows per period, token volumes, top counterparties and failed transaction rates')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to report on', config.chain)
+    .addOption(
+      new Option('--period <period>', 'Period to group native flows by')
+        .choices(REPORT_PERIODS)
+        .default('month')
+    )
+    .option('--top <n>', 'Counterparties listed per ranking', DEFAULT_TOP.toString())
+    .option('--json', 'Print the report as JSON')
+    .action(async (options) => {
+      try {
+        const top = parseInt(options.top);
+        if (!Number.isInteger(top) || top < 1) {
+          throw new ValidationError(`Invalid --top: ${options.top}`);
+        }
+
+        const chain = getChain(options.chain);
+        const service = new ReportService(createStorage(chain.chainId));
+        const report = await service.buildReport(options.name, { period: options.period, top });
+
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+        } else {
+          printReport(report, chain.nativeSymbol);
+        }
+      } catch (error) {
+        logger.error('Report failed', error);
+        process.exit(1);
+      }
+    });
+}
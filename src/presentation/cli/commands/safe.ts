@@ -0,0 +1,68 @@
+import { Command } from 'commander';
+import { SafeService } from '../../../application/services/SafeService';
+import { SafeOwnerChange } from '../../../core/entities';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+
+const logger = createLogger('CLI:Safe');
+
+function describeChange(change: SafeOwnerChange): string {
+  switch (change.type) {
+    case 'setup':
+      return `set up with owners ${change.owners.join(', ')} and threshold ${change.threshold}`;
+    case 'added':
+      return `added owner ${change.owners[0]}`;
+    case 'removed':
+      return `removed owner ${change.owners[0]}`;
+    case 'threshold':
+      return `changed threshold to ${change.threshold}`;
+  }
+}
+
+export function createSafeCommand(): Command {
+  const command = new Command('safe')
+    .description('Analyze the Safe multisigs of an organization: owners, threshold history, executed transactions and signer activity')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to analyze', config.chain)
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const service = new SafeService(createStorage(chain.chainId));
+        const reports = await service.analyzeOrganization(options.name);
+
+        if (reports.length === 0) {
+          logger.warn(`No Safe found among the addresses of ${options.name} on ${chain.name}; collect their transactions and logs with analyze --logs first`);
+          return;
+        }
+
+        for (const report of reports) {
+          logger.info(`Safe ${report.safe}: ${report.owners.length} owners, threshold ${report.threshold ?? 'unknown'}`);
+          for (const owner of report.owners) {
+            logger.info(`  owner ${owner}`);
+          }
+          if (!report.complete) {
+            logger.warn(`  Setup of ${report.safe} not collected; owners that never changed since are missing. Collect its logs from its creation block for the full picture`);
+          }
+
+          for (const change of report.history) {
+            logger.info(`  ${new Date(change.timeStamp * 1000).toISOString()} (block ${change.blockNumber}): ${describeChange(change)}`);
+          }
+
+          logger.info(`  ${report.transactions} transactions executed${report.failedTransactions ? `, ${report.failedTransactions} failed` : ''}`);
+          for (const signer of report.signers) {
+            const activity = signer.signed + signer.executed > 0 ?
+              `signed ${signer.signed}, executed ${signer.executed}, blocks ${signer.firstBlock}-${signer.lastBlock}` :
+              'no collected activity';
+            logger.info(`  ${signer.isOwner ? 'owner' : 'former signer'} ${signer.signer}: ${activity}`);
+          }
+        }
+      } catch (error) {
+        logger.error('Safe analysis failed', error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
@@ -0,0 +1,152 @@
+import { Command, Option } from 'commander';
+import { ethers } from 'ethers';
+import { TraceResult, TraceService } from '../../../application/services/TraceService';
+import { NATIVE_ASSET } from '../../../application/services/BalanceService';
+import { AddressLabel } from '../../../core/entities';
+import { ValidationError } from '../../../core/errors';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { parseDateInput } from '../../../utils/dates';
+import { indexLabels, LABEL_CATEGORIES, parseLabelCategory } from '../../../utils/labels';
+import { createDataProvider, PROVIDERS } from '../createDataProvider';
+import { formatTable } from '../formatTable';
+
+const logger = createLogger('CLI:Trace');
+
+const DEFAULT_DEPTH = 3;
+const DEFAULT_MAX_ADDRESSES = 50;
+const DEFAULT_STOP_CATEGORIES = ['cex', 'bridge', 'mixer'];
+
+function parsePositiveInteger(value: string, option: string): number {
+  const parsed = parseInt(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ValidationError(`Invalid ${option}: ${value}`);
+  }
+  return parsed;
+}
+
+// Prints the hops as a tree from the root, one line per sender and
+// recipient; an address reached more than once shows its own hops the
+// first time only
+function printTree(result: TraceResult, labels: Map<string, AddressLabel>): void {
+  const edges = new Map<string, Map<string, { attributed: bigint; transfers: number; terminal: boolean }>>();
+  for (const hop of result.hops) {
+    const children = edges.get(hop.from) ?? new Map();
+    const edge = children.get(hop.to) ?? { attributed: 0n, transfers: 0, terminal: hop.terminal };
+    edge.attributed += BigInt(hop.attributed);
+    edge.transfers++;
+    children.set(hop.to, edge);
+    edges.set(hop.from, children);
+  }
+
+  const printed = new Set<string>([result.root]);
+  const visit = (address: string, indent: string): void => {
+    const children = [...(edges.get(address) ?? new Map()).entries()]
+      .sort(([, a], [, b]) => (b.attributed > a.attributed ? 1 : b.attributed < a.attributed ? -1 : 0));
+    for (const [to, edge] of children) {
+      const label = labels.has(to) ? ` [${labels.get(to)?.name}]` : '';
+      const seen = printed.has(to) && edges.has(to);
+      console.log(`${indent}-> ${to}${label}: ${ethers.formatUnits(edge.attributed, result.decimals)} ${result.symbol}` +
+        ` in ${edge.transfers} transfers${edge.terminal ? ' (stop)' : ''}${seen ? ' (followed above)' : ''}`);
+      if (!seen) {
+        printed.add(to);
+        visit(to, `${indent}   `);
+      }
+    }
+  };
+
+  console.log(result.root);
+  visit(result.root, '  ');
+}
+
+function printResult(result: TraceResult, labels: Map<string, AddressLabel>): void {
+  console.log(`Traced ${result.traced} ${result.symbol} sent by ${result.root} (${result.organization}), ` +
+    `following ${result.expanded} addresses over ${result.hops.length} transfers`);
+  if (result.belowMinimum !== '0.0') {
+    console.log(`${result.belowMinimum} ${result.symbol} left in transfers below the minimum amount`);
+  }
+
+  console.log('');
+  printTree(result, labels);
+
+  console.log('');
+  console.log('Where the funds ended up');
+  if (result.endpoints.length === 0) {
+    console.log('  none');
+    return;
+  }
+  formatTable([
+    ['Address', 'Label', 'Category', 'Reason', 'Depth', `Amount (${result.symbol})`],
+    ...result.endpoints.map(endpoint => [
+      endpoint.address, endpoint.label ?? '', endpoint.category ?? '', endpoint.reason, endpoint.depth.toString(), endpoint.amount
+    ])
+  ]).forEach(line => console.log(`  ${line}`));
+}
+
+export function createTraceCommand(): Command {
+  return new Command('trace')
+    .description('Follow the funds an organization address sent over several hops, through the data provider')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-a, --address <address>', 'Organization address to start from (defaults to the primary address)')
+    .option('-c, --chain <chain>', 'Chain name or chainId to trace on', config.chain)
+    .option('--asset <asset>', 'Asset to follow: "native" or a token contract address', NATIVE_ASSET)
+    .option('--depth <n>', 'Hops followed from the start address', DEFAULT_DEPTH.toString())
+    .option('--include-internal', 'Also follow native funds sent by contract calls (internal transactions)')
+    .option('--min-amount <amount>', 'Transfers carrying less of the traced funds are not followed, in whole units')
+    .option('--from <date>', 'Start date, ISO (2023-01-01) or relative to now (90d, 12h, 4w)')
+    .option('--to <date>', 'End date, ISO (2023-03-31, inclusive) or relative to now')
+    .option('--max-addresses <n>', 'Addresses whose transfers are fetched at most', DEFAULT_MAX_ADDRESSES.toString())
+    .option('--stop-at <categories...>', `Label categories the trace stops at (${LABEL_CATEGORIES.join(', ')})`, DEFAULT_STOP_CATEGORIES)
+    .addOption(
+      new Option('-p, --provider <provider>', 'Data provider to fetch transfers from')
+        .choices(PROVIDERS)
+        .default('etherscan')
+    )
+    .option('--rpc-url <url>', 'JSON-RPC endpoint for the rpc provider (defaults to RPC_URL, then the chain\'s public RPC)')
+    .option('--offline', 'Serve every response from the on-disk cache, failing on anything not cached')
+    .option('--json', 'Print the trace as JSON')
+    .action(async (options) => {
+      try {
+        const maxDepth = parsePositiveInteger(options.depth, '--depth');
+        const maxAddresses = parsePositiveInteger(options.maxAddresses, '--max-addresses');
+        if (options.minAmount !== undefined && !(Number(options.minAmount) >= 0)) {
+          throw new ValidationError(`Invalid --min-amount: ${options.minAmount}`);
+        }
+        const fromTime = options.from ? parseDateInput(options.from, 'start') : undefined;
+        const toTime = options.to ? parseDateInput(options.to, 'end') : undefined;
+        if (fromTime !== undefined && toTime !== undefined && fromTime > toTime) {
+          throw new ValidationError(`--from ${options.from} is after --to ${options.to}`);
+        }
+        if (options.address && !ethers.isAddress(options.address)) {
+          throw new ValidationError(`Invalid address: ${options.address}`);
+        }
+
+        const chain = getChain(options.chain);
+        const provider = await createDataProvider(options.provider, chain, options.rpcUrl, { offline: options.offline });
+        const storage = createStorage(chain.chainId);
+        const service = new TraceService(provider, storage);
+        const result = await service.trace(options.name, chain.nativeSymbol, {
+          address: options.address,
+          asset: options.asset,
+          maxDepth,
+          includeInternal: options.includeInternal,
+          minAmount: options.minAmount,
+          fromTime,
+          toTime,
+          maxAddresses,
+          stopCategories: (options.stopAt as string[]).map(parseLabelCategory)
+        });
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          printResult(result, indexLabels(await storage.getAddressLabels()));
+        }
+      } catch (error) {
+        logger.error('Fund flow trace failed', error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,73 @@
+import { Command, Option } from 'commander';
+import { ValuationResult, ValuationService } from '../../../application/services/ValuationService';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+import { createPriceSource, PRICE_SOURCES } from '../createPriceSource';
+import { formatTable } from '../formatTable';
+
+const logger = createLogger('CLI:Value');
+
+function printResult(result: ValuationResult): void {
+  console.log(`Valued ${result.valued} transfers and fees of ${result.organization} from ${result.source}, ` +
+    `${result.valued - result.priced} without a price`);
+  if (result.assets.length === 0) {
+    return;
+  }
+
+  console.log('');
+  formatTable([
+    ['Asset', 'Symbol', 'Kind', 'Records', 'Priced', 'Amount', 'Value (USD)', ''],
+    ...result.assets.map(asset => [
+      asset.asset,
+      asset.symbol || '?',
+      asset.fees ? 'fees' : 'transfers',
+      asset.records.toString(),
+      asset.priced.toString(),
+      asset.amount,
+      asset.usdValue,
+      asset.priced === 0 ? 'no price' : asset.priced < asset.records ? 'missing prices' : ''
+    ])
+  ]).forEach(line => console.log(`  ${line}`));
+
+  if (result.failedAssets.length > 0) {
+    console.log('');
+    console.log(`Prices could not be fetched for ${result.failedAssets.join(', ')}`);
+  }
+}
+
+export function createValueCommand(): Command {
+  return new Command('value')
+    .description('Value the stored transfers and fees of an organization in USD at the price of the day they were made')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to value', config.chain)
+    .addOption(
+      new Option('--price-source <source>', 'Where daily prices come from')
+        .choices(PRICE_SOURCES)
+        .default('csv')
+    )
+    .option('--prices-dir <dir>', 'Directory of daily price CSVs (defaults to PRICES_DIR, then ./prices)')
+    .option('--coingecko-url <url>', 'CoinGecko-compatible API to ask (defaults to COINGECKO_API_URL, then the public API)')
+    .option('--json', 'Print the valuation summary as JSON')
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const priceSource = createPriceSource(options.priceSource, chain, {
+          dir: options.pricesDir,
+          coingeckoUrl: options.coingeckoUrl
+        });
+        const service = new ValuationService(createStorage(chain.chainId), priceSource);
+        const result = await service.valueOrganization(options.name, chain.nativeSymbol);
+
+        if (options.json) {
+          console.log(JSON.stringify(result, null, 2));
+        } else {
+          printResult(result);
+        }
+      } catch (error) {
+        logger.error('Valuation failed', error);
+        process.exit(1);
+      }
+    });
+}
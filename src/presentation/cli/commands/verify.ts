@@ -0,0 +1,75 @@
+import { Command } from 'commander';
+import { DataIntegrityService } from '../../../application/services/DataIntegrityService';
+import { BlockRange } from '../../../core/interfaces/IDataStorage';
+import { createStorage } from '../../../infrastructure/persistence/createStorage';
+import { createLogger } from '../../../infrastructure/logging/logger';
+import { config } from '../../../config/config';
+import { getChain } from '../../../config/chains';
+
+const logger = createLogger('CLI:Verify');
+
+export function formatRanges(ranges: BlockRange[]): string {
+  return ranges.map(range => `${range.fromBlock}-${range.toBlock}`).join(', ');
+}
+
+// An address, with the events its logs were filtered on if any
+export function formatCoverageTarget(address: string, logTopics: string[] = []): string {
+  return logTopics.length > 0 ? `${address} (events ${logTopics.join(', ')})` : address;
+}
+
+export function createVerifyCommand(): Command {
+  const command = new Command('verify')
+    .description('Check collected data for block gaps, count mismatches and out-of-order rows')
+    .requiredOption('-n, --name <name>', 'Organization name')
+    .option('-c, --chain <chain>', 'Chain name or chainId to verify', config.chain)
+    .option('-s, --start-block <block>', 'Expect coverage from this block')
+    .option('-e, --end-block <block>', 'Expect coverage up to this block')
+    .action(async (options) => {
+      try {
+        const chain = getChain(options.chain);
+        const service = new DataIntegrityService(createStorage(chain.chainId));
+        const report = await service.verify(options.name, {
+          startBlock: options.startBlock ? parseInt(options.startBlock) : undefined,
+          endBlock: options.endBlock ? parseInt(options.endBlock) : undefined
+        });
+
+        for (const result of report.types) {
+          if (!result.collected && result.storedCount === 0) {
+            logger.info(`${result.type}: not collected`);
+            continue;
+          }
+
+          logger.info(`${result.type}: ${result.storedCount} records`);
+          for (const address of result.addresses) {
+            const coverage = address.coveredRanges.length > 0 ? formatRanges(address.coveredRanges) : 'none';
+            const target = formatCoverageTarget(address.address, address.logTopics);
+            logger.info(`${result.type}: ${target} covered blocks ${coverage}`);
+            if (address.gaps.length > 0) {
+              logger.warn(`${result.type}: ${target} has ${address.gaps.length} gaps in blocks ${formatRanges(address.gaps)}`);
+            }
+          }
+          if (!result.collected) {
+            logger.info(`${result.type}: coverage not recorded`);
+          }
+          if (result.storedCount !== result.stateCount) {
+            logger.warn(`${result.type}: ${result.storedCount} records stored but state counts ${result.stateCount}`);
+          }
+          if (result.outOfOrderRows > 0) {
+            logger.warn(`${result.type}: ${result.outOfOrderRows} rows out of block order, run dedupe to reorder them`);
+          }
+        }
+
+        if (report.healthy) {
+          logger.info(`Data of ${options.name} on ${chain.name} is complete and consistent`);
+        } else {
+          logger.warn(`Data of ${options.name} on ${chain.name} has issues, see above`);
+          process.exitCode = 1;
+        }
+      } catch (error) {
+        logger.error('Verification failed', error);
+        process.exit(1);
+      }
+    });
+
+  return command;
+}
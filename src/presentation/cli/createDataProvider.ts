@@ -0,0 +1,138 @@
+import { IBlockchainDataProvider, IContractAbiProvider, IContractNameProvider } from '../../core/interfaces';
+import { EtherscanClient } from '../../infrastructure/api/etherscan/EtherscanClient';
+import { ApiKeyPool, maskApiKey } from '../../infrastructure/api/etherscan/ApiKeyPool';
+import { CachingDataProvider } from '../../infrastructure/api/cache/CachingDataProvider';
+import { ResponseCache } from '../../infrastructure/api/cache/ResponseCache';
+import { RpcDataProvider } from '../../infrastructure/api/rpc/RpcDataProvider';
+import { RateLimiter } from '../../infrastructure/utils/RateLimiter';
+import { config } from '../../config/config';
+import { ChainConfig } from '../../config/chains';
+import { validateApiKey } from '../../utils/validateApiKey';
+
+export const PROVIDERS = ['etherscan', 'rpc'];
+
+// Etherscan limits requests per key and per IP, so every client of the
+// process, whatever its chain or job, shares one limiter and key pool
+let etherscanRateLimiter: RateLimiter | undefined;
+let apiKeyPool: ApiKeyPool | undefined;
+// Keys are checked once per chain, as each chain has its own explorer
+const validatedChains = new Map<number, Promise<void>>();
+
+function getEtherscanRateLimiter(): RateLimiter {
+  if (!etherscanRateLimiter) {
+    etherscanRateLimiter = new RateLimiter(
+      config.etherscan.rateLimit.requestsPerSecond,
+      config.etherscan.rateLimit.timeWindow,
+      config.etherscan.rateLimit.burst
+    );
+  }
+  return etherscanRateLimiter;
+}
+
+async function validateApiKeys(chain: ChainConfig): Promise<void> {
+  for (const apiKey of config.etherscan.apiKeys) {
+    const isValidKey = await getEtherscanRateLimiter().schedule(() => validateApiKey(chain, apiKey));
+    if (!isValidKey) {
+      throw new Error(`Invalid or expired Etherscan API key ${maskApiKey(apiKey)} for ${chain.name}`);
+    }
+  }
+}
+
+function getApiKeyPool(): ApiKeyPool {
+  if (!apiKeyPool) {
+    apiKeyPool = new ApiKeyPool(config.etherscan.apiKeys);
+  }
+  return apiKeyPool;
+}
+
+async function getValidatedApiKeyPool(chain: ChainConfig): Promise<ApiKeyPool> {
+  if (config.etherscan.apiKeys.length === 0) {
+    throw new Error('Neither ETHERSCAN_API_KEY nor ETHERSCAN_API_KEYS is set in environment variables');
+  }
+
+  if (!validatedChains.has(chain.chainId)) {
+    validatedChains.set(chain.chainId, validateApiKeys(chain));
+  }
+  await validatedChains.get(chain.chainId);
+
+  return getApiKeyPool();
+}
+
+export interface DataProviderOptions {
+  // Serve every response from the cache, without touching the network
+  offline?: boolean;
+}
+
+async function createUncachedProvider(
+  provider: string,
+  chain: ChainConfig,
+  rpcUrl: string | undefined,
+  offline: boolean
+): Promise<IBlockchainDataProvider> {
+  if (provider === 'rpc') {
+    return new RpcDataProvider(rpcUrl || config.rpc.url || chain.rpcUrl, config.rpc.blockConcurrency);
+  }
+
+  if (!chain.explorerApiUrl) {
+    throw new Error(`Chain ${chain.name} has no explorer API, use the rpc provider instead`);
+  }
+
+  // Offline runs never send a request, so the keys are not checked
+  const apiKeys = offline ? getApiKeyPool() : await getValidatedApiKeyPool(chain);
+  return new EtherscanClient(apiKeys, chain, getEtherscanRateLimiter());
+}
+
+export async function createDataProvider(
+  provider: string,
+  chain: ChainConfig,
+  rpcUrl?: string,
+  options: DataProviderOptions = {}
+): Promise<IBlockchainDataProvider> {
+  const offline = options.offline ?? false;
+  if (offline && !config.cache.enabled) {
+    throw new Error('Offline mode serves responses from the cache, which CACHE_ENABLED=false turns off');
+  }
+
+  const dataProvider = await createUncachedProvider(provider, chain, rpcUrl, offline);
+  if (!config.cache.enabled) {
+    return dataProvider;
+  }
+
+  return new CachingDataProvider(dataProvider, new ResponseCache(config.cache.dir), {
+    chainId: chain.chainId,
+    source: provider,
+    offline,
+    ttl: config.cache.ttl * 1000,
+    finalityDepth: config.cache.finalityDepth
+  });
+}
+
+// Explorer client for contract metadata, or undefined when the chain has no
+// explorer, no key is set or the run is offline
+async function createExplorerClient(
+  chain: ChainConfig,
+  options: DataProviderOptions
+): Promise<EtherscanClient | undefined> {
+  if (options.offline || !chain.explorerApiUrl || config.etherscan.apiKeys.length === 0) {
+    return undefined;
+  }
+  return new EtherscanClient(await getValidatedApiKeyPool(chain), chain, getEtherscanRateLimiter());
+}
+
+// Source of verified ABIs, or undefined when the explorer cannot be asked,
+// leaving only local ABIs
+export async function createAbiProvider(
+  chain: ChainConfig,
+  options: DataProviderOptions = {}
+): Promise<IContractAbiProvider | undefined> {
+  return createExplorerClient(chain, options);
+}
+
+// Source of verified contract names, or undefined when the explorer cannot
+// be asked
+export async function createContractNameProvider(
+  chain: ChainConfig,
+  options: DataProviderOptions = {}
+): Promise<IContractNameProvider | undefined> {
+  return createExplorerClient(chain, options);
+}
@@ -0,0 +1,35 @@
+import { IPriceSource } from '../../core/interfaces';
+import { CsvPriceSource } from '../../infrastructure/prices/CsvPriceSource';
+import { CoinGeckoPriceSource } from '../../infrastructure/prices/CoinGeckoPriceSource';
+import { RateLimiter } from '../../infrastructure/utils/RateLimiter';
+import { config } from '../../config/config';
+import { ChainConfig } from '../../config/chains';
+
+export const PRICE_SOURCES = ['csv', 'coingecko'];
+
+export interface PriceSourceOptions {
+  // Price CSV directory, in place of PRICES_DIR
+  dir?: string;
+  // CoinGecko-compatible API, in place of COINGECKO_API_URL, e.g. a local mock
+  coingeckoUrl?: string;
+}
+
+let coingeckoRateLimiter: RateLimiter | undefined;
+
+export function createPriceSource(
+  source: string,
+  chain: ChainConfig,
+  options: PriceSourceOptions = {}
+): IPriceSource {
+  if (source === 'coingecko') {
+    if (!coingeckoRateLimiter) {
+      coingeckoRateLimiter = new RateLimiter(config.prices.coingecko.requestsPerMinute, 60000);
+    }
+    return new CoinGeckoPriceSource(chain, {
+      baseUrl: options.coingeckoUrl || config.prices.coingecko.baseUrl,
+      apiKey: config.prices.coingecko.apiKey,
+      rateLimiter: coingeckoRateLimiter
+    });
+  }
+  return new CsvPriceSource(options.dir || config.prices.dir, chain.chainId);
+}
@@ -0,0 +1,6 @@
+// Lays rows out in columns padded to their widest cell; the first row is
+// the header
+export function formatTable(rows: string[][]): string[] {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows.map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+}
@@ -0,0 +1,169 @@
+import { TransactionGraph } from '../../application/services/GraphService';
+
+export type GraphFormat = 'graphml' | 'gexf' | 'dot' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['graphml', 'gexf', 'dot', 'json'];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeDot(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// Volumes are exact decimal strings; graph tools want numbers, precise
+// enough for weights and layouts
+function toNumber(volume: string): number {
+  return Number(volume);
+}
+
+// Whether the organization was valued, giving edges a USD volume
+function isValued(graph: TransactionGraph): boolean {
+  return graph.edges.some(edge => edge.volumeUsd !== undefined);
+}
+
+// GraphML, read by Gephi, NetworkX (read_graphml) and igraph. Parallel edges
+// of different assets make it a multigraph unless one asset is kept.
+function toGraphml(graph: TransactionGraph): string {
+  const valued = isValued(graph);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="category" for="node" attr.name="category" attr.type="string"/>',
+    '  <key id="owned" for="node" attr.name="owned" attr.type="boolean"/>',
+    '  <key id="asset" for="edge" attr.name="asset" attr.type="string"/>',
+    '  <key id="symbol" for="edge" attr.name="symbol" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    '  <key id="volume" for="edge" attr.name="volume" attr.type="double"/>',
+    ...(valued ? [
+      '  <key id="volume_usd" for="edge" attr.name="volume_usd" attr.type="double"/>',
+      '  <key id="unpriced" for="edge" attr.name="unpriced" attr.type="int"/>'
+    ] : []),
+    `  <graph id="${escapeXml(graph.organization)}" edgedefault="directed">`
+  ];
+  for (const node of graph.nodes) {
+    lines.push(
+      `    <node id="${node.id}">`,
+      `      <data key="label">${escapeXml(node.label)}</data>`,
+      `      <data key="category">${node.category ?? ''}</data>`,
+      `      <data key="owned">${node.owned}</data>`,
+      '    </node>'
+    );
+  }
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `    <edge id="e${index}" source="${edge.source}" target="${edge.target}">`,
+      `      <data key="asset">${edge.asset}</data>`,
+      `      <data key="symbol">${escapeXml(edge.symbol)}</data>`,
+      `      <data key="weight">${edge.count}</data>`,
+      `      <data key="volume">${toNumber(edge.volume)}</data>`,
+      ...(valued ? [
+        `      <data key="volume_usd">${toNumber(edge.volumeUsd ?? '0')}</data>`,
+        `      <data key="unpriced">${edge.unpriced ?? 0}</data>`
+      ] : []),
+      '    </edge>'
+    );
+  });
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+// GEXF 1.2, Gephi's native format, with the transfer count as edge weight
+function toGexf(graph: TransactionGraph): string {
+  const valued = isValued(graph);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.2" version="1.2">',
+    `  <meta><description>Transfers of ${escapeXml(graph.organization)}</description></meta>`,
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    '      <attribute id="category" title="category" type="string"/>',
+    '      <attribute id="owned" title="owned" type="boolean"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="asset" title="asset" type="string"/>',
+    '      <attribute id="symbol" title="symbol" type="string"/>',
+    '      <attribute id="volume" title="volume" type="double"/>',
+    ...(valued ? [
+      '      <attribute id="volume_usd" title="volume_usd" type="double"/>',
+      '      <attribute id="unpriced" title="unpriced" type="integer"/>'
+    ] : []),
+    '    </attributes>',
+    '    <nodes>'
+  ];
+  for (const node of graph.nodes) {
+    lines.push(
+      `      <node id="${node.id}" label="${escapeXml(node.label)}">`,
+      '        <attvalues>',
+      `          <attvalue for="category" value="${node.category ?? ''}"/>`,
+      `          <attvalue for="owned" value="${node.owned}"/>`,
+      '        </attvalues>',
+      '      </node>'
+    );
+  }
+  lines.push('    </nodes>', '    <edges>');
+  graph.edges.forEach((edge, index) => {
+    lines.push(
+      `      <edge id="${index}" source="${edge.source}" target="${edge.target}" weight="${edge.count}" label="${escapeXml(edge.symbol)}">`,
+      '        <attvalues>',
+      `          <attvalue for="asset" value="${edge.asset}"/>`,
+      `          <attvalue for="symbol" value="${escapeXml(edge.symbol)}"/>`,
+      `          <attvalue for="volume" value="${toNumber(edge.volume)}"/>`,
+      ...(valued ? [
+        `          <attvalue for="volume_usd" value="${toNumber(edge.volumeUsd ?? '0')}"/>`,
+        `          <attvalue for="unpriced" value="${edge.unpriced ?? 0}"/>`
+      ] : []),
+      '        </attvalues>',
+      '      </edge>'
+    );
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+}
+
+// Graphviz DOT, also read by NetworkX (read_dot)
+function toDot(graph: TransactionGraph): string {
+  const lines = [`digraph "${escapeDot(graph.organization)}" {`];
+  for (const node of graph.nodes) {
+    lines.push(`  "${node.id}" [label="${escapeDot(node.label)}", category="${node.category ?? ''}", owned=${node.owned}${node.owned ? ', style=filled' : ''}];`);
+  }
+  for (const edge of graph.edges) {
+    const usd = edge.volumeUsd !== undefined ? `, volume_usd=${toNumber(edge.volumeUsd)}, unpriced=${edge.unpriced ?? 0}` : '';
+    lines.push(`  "${edge.source}" -> "${edge.target}" [label="${edge.count} x ${escapeDot(edge.symbol)}", asset="${edge.asset}", ` +
+      `symbol="${escapeDot(edge.symbol)}", weight=${edge.count}, volume=${toNumber(edge.volume)}${usd}];`);
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+// NetworkX node-link data (node_link_graph), with links under "links";
+// volumes stay exact strings
+function toJson(graph: TransactionGraph): string {
+  const pairs = new Set(graph.edges.map(edge => `${edge.source}:${edge.target}`));
+  return JSON.stringify({
+    directed: true,
+    multigraph: pairs.size < graph.edges.length,
+    graph: { name: graph.organization },
+    nodes: graph.nodes,
+    links: graph.edges.map(edge => ({ ...edge, weight: edge.count }))
+  }, null, 2);
+}
+
+export function serializeGraph(graph: TransactionGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'graphml':
+      return toGraphml(graph);
+    case 'gexf':
+      return toGexf(graph);
+    case 'dot':
+      return toDot(graph);
+    case 'json':
+      return toJson(graph);
+  }
+}
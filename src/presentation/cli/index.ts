@@ -1,8 +1,21 @@
 import { Command } from 'commander';
 import { createAnalyzeCommand } from './commands/analyze';
-import { createLogger } from '../../infrastructure/logging/logger';
-
-const logger = createLogger('CLI');
+import { createAnalyzeBatchCommand } from './commands/analyzeBatch';
+import { createImportCommand } from './commands/import';
+import { createDedupeCommand } from './commands/dedupe';
+import { createVerifyCommand } from './commands/verify';
+import { createRepairCommand } from './commands/repair';
+import { createOrgCommand } from './commands/org';
+import { createDecodeCommand } from './commands/decode';
+import { createGovernanceCommand } from './commands/governance';
+import { createSafeCommand } from './commands/safe';
+import { createReportCommand } from './commands/report';
+import { createBalancesCommand } from './commands/balances';
+import { createFeesCommand } from './commands/fees';
+import { createExportGraphCommand } from './commands/exportGraph';
+import { createLabelsCommand } from './commands/labels';
+import { createTraceCommand } from './commands/trace';
+import { createValueCommand } from './commands/value';
 
 export function createCli(): Command {
   const program = new Command()
@@ -11,6 +24,22 @@ export function createCli(): Command {
     .version('1.0.0');
 
   program.addCommand(createAnalyzeCommand());
+  program.addCommand(createAnalyzeBatchCommand());
+  program.addCommand(createImportCommand());
+  program.addCommand(createDedupeCommand());
+  program.addCommand(createVerifyCommand());
+  program.addCommand(createRepairCommand());
+  program.addCommand(createOrgCommand());
+  program.addCommand(createDecodeCommand());
+  program.addCommand(createGovernanceCommand());
+  program.addCommand(createSafeCommand());
+  program.addCommand(createReportCommand());
+  program.addCommand(createBalancesCommand());
+  program.addCommand(createFeesCommand());
+  program.addCommand(createExportGraphCommand());
+  program.addCommand(createLabelsCommand());
+  program.addCommand(createTraceCommand());
+  program.addCommand(createValueCommand());
 
   // Add error handling
   program.exitOverride();
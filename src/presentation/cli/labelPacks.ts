@@ -0,0 +1,79 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { LabelCategory } from '../../core/entities';
+import { ValidationError } from '../../core/errors';
+import { parseCsv } from '../../infrastructure/persistence/csv';
+import { parseLabelCategory } from '../../utils/labels';
+
+const address = z.string().trim().refine(value => ethers.isAddress(value), value => ({ message: `Invalid address: ${value}` }));
+const category = z.string().optional().transform((value, context) => {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+  try {
+    return parseLabelCategory(value);
+  } catch (error) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    return z.NEVER;
+  }
+});
+
+const entrySchema = z.object({
+  address,
+  name: z.string().trim().min(1),
+  category
+});
+
+// A list of entries, or names (or entries without address) by address
+const packSchema = z.union([
+  z.array(entrySchema),
+  z.record(z.union([z.string().trim().min(1), entrySchema.omit({ address: true })]))
+]);
+
+export interface LabelPackEntry {
+  address: string;
+  name: string;
+  category?: LabelCategory;
+}
+
+// CSV packs have a header row naming the address, name and optional
+// category columns, in any order
+function readCsvPack(content: string): unknown {
+  const [header, ...rows] = parseCsv(content).filter(row => row.some(field => field.trim()));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map(title => title.trim().toLowerCase());
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [column, row[index] ?? ''])));
+}
+
+export async function loadLabelPack(file: string): Promise<LabelPackEntry[]> {
+  let raw: unknown;
+  try {
+    const content = await fs.readFile(file, 'utf8');
+    raw = path.extname(file).toLowerCase() === '.csv' ? readCsvPack(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`Could not read label pack ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = packSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ValidationError(`Invalid label pack ${file}: ${issues}`);
+  }
+
+  if (Array.isArray(parsed.data)) {
+    return parsed.data;
+  }
+
+  return Object.entries(parsed.data).map(([key, value]) => {
+    if (!ethers.isAddress(key)) {
+      throw new ValidationError(`Invalid label pack ${file}: invalid address ${key}`);
+    }
+    return typeof value === 'string' ? { address: key, name: value } : { address: key, ...value };
+  });
+}
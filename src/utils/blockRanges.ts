@@ -0,0 +1,48 @@
+import { BlockRange } from '../core/interfaces/IDataStorage';
+
+// Sorts ranges and joins overlapping or adjacent ones
+export function mergeRanges(ranges: BlockRange[]): BlockRange[] {
+  const sorted = [...ranges].sort((a, b) => a.fromBlock - b.fromBlock);
+  const merged: BlockRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.fromBlock <= last.toBlock + 1) {
+      last.toBlock = Math.max(last.toBlock, range.toBlock);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+// Parts of [fromBlock, toBlock] not covered by any of the ranges
+export function findGaps(ranges: BlockRange[], fromBlock: number, toBlock: number): BlockRange[] {
+  const gaps: BlockRange[] = [];
+  let next = fromBlock;
+
+  for (const range of mergeRanges(ranges)) {
+    if (range.toBlock < next) continue;
+    if (range.fromBlock > toBlock) break;
+    if (range.fromBlock > next) {
+      gaps.push({ fromBlock: next, toBlock: range.fromBlock - 1 });
+    }
+    next = range.toBlock + 1;
+  }
+
+  if (next <= toBlock) {
+    gaps.push({ fromBlock: next, toBlock });
+  }
+
+  return gaps;
+}
+
+// Splits a range around the given blocks
+export function excludeBlocks(range: BlockRange, blocks: number[]): BlockRange[] {
+  return findGaps(
+    blocks.map(block => ({ fromBlock: block, toBlock: block })),
+    range.fromBlock,
+    range.toBlock
+  );
+}
@@ -0,0 +1,43 @@
+// Measures of how unevenly an amount (e.g. voting power) is spread over
+// holders; all return 0 for no holders or a zero total
+
+// 0 when every holder has the same amount, approaching 1 when one holds all
+export function giniCoefficient(amounts: number[]): number {
+  const sorted = [...amounts].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, amount) => sum + amount, 0);
+  if (sorted.length === 0 || total === 0) {
+    return 0;
+  }
+
+  const weighted = sorted.reduce((sum, amount, index) => sum + (index + 1) * amount, 0);
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length;
+}
+
+// Share of the total held by the `count` largest holders
+export function topShare(amounts: number[], count: number): number {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (total === 0) {
+    return 0;
+  }
+
+  const top = [...amounts].sort((a, b) => b - a).slice(0, count);
+  return top.reduce((sum, amount) => sum + amount, 0) / total;
+}
+
+// Fewest holders that together hold more than `threshold` of the total
+export function nakamotoCoefficient(amounts: number[], threshold = 0.5): number {
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+  if (total === 0) {
+    return 0;
+  }
+
+  let held = 0;
+  const sorted = [...amounts].sort((a, b) => b - a);
+  for (let i = 0; i < sorted.length; i++) {
+    held += sorted[i];
+    if (held > total * threshold) {
+      return i + 1;
+    }
+  }
+  return sorted.length;
+}
@@ -0,0 +1,55 @@
+import { ValidationError } from '../core/errors';
+
+// Whether a date opens or closes a range: a bare day covers all of it, so it
+// starts at midnight and ends at the last second of the day (UTC)
+export type DateBoundary = 'start' | 'end';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const RELATIVE_UNITS: Record<string, number> = {
+  h: 60 * 60,
+  d: DAY_SECONDS,
+  w: 7 * DAY_SECONDS
+};
+
+// Parses an ISO date (2023-01-31, 2023-01-31T12:00:00Z) or a time relative
+// to now (12h, 90d, 4w) into unix seconds
+export function parseDateInput(input: string, boundary: DateBoundary, now: number = Date.now()): number {
+  const value = input.trim();
+
+  const relative = value.match(/^(\d+)([hdw])$/i);
+  if (relative) {
+    return Math.floor(now / 1000) - parseInt(relative[1], 10) * RELATIVE_UNITS[relative[2].toLowerCase()];
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const dayStart = Date.parse(`${value}T00:00:00Z`) / 1000;
+    if (!isNaN(dayStart)) {
+      return boundary === 'start' ? dayStart : dayStart + DAY_SECONDS - 1;
+    }
+  } else if (/^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const parsed = Date.parse(value);
+    if (!isNaN(parsed)) {
+      return Math.floor(parsed / 1000);
+    }
+  }
+
+  throw new ValidationError(`Invalid date: ${input}. Use an ISO date such as 2023-01-31 or a relative time such as 90d`);
+}
+
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+export const REPORT_PERIODS: ReportPeriod[] = ['day', 'week', 'month'];
+
+// Label of the UTC period holding a unix timestamp: 2023-01-31 for a day,
+// the Monday it starts on for a week, 2023-01 for a month
+export function getPeriodLabel(timestamp: number, period: ReportPeriod): string {
+  const date = new Date(timestamp * 1000);
+  if (period === 'month') {
+    return date.toISOString().slice(0, 7);
+  }
+  if (period === 'week') {
+    date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  }
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,31 @@
+import { ethers } from 'ethers';
+import { ValidationError } from '../core/errors';
+
+// Turns an event signature, e.g. "Transfer(address,address,uint256)" or
+// "event Transfer(address indexed from, address indexed to, uint256 value)",
+// into its topic0 hash; a topic0 hash is returned as is (lowercase)
+export function parseEventTopic(input: string): string {
+  const value = input.trim();
+  if (/^0x[0-9a-fA-F]{64}$/.test(value)) {
+    return value.toLowerCase();
+  }
+
+  try {
+    return ethers.EventFragment.from(value).topicHash;
+  } catch {
+    throw new ValidationError(`Invalid event filter: ${input}. Use an event signature such as Transfer(address,address,uint256) or a topic0 hash`);
+  }
+}
+
+// Coverage of event logs collected with an event filter only vouches for
+// those events, so it is recorded apart from the address's unfiltered
+// coverage, under "<address>:<topic0>,<topic0>"
+export function getCoverageKey(address: string, topics: string[] = []): string {
+  const filter = [...new Set(topics.map(topic => topic.toLowerCase()))].sort();
+  return filter.length > 0 ? `${address.toLowerCase()}:${filter.join(',')}` : address.toLowerCase();
+}
+
+export function parseCoverageKey(key: string): { address: string; topics: string[] } {
+  const [address, filter] = key.split(':');
+  return { address, topics: filter ? filter.split(',') : [] };
+}
@@ -0,0 +1,35 @@
+import { AddressLabel, LabelCategory, LabelSource } from '../core/entities';
+import { ValidationError } from '../core/errors';
+
+export const LABEL_CATEGORIES: LabelCategory[] = ['cex', 'dex-router', 'bridge', 'mixer', 'team', 'vesting', 'contract', 'other'];
+
+export const LABEL_SOURCES: LabelSource[] = ['user', 'pack', 'organization', 'etherscan'];
+
+// A label only replaces one from the same or a less trusted source: names
+// set by hand win over organizations, packs and contract names, in order
+const SOURCE_RANKS: Record<LabelSource, number> = {
+  user: 3,
+  organization: 2,
+  pack: 1,
+  etherscan: 0
+};
+
+export function outranks(source: LabelSource, existing: LabelSource): boolean {
+  return SOURCE_RANKS[source] >= SOURCE_RANKS[existing];
+}
+
+// Accepts the categories in any case, with spaces or underscores for
+// dashes ("DEX router", "dex_router")
+export function parseLabelCategory(input: string): LabelCategory {
+  const value = input.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const category = LABEL_CATEGORIES.find(candidate => candidate === value);
+  if (!category) {
+    throw new ValidationError(`Unknown label category ${input}, expected one of ${LABEL_CATEGORIES.join(', ')}`);
+  }
+  return category;
+}
+
+// Labels by lowercase address, for looking them up while reporting
+export function indexLabels(labels: AddressLabel[]): Map<string, AddressLabel> {
+  return new Map(labels.map(label => [label.address.toLowerCase(), label]));
+}
@@ -0,0 +1,57 @@
+import { Organization, OrganizationAddress } from '../core/entities';
+
+// Organizations registered before they could hold several addresses only
+// carry their primary one
+export function getOrganizationAddresses(organization: Organization): OrganizationAddress[] {
+  return organization.addresses && organization.addresses.length > 0 ?
+    organization.addresses :
+    [{ address: organization.address }];
+}
+
+export function hasAddress(organization: Organization, address: string): boolean {
+  return getOrganizationAddresses(organization)
+    .some(entry => entry.address.toLowerCase() === address.toLowerCase());
+}
+
+// Merges an organization into its stored version: the primary address, first
+// chain and registration date are kept, while addresses and chains accumulate
+export function mergeOrganization(
+  existing: Organization | null,
+  incoming: Organization,
+  chainId: number
+): Organization {
+  const addresses = new Map<string, OrganizationAddress>();
+  for (const entry of [
+    ...(existing ? getOrganizationAddresses(existing) : []),
+    ...getOrganizationAddresses(incoming)
+  ]) {
+    const key = entry.address.toLowerCase();
+    const label = entry.label ?? addresses.get(key)?.label;
+    const provenance = addresses.get(key)?.provenance ?? entry.provenance;
+    addresses.set(key, {
+      address: addresses.get(key)?.address ?? entry.address,
+      ...(label ? { label } : {}),
+      ...(provenance ? { provenance } : {})
+    });
+  }
+
+  const chains = new Set([
+    ...(existing?.chains ?? []),
+    ...(incoming.chains ?? []),
+    existing?.chainId ?? incoming.chainId,
+    chainId
+  ]);
+  const tags = incoming.tags ?? existing?.tags;
+  const description = incoming.description ?? existing?.description;
+
+  return {
+    address: existing?.address ?? incoming.address,
+    addresses: [...addresses.values()],
+    name: incoming.name,
+    chainId: existing?.chainId ?? incoming.chainId,
+    chains: [...chains].sort((a, b) => a - b),
+    ...(tags ? { tags } : {}),
+    ...(description ? { description } : {}),
+    dateAdded: existing?.dateAdded ?? incoming.dateAdded
+  };
+}
@@ -0,0 +1,66 @@
+import { InternalTransaction, LogEntry, NftTransfer, Transaction, TokenTransfer } from '../core/entities';
+
+// Uniqueness keys used by storage to make repeated or overlapping writes idempotent.
+// Records are kept once per tracked address, so a transfer between two
+// addresses of the same organization is stored for both of them
+
+function withTrackedAddress(key: string, trackedAddress?: string): string {
+  return trackedAddress ? `${trackedAddress.toLowerCase()}:${key}` : key;
+}
+
+export function getTransactionKey(tx: Transaction): string {
+  return withTrackedAddress(tx.hash.toLowerCase(), tx.trackedAddress);
+}
+
+export function getInternalTransactionKey(tx: InternalTransaction): string {
+  const hash = tx.hash.toLowerCase();
+  if (tx.traceId) {
+    return withTrackedAddress(`${hash}:${tx.traceId}`, tx.trackedAddress);
+  }
+  // Internal transactions stored before trace ids were kept fall back to their content
+  return withTrackedAddress(`${hash}:${tx.from}:${tx.to}:${tx.value}:${tx.input}`.toLowerCase(), tx.trackedAddress);
+}
+
+export function getTokenTransferKey(transfer: TokenTransfer): string {
+  const hash = transfer.hash.toLowerCase();
+  if (transfer.logIndex !== undefined && transfer.logIndex !== null) {
+    return withTrackedAddress(`${hash}:${transfer.logIndex}`, transfer.trackedAddress);
+  }
+  // Etherscan reports no log index, and nothing else tells apart identical
+  // transfers of one transaction: they share this key and only one is kept
+  return withTrackedAddress(
+    `${hash}:${transfer.contractAddress}:${transfer.from}:${transfer.to}:${transfer.value}`.toLowerCase(),
+    transfer.trackedAddress
+  );
+}
+
+// An ERC-1155 batch transfer is one log moving several token ids
+export function getNftTransferKey(transfer: NftTransfer): string {
+  const hash = transfer.hash.toLowerCase();
+  if (transfer.logIndex !== undefined && transfer.logIndex !== null) {
+    return withTrackedAddress(`${hash}:${transfer.logIndex}:${transfer.tokenID}`, transfer.trackedAddress);
+  }
+  return withTrackedAddress(
+    `${hash}:${transfer.contractAddress}:${transfer.from}:${transfer.to}:${transfer.tokenID}:${transfer.tokenValue}`.toLowerCase(),
+    transfer.trackedAddress
+  );
+}
+
+export function getLogKey(log: LogEntry): string {
+  return withTrackedAddress(`${log.hash.toLowerCase()}:${log.logIndex}`, log.trackedAddress);
+}
+
+// One copy of each record, whatever the tracked addresses it was stored for,
+// e.g. a single transfer between two addresses of an organization
+export function uniqueAcrossTrackedAddresses<T extends { trackedAddress?: string }>(
+  records: T[],
+  keyOf: (record: T) => string
+): T[] {
+  const seen = new Set<string>();
+  return records.filter(record => {
+    const key = keyOf({ ...record, trackedAddress: undefined });
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
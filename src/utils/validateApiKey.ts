@@ -1,17 +1,24 @@
 import axios from 'axios';
-import { config } from '../config/config';
+import { ChainConfig } from '../config/chains';
 import { createLogger } from '../infrastructure/logging/logger';
 
 const logger = createLogger('ApiKeyValidator');
 
-export async function validateApiKey(): Promise<boolean> {
+export async function validateApiKey(chain: ChainConfig, apiKey: string): Promise<boolean> {
+  if (!chain.explorerApiUrl) {
+    logger.error(`Chain ${chain.name} has no explorer API`);
+    return false;
+  }
+
   try {
-    // Test the API key with a simple request
-    const response = await axios.get('https://api.etherscan.io/api', {
+    // Test the API key with a simple request every Etherscan-compatible explorer supports
+    const response = await axios.get(chain.explorerApiUrl, {
       params: {
-        module: 'stats',
-        action: 'ethsupply',
-        apikey: config.etherscan.apiKey,
+        module: 'account',
+        action: 'balance',
+        address: '0x0000000000000000000000000000000000000000',
+        tag: 'latest',
+        apikey: apiKey,
       },
     });
 
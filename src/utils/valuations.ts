@@ -0,0 +1,24 @@
+import { Valuation, ValuationKind } from '../core/entities';
+
+function getValuationKey(kind: ValuationKind, recordKey: string): string {
+  return `${kind}:${recordKey}`;
+}
+
+// Valuations by kind and record key, for looking them up while reporting
+export function indexValuations(valuations: Valuation[]): Map<string, Valuation> {
+  return new Map(valuations.map(valuation => [getValuationKey(valuation.kind, valuation.recordKey), valuation]));
+}
+
+// USD value of a record; undefined for records without a price or not
+// valued since they were collected
+export function getUsdValue(
+  valuations: Map<string, Valuation>,
+  kind: ValuationKind,
+  recordKey: string
+): number | undefined {
+  return valuations.get(getValuationKey(kind, recordKey))?.usdValue;
+}
+
+export function formatUsd(value: number): string {
+  return value.toFixed(2);
+}
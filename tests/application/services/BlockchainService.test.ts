@@ -0,0 +1,246 @@
+import path from 'path';
+import { ethers } from 'ethers';
+import { BlockchainService } from '../../../src/application/services/BlockchainService';
+import { Transaction } from '../../../src/core/entities';
+import { IBlockchainDataProvider, LogQueryOptions, QueryOptions } from '../../../src/core/interfaces/IBlockchainDataProvider';
+import { SqliteStorage } from '../../../src/infrastructure/persistence/SqliteStorage';
+import { DataIntegrityService } from '../../../src/application/services/DataIntegrityService';
+import { CacheMissError, CachingDataProvider } from '../../../src/infrastructure/api/cache/CachingDataProvider';
+import { ResponseCache } from '../../../src/infrastructure/api/cache/ResponseCache';
+import { getCoverageKey } from '../../../src/utils/eventTopics';
+import { CHAIN_ID, TREASURY, makeOrganization, makeTransaction, range, useTemporaryDirectory } from '../../fixtures';
+
+interface Query {
+  startBlock: number;
+  endBlock: number;
+  page: number;
+}
+
+// Serves the normal transactions it holds page by page, within a result
+// window like Etherscan's, and records every query it answers; it holds no
+// logs but records their queries too
+class PagedDataProvider implements IBlockchainDataProvider {
+  readonly queries: Query[] = [];
+  readonly logQueries: LogQueryOptions[] = [];
+  private readonly blocks = new Map<number, Transaction[]>();
+
+  constructor(readonly maxResultWindow?: number) {}
+
+  add(blockNumber: number, count: number): void {
+    this.blocks.set(blockNumber, range(0, count - 1).map(index => makeTransaction(blockNumber, index)));
+  }
+
+  async getTransactions(_address: string, options: QueryOptions = {}): Promise<Transaction[]> {
+    const { startBlock = 0, endBlock = Infinity, page = 1, offset = 1000 } = options;
+    if (this.maxResultWindow !== undefined && page * offset > this.maxResultWindow) {
+      throw new Error(`Page ${page} is past the result window`);
+    }
+    this.queries.push({ startBlock, endBlock, page });
+
+    const matches = [...this.blocks.keys()]
+      .filter(block => block >= startBlock && block <= endBlock)
+      .sort((a, b) => a - b)
+      .flatMap(block => this.blocks.get(block)!);
+    return matches.slice((page - 1) * offset, page * offset);
+  }
+
+  // Top-level windows: bisected halves always lie within a window already queried
+  get windows(): Array<{ startBlock: number; endBlock: number }> {
+    const windows: Array<{ startBlock: number; endBlock: number }> = [];
+    for (const { startBlock, endBlock } of this.queries) {
+      if (windows.length === 0 || startBlock > windows[windows.length - 1].endBlock) {
+        windows.push({ startBlock, endBlock });
+      }
+    }
+    return windows;
+  }
+
+  async getInternalTransactions(): Promise<never[]> { return []; }
+  async getTokenTransfers(): Promise<never[]> { return []; }
+  async getNftTransfers(): Promise<never[]> { return []; }
+  async getLogs(_address: string, options: LogQueryOptions = {}): Promise<never[]> {
+    this.logQueries.push(options);
+    return [];
+  }
+  async getBalance(): Promise<string> { return '0'; }
+  async getTokenBalance(): Promise<string> { return '0'; }
+  async getCurrentBlock(): Promise<number> { return 0; }
+  async getBlockNumberByTime(): Promise<number> { throw new Error('Not served'); }
+  async getBlockTimestamp(): Promise<number> { throw new Error('Not served'); }
+}
+
+describe('BlockchainService collection windows', () => {
+  useTemporaryDirectory('blockchain-service-');
+  let storage: SqliteStorage;
+
+  beforeEach(async () => {
+    storage = new SqliteStorage(CHAIN_ID, path.join(process.cwd(), 'data', 'analyzer.db'));
+    await storage.saveOrganization(makeOrganization());
+  });
+
+  async function collect(provider: PagedDataProvider, startBlock: number, endBlock: number): Promise<number> {
+    const service = new BlockchainService(provider, storage);
+    return (await service.analyzeOrganization('dao', { startBlock, endBlock })).normal;
+  }
+
+  async function getCoveredRanges(): Promise<Array<{ fromBlock: number; toBlock: number }>> {
+    const state = await storage.getLastProcessedState('dao');
+    return state?.transactionTypes.normal.coveredRanges?.[TREASURY] ?? [];
+  }
+
+  it('pages through a window when the provider has no result window', async () => {
+    const provider = new PagedDataProvider();
+    range(1, 100).forEach(block => provider.add(block, 15));
+
+    expect(await collect(provider, 1, 100)).toBe(1500);
+    expect(provider.queries).toEqual([
+      { startBlock: 1, endBlock: 100, page: 1 },
+      { startBlock: 1, endBlock: 100, page: 2 }
+    ]);
+  });
+
+  it('splits a window that fills the result window and collects both halves', async () => {
+    const provider = new PagedDataProvider(1000);
+    range(1, 100).forEach(block => provider.add(block, 15));
+
+    expect(await collect(provider, 1, 100)).toBe(1500);
+    expect(provider.queries).toEqual([
+      { startBlock: 1, endBlock: 100, page: 1 },
+      { startBlock: 1, endBlock: 50, page: 1 },
+      { startBlock: 51, endBlock: 100, page: 1 }
+    ]);
+    expect(await getCoveredRanges()).toEqual([{ fromBlock: 1, toBlock: 100 }]);
+  });
+
+  it('keeps what a single block over the result window returned and leaves that block uncovered', async () => {
+    const provider = new PagedDataProvider(1000);
+    provider.add(10, 1);
+    provider.add(50, 1200);
+    provider.add(90, 1);
+
+    expect(await collect(provider, 1, 100)).toBe(1002);
+    expect(provider.queries).toContainEqual({ startBlock: 50, endBlock: 50, page: 1 });
+    expect(await getCoveredRanges()).toEqual([
+      { fromBlock: 1, toBlock: 49 },
+      { fromBlock: 51, toBlock: 100 }
+    ]);
+
+    const stored = await storage.getTransactions('dao');
+    expect(stored.filter(tx => tx.blockNumber === 50)).toHaveLength(1000);
+    expect(stored.map(tx => tx.blockNumber)).toEqual(expect.arrayContaining([10, 90]));
+  });
+
+  it('halves the window after saturated ones, down to 1000 blocks, and doubles it over quiet ones', async () => {
+    const provider = new PagedDataProvider(1000);
+    // Any 1000 consecutive blocks up to 99999 hold a block over the result window
+    range(0, 99).forEach(thousand => provider.add(thousand * 1000, 1000));
+
+    await collect(provider, 0, 106436);
+
+    expect(provider.windows.map(window => window.endBlock - window.startBlock + 1))
+      .toEqual([50000, 25000, 12500, 6250, 3125, 1562, 1000, 1000, 2000, 4000]);
+  });
+
+  it('widens the window over quiet stretches up to a million blocks', async () => {
+    const provider = new PagedDataProvider(1000);
+
+    expect(await collect(provider, 0, 3549999)).toBe(0);
+    expect(provider.windows.map(window => window.endBlock - window.startBlock + 1))
+      .toEqual([50000, 100000, 200000, 400000, 800000, 1000000, 1000000]);
+    expect(await getCoveredRanges()).toEqual([{ fromBlock: 0, toBlock: 3549999 }]);
+  });
+});
+
+describe('BlockchainService log coverage', () => {
+  useTemporaryDirectory('log-coverage-');
+  const TRANSFER = ethers.id('Transfer(address,address,uint256)');
+  const APPROVAL = ethers.id('Approval(address,address,uint256)');
+  let storage: SqliteStorage;
+  let provider: PagedDataProvider;
+  let service: BlockchainService;
+
+  beforeEach(async () => {
+    storage = new SqliteStorage(CHAIN_ID, path.join(process.cwd(), 'data', 'analyzer.db'));
+    await storage.saveOrganization(makeOrganization());
+    provider = new PagedDataProvider();
+    service = new BlockchainService(provider, storage);
+  });
+
+  function collectLogs(logTopics?: string[], resume = false): Promise<unknown> {
+    return service.analyzeOrganization('dao', { startBlock: 1, endBlock: 100, includeLogs: true, logTopics, resume });
+  }
+
+  it('records filtered log coverage apart from the unfiltered one', async () => {
+    await collectLogs([TRANSFER]);
+
+    const state = await storage.getLastProcessedState('dao');
+    expect(state?.transactionTypes.logs.coveredRanges).toEqual({
+      [getCoverageKey(TREASURY, [TRANSFER])]: [{ fromBlock: 1, toBlock: 100 }]
+    });
+    expect(state?.transactionTypes.normal.coveredRanges).toEqual({ [TREASURY]: [{ fromBlock: 1, toBlock: 100 }] });
+  });
+
+  it('collects blocks covered with one filter again when resuming with another or none', async () => {
+    await collectLogs([TRANSFER]);
+    provider.logQueries.length = 0;
+
+    await collectLogs([APPROVAL], true);
+    await collectLogs(undefined, true);
+    await collectLogs([TRANSFER], true);
+
+    expect(provider.logQueries.map(query => [query.startBlock, query.topic0])).toEqual([
+      [1, APPROVAL],
+      [1, undefined]
+    ]);
+  });
+
+  it('reports filtered coverage on its own and repairs it with its filter', async () => {
+    await storage.markRangeCovered('dao', 'logs', getCoverageKey(TREASURY, [TRANSFER]), { fromBlock: 1, toBlock: 50 });
+    await storage.markRangeCovered('dao', 'logs', TREASURY, { fromBlock: 71, toBlock: 100 });
+
+    const report = await new DataIntegrityService(storage).verify('dao', { startBlock: 1, endBlock: 100 });
+    const logs = report.types.find(result => result.type === 'logs');
+    expect(logs?.addresses).toEqual([
+      { address: TREASURY, coveredRanges: [{ fromBlock: 71, toBlock: 100 }], gaps: [{ fromBlock: 1, toBlock: 70 }] },
+      {
+        address: TREASURY,
+        logTopics: [TRANSFER],
+        coveredRanges: [{ fromBlock: 1, toBlock: 50 }, { fromBlock: 71, toBlock: 100 }],
+        gaps: [{ fromBlock: 51, toBlock: 70 }]
+      }
+    ]);
+
+    await service.repairGaps('dao', [{ address: TREASURY, type: 'logs', ranges: [{ fromBlock: 51, toBlock: 70 }], logTopics: [TRANSFER] }]);
+
+    expect(provider.logQueries).toEqual([expect.objectContaining({ startBlock: 51, endBlock: 70, topic0: TRANSFER })]);
+    const state = await storage.getLastProcessedState('dao');
+    expect(state?.transactionTypes.logs.coveredRanges?.[getCoverageKey(TREASURY, [TRANSFER])]).toEqual([{ fromBlock: 1, toBlock: 70 }]);
+    expect(state?.transactionTypes.logs.coveredRanges?.[TREASURY]).toEqual([{ fromBlock: 71, toBlock: 100 }]);
+  });
+});
+
+describe('BlockchainService offline', () => {
+  useTemporaryDirectory('offline-');
+  afterEach(() => jest.restoreAllMocks());
+
+  it('fails on an uncached chain head without asking the public RPC', async () => {
+    const storage = new SqliteStorage(CHAIN_ID, path.join(process.cwd(), 'data', 'analyzer.db'));
+    await storage.saveOrganization(makeOrganization());
+    const provider = new PagedDataProvider();
+    const getCurrentBlock = jest.spyOn(provider, 'getCurrentBlock');
+    const getBlockNumber = jest.spyOn(ethers.JsonRpcProvider.prototype, 'getBlockNumber')
+      .mockRejectedValue(new Error('No network in tests'));
+    const offline = new CachingDataProvider(provider, new ResponseCache(path.join(process.cwd(), 'cache')), {
+      chainId: CHAIN_ID,
+      source: 'test',
+      offline: true,
+      ttl: 0,
+      finalityDepth: 0
+    });
+
+    await expect(new BlockchainService(offline, storage).analyzeOrganization('dao', { startBlock: 1 }))
+      .rejects.toBeInstanceOf(CacheMissError);
+    expect(getCurrentBlock).not.toHaveBeenCalled();
+    expect(getBlockNumber).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import path from 'path';
+import { ethers } from 'ethers';
+import { SafeService } from '../../../src/application/services/SafeService';
+import { LogEntry } from '../../../src/core/entities';
+import { SAFE_EVENTS, SAFE_EXEC_TRANSACTION } from '../../../src/infrastructure/abi/knownSignatures';
+import { SqliteStorage } from '../../../src/infrastructure/persistence/SqliteStorage';
+import { CHAIN_ID, COUNTERPARTY, makeOrganization, makeTransaction, useTemporaryDirectory } from '../../fixtures';
+
+const SIGNER = new ethers.Wallet(ethers.id('signer'));
+const SAFE = '0x5afe00000000000000000000000000000000cafe';
+const SAFE_TX_HASH = ethers.id('safe transaction');
+
+describe('SafeService', () => {
+  useTemporaryDirectory('safe-service-');
+  let storage: SqliteStorage;
+
+  beforeEach(async () => {
+    storage = new SqliteStorage(CHAIN_ID, path.join(process.cwd(), 'data', 'analyzer.db'));
+    await storage.saveOrganization({ ...makeOrganization('dao', SIGNER.address), addresses: [{ address: SAFE }] });
+  });
+
+  it('counts a call between a tracked signer and a tracked Safe once', async () => {
+    const signature = SIGNER.signingKey.sign(SAFE_TX_HASH).serialized;
+    const input = new ethers.Interface([SAFE_EXEC_TRANSACTION]).encodeFunctionData('execTransaction', [
+      COUNTERPARTY, 1, '0x', 0, 0, 0, 0, ethers.ZeroAddress, ethers.ZeroAddress, signature
+    ]);
+    const execution = makeTransaction(10, 0, { from: SIGNER.address.toLowerCase(), to: SAFE, input });
+    const success = new ethers.Interface(SAFE_EVENTS).encodeEventLog('ExecutionSuccess', [SAFE_TX_HASH, 0]);
+    const log: LogEntry = {
+      address: SAFE,
+      topics: success.topics,
+      data: success.data,
+      blockNumber: 10,
+      timeStamp: execution.timeStamp,
+      hash: execution.hash,
+      transactionIndex: 0,
+      logIndex: 0,
+      trackedAddress: SAFE
+    };
+
+    // Collected once for each address
+    await storage.saveTransactions('dao', [
+      { ...execution, trackedAddress: SIGNER.address.toLowerCase() },
+      { ...execution, trackedAddress: SAFE }
+    ]);
+    await storage.saveLogs('dao', [log]);
+
+    const [report] = await new SafeService(storage).analyzeOrganization('dao');
+
+    expect(report).toMatchObject({ safe: SAFE, transactions: 1, failedTransactions: 0 });
+    expect(report.signers).toEqual([
+      expect.objectContaining({ signer: SIGNER.address, signed: 1, executed: 1 })
+    ]);
+    expect(await storage.getSafeTransactions('dao')).toEqual([
+      expect.objectContaining({ hash: execution.hash, safeTxHash: SAFE_TX_HASH, success: true, signers: [SIGNER.address] })
+    ]);
+  });
+});
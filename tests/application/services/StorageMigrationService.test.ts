@@ -0,0 +1,98 @@
+import path from 'path';
+import { StorageMigrationService } from '../../../src/application/services/StorageMigrationService';
+import { FileSystemStorage } from '../../../src/infrastructure/persistence/FileSystemStorage';
+import { SqliteStorage } from '../../../src/infrastructure/persistence/SqliteStorage';
+import {
+  CHAIN_ID,
+  TREASURY,
+  makeInternalTransaction,
+  makeOrganization,
+  makeTokenTransfer,
+  makeTransaction,
+  range,
+  useTemporaryDirectory
+} from '../../fixtures';
+
+describe('StorageMigrationService', () => {
+  const getDir = useTemporaryDirectory('storage-migration-');
+
+  function openTarget(chainId = CHAIN_ID): SqliteStorage {
+    return new SqliteStorage(chainId, path.join(getDir(), 'data', 'analyzer.db'));
+  }
+
+  function createService(): StorageMigrationService {
+    return new StorageMigrationService(chainId => new FileSystemStorage(chainId), openTarget);
+  }
+
+  async function collectCsvData(): Promise<FileSystemStorage> {
+    const source = new FileSystemStorage(CHAIN_ID);
+    await source.saveOrganization(makeOrganization());
+    await source.saveTransactions('dao', range(10, 14).map(block => makeTransaction(block)));
+    await source.saveInternalTransactions('dao', [makeInternalTransaction(12), makeInternalTransaction(12, 1)]);
+    await source.saveTokenTransfers('dao', [makeTokenTransfer(13)]);
+    await source.markRangeCovered('dao', 'normal', TREASURY, { fromBlock: 0, toBlock: 20 });
+    await source.markRangeCovered('dao', 'tokenTransfers', TREASURY, { fromBlock: 5, toBlock: 20 });
+    await source.saveResolvedDate('dao', {
+      input: '2024-01-01', timestamp: 1_704_067_200, closest: 'after', blockNumber: 5, resolvedAt: '2024-02-01T00:00:00.000Z'
+    });
+    return source;
+  }
+
+  it('imports the records of every organization', async () => {
+    const source = await collectCsvData();
+
+    const [result] = await createService().migrateAll();
+
+    expect(result).toEqual({
+      organization: 'dao',
+      chainId: CHAIN_ID,
+      normal: 5,
+      internal: 2,
+      tokenTransfers: 1,
+      nftTransfers: 0,
+      logs: 0,
+      coveredRanges: 2,
+      resolvedDates: 1
+    });
+    const target = openTarget();
+    expect(await target.getOrganizationByName('dao')).toMatchObject({ name: 'dao', address: TREASURY });
+    expect(await target.getTransactions('dao')).toEqual(await source.getTransactions('dao'));
+    expect(await target.getInternalTransactions('dao')).toEqual(await source.getInternalTransactions('dao'));
+    expect(await target.getTokenTransfers('dao')).toEqual(await source.getTokenTransfers('dao'));
+  });
+
+  it('carries sync state and block coverage over, so the imported data counts as collected', async () => {
+    const source = await collectCsvData();
+
+    await createService().migrateAll();
+
+    const expected = await source.getLastProcessedState('dao');
+    const imported = await openTarget().getLastProcessedState('dao');
+    for (const type of ['normal', 'internal', 'tokenTransfers', 'nftTransfers', 'logs'] as const) {
+      expect(imported?.transactionTypes[type].lastBlock).toBe(expected?.transactionTypes[type].lastBlock);
+      expect(imported?.transactionTypes[type].count).toBe(expected?.transactionTypes[type].count);
+      expect(imported?.transactionTypes[type].coveredRanges).toEqual(expected?.transactionTypes[type].coveredRanges);
+    }
+    expect(imported?.resolvedDates).toEqual(expected?.resolvedDates);
+  });
+
+  it('only adds what is missing when run again', async () => {
+    const source = await collectCsvData();
+    const service = createService();
+    await service.migrateAll();
+
+    await source.saveTransactions('dao', [makeTransaction(15)]);
+    const [result] = await service.migrateAll(['dao']);
+
+    expect(result).toMatchObject({ normal: 1, internal: 0, tokenTransfers: 0 });
+    const imported = await openTarget().getLastProcessedState('dao');
+    expect(imported?.transactionTypes.normal).toMatchObject({ lastBlock: 15, count: 6 });
+    expect(imported?.transactionTypes.normal.coveredRanges).toEqual({ [TREASURY]: [{ fromBlock: 0, toBlock: 20 }] });
+  });
+
+  it('leaves out organizations not asked for', async () => {
+    await collectCsvData();
+
+    expect(await createService().migrateAll(['someone-else'])).toEqual([]);
+  });
+});
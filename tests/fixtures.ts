@@ -0,0 +1,106 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { InternalTransaction, Organization, TokenTransfer, Transaction } from '../src/core/entities';
+
+export const CHAIN_ID = 31337;
+export const TREASURY = '0x19e7e376e7c213b7e7e7e46cc70a5dd086daff2a';
+export const COUNTERPARTY = '0xffcf8fdee72ac11b5c542428b35eef5769c409f0';
+export const TOKEN = '0x6b175474e89094c44da98b954eedeac495271d0f';
+
+export function makeOrganization(name = 'dao', address = TREASURY): Organization {
+  return { name, address, chainId: CHAIN_ID, dateAdded: '2024-01-01T00:00:00.000Z' };
+}
+
+// Deterministic per block and position, so the same arguments always give
+// the same record
+function hashOf(...parts: Array<string | number>): string {
+  return ethers.id(parts.join(':'));
+}
+
+export function makeTransaction(blockNumber: number, index = 0, overrides: Partial<Transaction> = {}): Transaction {
+  return {
+    hash: hashOf('tx', blockNumber, index),
+    blockNumber,
+    timeStamp: 1_700_000_000 + blockNumber * 12,
+    from: TREASURY,
+    to: COUNTERPARTY,
+    value: '1000000000000000000',
+    gas: '21000',
+    gasPrice: '1000000000',
+    gasUsed: '21000',
+    txType: '2',
+    maxFeePerGas: '2000000000',
+    maxPriorityFeePerGas: '1000000000',
+    baseFeePerGas: '875000000',
+    isError: '0',
+    txreceipt_status: '1',
+    input: '0x',
+    contractAddress: '',
+    methodId: '0x',
+    functionName: '',
+    trackedAddress: TREASURY,
+    ...overrides
+  };
+}
+
+export function makeInternalTransaction(blockNumber: number, index = 0): InternalTransaction {
+  return {
+    hash: hashOf('tx', blockNumber, 0),
+    blockNumber,
+    timeStamp: 1_700_000_000 + blockNumber * 12,
+    traceId: `0_${index}`,
+    type: 'call',
+    from: COUNTERPARTY,
+    to: TREASURY,
+    value: '5',
+    contractAddress: '',
+    input: '0x',
+    gas: '2300',
+    gasUsed: '0',
+    isError: '0',
+    errCode: '',
+    trackedAddress: TREASURY
+  };
+}
+
+export function makeTokenTransfer(blockNumber: number, logIndex = 0): TokenTransfer {
+  return {
+    blockNumber,
+    timeStamp: 1_700_000_000 + blockNumber * 12,
+    hash: hashOf('tx', blockNumber, 0),
+    from: COUNTERPARTY,
+    to: TREASURY,
+    value: '2500000000000000000',
+    contractAddress: TOKEN,
+    tokenName: 'Dai Stablecoin',
+    tokenSymbol: 'DAI',
+    tokenDecimal: '18',
+    transactionIndex: 0,
+    gas: '60000',
+    gasPrice: '1000000000',
+    gasUsed: '51000',
+    logIndex,
+    trackedAddress: TREASURY
+  };
+}
+
+export function range(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+// The file system storage keeps its data under the working directory
+export function useTemporaryDirectory(prefix: string): () => string {
+  let dir = '';
+  const cwd = process.cwd();
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    process.chdir(dir);
+  });
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.removeSync(dir);
+  });
+  return () => dir;
+}
@@ -0,0 +1,164 @@
+import Database from 'better-sqlite3';
+import { ethers } from 'ethers';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SqliteStorage } from '../../../src/infrastructure/persistence/SqliteStorage';
+import {
+  CHAIN_ID,
+  TREASURY,
+  makeInternalTransaction,
+  makeOrganization,
+  makeTokenTransfer,
+  makeTransaction
+} from '../../fixtures';
+
+const TABLES = [
+  'organizations', 'normal_transactions', 'internal_transactions', 'token_transfers', 'nft_transfers',
+  'event_logs', 'decoded_calls', 'decoded_events', 'governance_proposals', 'governance_votes',
+  'safe_transactions', 'safe_owner_changes', 'balance_history', 'address_labels', 'fund_flow_hops',
+  'valuations', 'sync_state', 'covered_ranges', 'resolved_dates'
+];
+
+describe('SqliteStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sqlite-storage-'));
+    file = path.join(dir, 'analyzer.db');
+  });
+
+  afterEach(() => {
+    fs.removeSync(dir);
+  });
+
+  function inspect<T>(query: (db: Database.Database) => T): T {
+    const db = new Database(file, { readonly: true });
+    try {
+      return query(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  describe('schema', () => {
+    it('creates every table in an empty database at schema version 1', () => {
+      new Database(file).close();
+
+      new SqliteStorage(CHAIN_ID, file);
+
+      const tables = inspect(db => db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+        .all()
+        .map(row => (row as { name: string }).name));
+      expect(tables).toEqual(expect.arrayContaining(TABLES));
+      expect(inspect(db => db.pragma('user_version', { simple: true }))).toBe(1);
+    });
+
+    it('adds its tables to a database whose tables were created elsewhere', () => {
+      const db = new Database(file);
+      db.exec('CREATE TABLE notes (text TEXT)');
+      db.close();
+
+      new SqliteStorage(CHAIN_ID, file);
+
+      const tables = inspect(db => db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table'")
+        .all()
+        .map(row => (row as { name: string }).name));
+      expect(tables).toEqual(expect.arrayContaining(['notes', ...TABLES]));
+      expect(inspect(db => db.pragma('user_version', { simple: true }))).toBe(1);
+    });
+
+    it('opens a database at the current version without changing it', async () => {
+      const storage = new SqliteStorage(CHAIN_ID, file);
+      await storage.saveOrganization(makeOrganization());
+      await storage.saveTransactions('dao', [makeTransaction(10)]);
+
+      // A new process opens the file from scratch
+      await jest.isolateModulesAsync(async () => {
+        const { SqliteStorage: Reopened } = await import('../../../src/infrastructure/persistence/SqliteStorage');
+        const reopened = new Reopened(CHAIN_ID, file);
+        expect(await reopened.getTransactions('dao')).toHaveLength(1);
+      });
+      expect(inspect(db => db.pragma('user_version', { simple: true }))).toBe(1);
+    });
+  });
+
+  describe('records and sync state', () => {
+    let storage: SqliteStorage;
+
+    beforeEach(async () => {
+      storage = new SqliteStorage(CHAIN_ID, file);
+      await storage.saveOrganization(makeOrganization());
+    });
+
+    it('starts every data type at block 0 with no records', async () => {
+      const state = await storage.getLastProcessedState('dao');
+
+      expect(state?.totalTransactions).toBe(0);
+      expect(Object.values(state?.transactionTypes ?? {}).map(type => type.lastBlock)).toEqual([0, 0, 0, 0, 0]);
+    });
+
+    it('saves records with the last block and count of their data type', async () => {
+      expect(await storage.saveTransactions('dao', [makeTransaction(10), makeTransaction(15), makeTransaction(12)])).toBe(3);
+      expect(await storage.saveInternalTransactions('dao', [makeInternalTransaction(15)])).toBe(1);
+      expect(await storage.saveTokenTransfers('dao', [makeTokenTransfer(20), makeTokenTransfer(20, 1)])).toBe(2);
+
+      const state = await storage.getLastProcessedState('dao');
+      expect(state?.transactionTypes.normal).toMatchObject({ lastBlock: 15, count: 3 });
+      expect(state?.transactionTypes.internal).toMatchObject({ lastBlock: 15, count: 1 });
+      expect(state?.transactionTypes.tokenTransfers).toMatchObject({ lastBlock: 20, count: 2 });
+      expect(state?.lastProcessedBlock).toBe(20);
+      expect(state?.totalTransactions).toBe(6);
+    });
+
+    it('reads records back as they were saved, by block', async () => {
+      const transactions = [makeTransaction(12), makeTransaction(10)];
+      await storage.saveTransactions('dao', transactions);
+      await storage.saveTokenTransfers('dao', [makeTokenTransfer(20)]);
+
+      expect(await storage.getTransactions('dao')).toEqual([transactions[1], transactions[0]]);
+      expect(await storage.getTokenTransfers('dao')).toEqual([makeTokenTransfer(20)]);
+    });
+
+    it('keeps records and sync state of other organizations and chains apart', async () => {
+      await storage.saveOrganization(makeOrganization('other', '0x22d491bde2303f2f43325b2108d26f1eaba1e32b'));
+      const otherChain = new SqliteStorage(1, file);
+
+      await storage.saveTransactions('dao', [makeTransaction(10)]);
+      await storage.saveTransactions('other', [makeTransaction(10), makeTransaction(11)]);
+      await otherChain.saveTransactions('dao', [makeTransaction(30)]);
+
+      expect(await storage.getTransactions('dao')).toHaveLength(1);
+      expect((await storage.getLastProcessedState('dao'))?.transactionTypes.normal).toMatchObject({ lastBlock: 10, count: 1 });
+      expect((await storage.getLastProcessedState('other'))?.transactionTypes.normal).toMatchObject({ lastBlock: 11, count: 2 });
+      expect((await otherChain.getLastProcessedState('dao'))?.transactionTypes.normal).toMatchObject({ lastBlock: 30, count: 1 });
+    });
+
+    it('merges covered block ranges per data type and address', async () => {
+      await storage.markRangeCovered('dao', 'normal', ethers.getAddress(TREASURY), { fromBlock: 0, toBlock: 10 });
+      await storage.markRangeCovered('dao', 'normal', TREASURY, { fromBlock: 11, toBlock: 20 });
+      await storage.markRangeCovered('dao', 'normal', TREASURY, { fromBlock: 30, toBlock: 40 });
+      await storage.markRangeCovered('dao', 'logs', TREASURY, { fromBlock: 5, toBlock: 6 });
+
+      const state = await storage.getLastProcessedState('dao');
+      expect(state?.transactionTypes.normal.coveredRanges).toEqual({
+        [TREASURY]: [{ fromBlock: 0, toBlock: 20 }, { fromBlock: 30, toBlock: 40 }]
+      });
+      expect(state?.transactionTypes.logs.coveredRanges).toEqual({ [TREASURY]: [{ fromBlock: 5, toBlock: 6 }] });
+    });
+
+    it('replaces a resolved date given again with the same rounding', async () => {
+      const resolved = { input: '2024-01-01', timestamp: 1_704_067_200, closest: 'after' as const, blockNumber: 100, resolvedAt: '2024-02-01T00:00:00.000Z' };
+      await storage.saveResolvedDate('dao', resolved);
+      await storage.saveResolvedDate('dao', { ...resolved, blockNumber: 101, resolvedAt: '2024-03-01T00:00:00.000Z' });
+      await storage.saveResolvedDate('dao', { ...resolved, closest: 'before', blockNumber: 99 });
+
+      const state = await storage.getLastProcessedState('dao');
+      // In the order they were resolved
+      expect(state?.resolvedDates?.map(date => [date.closest, date.blockNumber])).toEqual([['before', 99], ['after', 101]]);
+    });
+  });
+});
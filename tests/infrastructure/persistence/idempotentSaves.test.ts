@@ -0,0 +1,124 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { IDataStorage } from '../../../src/core/interfaces/IDataStorage';
+import { FileSystemStorage } from '../../../src/infrastructure/persistence/FileSystemStorage';
+import { SqliteStorage } from '../../../src/infrastructure/persistence/SqliteStorage';
+import {
+  CHAIN_ID,
+  COUNTERPARTY,
+  makeInternalTransaction,
+  makeOrganization,
+  makeTokenTransfer,
+  makeTransaction,
+  range,
+  useTemporaryDirectory
+} from '../../fixtures';
+
+// Repeated and resumed runs hand storage records it already holds; both
+// backends must end up with the same rows and sync state as a single run
+describe.each([
+  ['FileSystemStorage', (): IDataStorage => new FileSystemStorage(CHAIN_ID)],
+  ['SqliteStorage', (): IDataStorage => new SqliteStorage(CHAIN_ID, path.join(process.cwd(), 'data', 'analyzer.db'))]
+])('%s saves', (_, createStorage) => {
+  useTemporaryDirectory('idempotent-saves-');
+  let storage: IDataStorage;
+
+  beforeEach(async () => {
+    storage = createStorage();
+    await storage.saveOrganization(makeOrganization());
+  });
+
+  async function getCounts(): Promise<Record<string, number>> {
+    const state = await storage.getLastProcessedState('dao');
+    return {
+      normal: (await storage.getTransactions('dao')).length,
+      normalState: state?.transactionTypes.normal.count ?? -1,
+      internal: (await storage.getInternalTransactions('dao')).length,
+      internalState: state?.transactionTypes.internal.count ?? -1,
+      tokenTransfers: (await storage.getTokenTransfers('dao')).length,
+      tokenTransfersState: state?.transactionTypes.tokenTransfers.count ?? -1
+    };
+  }
+
+  it('skip a batch saved twice', async () => {
+    const transactions = range(10, 19).map(block => makeTransaction(block));
+    const calls = [makeInternalTransaction(12), makeInternalTransaction(12, 1)];
+    const transfers = [makeTokenTransfer(15), makeTokenTransfer(15, 1)];
+    await storage.saveTransactions('dao', transactions);
+    await storage.saveInternalTransactions('dao', calls);
+    await storage.saveTokenTransfers('dao', transfers);
+    const counts = await getCounts();
+    const state = await storage.getLastProcessedState('dao');
+
+    expect(await storage.saveTransactions('dao', transactions)).toBe(0);
+    expect(await storage.saveInternalTransactions('dao', calls)).toBe(0);
+    expect(await storage.saveTokenTransfers('dao', transfers)).toBe(0);
+
+    expect(counts).toEqual({ normal: 10, normalState: 10, internal: 2, internalState: 2, tokenTransfers: 2, tokenTransfersState: 2 });
+    expect(await getCounts()).toEqual(counts);
+    expect((await storage.getLastProcessedState('dao'))?.transactionTypes.normal.lastBlock).toBe(state?.transactionTypes.normal.lastBlock);
+  });
+
+  it('only add the new records of a resumed batch overlapping the stored ones', async () => {
+    await storage.saveTransactions('dao', range(10, 20).map(block => makeTransaction(block)));
+    await storage.saveTokenTransfers('dao', range(10, 20).map(block => makeTokenTransfer(block)));
+
+    // --resume restarts at the last stored block, which may be partly written
+    expect(await storage.saveTransactions('dao', range(18, 25).map(block => makeTransaction(block)))).toBe(5);
+    expect(await storage.saveTokenTransfers('dao', range(20, 25).map(block => makeTokenTransfer(block)))).toBe(5);
+
+    const state = await storage.getLastProcessedState('dao');
+    expect(await getCounts()).toMatchObject({ normal: 16, normalState: 16, tokenTransfers: 16, tokenTransfersState: 16 });
+    expect(state?.transactionTypes.normal.lastBlock).toBe(25);
+    expect(state?.totalTransactions).toBe(32);
+  });
+
+  it('skip duplicates within a single batch', async () => {
+    expect(await storage.saveTransactions('dao', [makeTransaction(10), makeTransaction(10), makeTransaction(11)])).toBe(2);
+
+    expect(await getCounts()).toMatchObject({ normal: 2, normalState: 2 });
+  });
+
+  it('keep one of identical token transfers of a transaction reported without log index', async () => {
+    const transfer = { ...makeTokenTransfer(10), logIndex: undefined };
+
+    expect(await storage.saveTokenTransfers('dao', [transfer, { ...transfer }, makeTokenTransfer(10, 1)])).toBe(2);
+    expect(await getCounts()).toMatchObject({ tokenTransfers: 2, tokenTransfersState: 2 });
+  });
+
+  it('keep a transfer once per tracked address', async () => {
+    const tx = makeTransaction(10);
+
+    expect(await storage.saveTransactions('dao', [tx, { ...tx, trackedAddress: COUNTERPARTY }])).toBe(2);
+    expect(await storage.saveTransactions('dao', [{ ...tx, trackedAddress: COUNTERPARTY }])).toBe(0);
+  });
+
+  it('leave nothing for dedupe to remove', async () => {
+    const transactions = range(10, 14).map(block => makeTransaction(block));
+    await storage.saveTransactions('dao', transactions);
+    await storage.saveTransactions('dao', transactions);
+    const counts = await getCounts();
+
+    expect(await storage.deduplicate('dao')).toEqual({ normal: 0, internal: 0, tokenTransfers: 0, nftTransfers: 0, logs: 0 });
+    expect(await getCounts()).toEqual(counts);
+  });
+});
+
+describe('FileSystemStorage dedupe', () => {
+  const getDir = useTemporaryDirectory('dedupe-');
+
+  it('removes rows written twice by older versions and recounts sync state', async () => {
+    const storage = new FileSystemStorage(CHAIN_ID);
+    await storage.saveOrganization(makeOrganization());
+    await storage.saveTransactions('dao', range(10, 14).map(block => makeTransaction(block)));
+
+    // Earlier versions appended every batch as it came
+    const file = path.join(getDir(), 'data', 'organizations', 'dao', 'chains', CHAIN_ID.toString(), 'transactions', 'normal.csv');
+    const [header, ...rows] = (await fs.readFile(file, 'utf8')).trim().split('\n');
+    await fs.writeFile(file, [header, ...rows, ...rows.slice(2)].join('\n') + '\n');
+
+    expect(await storage.deduplicate('dao')).toMatchObject({ normal: 3 });
+    expect(await storage.getTransactions('dao')).toEqual(range(10, 14).map(block => makeTransaction(block)));
+    expect((await storage.getLastProcessedState('dao'))?.transactionTypes.normal.count).toBe(5);
+  });
+});
@@ -0,0 +1,3 @@
+// Tests exercise failures on purpose; only errors are worth seeing
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+process.env.CACHE_ENABLED = 'false';
@@ -0,0 +1,51 @@
+import {
+  getInternalTransactionKey,
+  getTokenTransferKey,
+  getTransactionKey,
+  uniqueAcrossTrackedAddresses
+} from '../../src/utils/recordKeys';
+import { COUNTERPARTY, TREASURY, makeInternalTransaction, makeTokenTransfer, makeTransaction } from '../fixtures';
+
+describe('record keys', () => {
+  it('key normal transactions by tracked address and hash, whatever the case', () => {
+    const tx = makeTransaction(10);
+
+    expect(getTransactionKey({ ...tx, hash: tx.hash.toUpperCase().replace('0X', '0x'), trackedAddress: TREASURY.toUpperCase() }))
+      .toBe(getTransactionKey(tx));
+    expect(getTransactionKey({ ...tx, value: '0' })).toBe(getTransactionKey(tx));
+    expect(getTransactionKey({ ...tx, trackedAddress: COUNTERPARTY })).not.toBe(getTransactionKey(tx));
+  });
+
+  it('tell apart the calls of one transaction by trace id', () => {
+    expect(getInternalTransactionKey(makeInternalTransaction(10, 0))).not.toBe(getInternalTransactionKey(makeInternalTransaction(10, 1)));
+  });
+
+  it('key internal transactions without a trace id on their content', () => {
+    const call = { ...makeInternalTransaction(10), traceId: undefined };
+
+    expect(getInternalTransactionKey(call)).toBe(getInternalTransactionKey({ ...call }));
+    expect(getInternalTransactionKey({ ...call, value: '6' })).not.toBe(getInternalTransactionKey(call));
+  });
+
+  it('key token transfers by log index when the provider reports it, else on their content', () => {
+    expect(getTokenTransferKey(makeTokenTransfer(10, 0))).not.toBe(getTokenTransferKey(makeTokenTransfer(10, 1)));
+
+    const withoutIndex = { ...makeTokenTransfer(10), logIndex: undefined };
+    expect(getTokenTransferKey({ ...withoutIndex, gasUsed: '1' })).toBe(getTokenTransferKey(withoutIndex));
+    expect(getTokenTransferKey({ ...withoutIndex, value: '1' })).not.toBe(getTokenTransferKey(withoutIndex));
+  });
+
+  it('key identical transfers of one transaction without log index alike, so only one is kept', () => {
+    const transfer = { ...makeTokenTransfer(10), logIndex: undefined };
+
+    expect(getTokenTransferKey({ ...transfer })).toBe(getTokenTransferKey(transfer));
+    expect(uniqueAcrossTrackedAddresses([transfer, { ...transfer }], getTokenTransferKey)).toHaveLength(1);
+  });
+
+  it('keep one copy of a record stored for several tracked addresses', () => {
+    const tx = makeTransaction(10);
+    const records = [tx, { ...tx, trackedAddress: COUNTERPARTY }, makeTransaction(11)];
+
+    expect(uniqueAcrossTrackedAddresses(records, getTransactionKey)).toEqual([tx, makeTransaction(11)]);
+  });
+});